@@ -0,0 +1,12 @@
+-- Migration: Voice anonymization flag on laugh clips
+-- Purpose: Record which privacy processing was applied before a clip was
+--          published to the public laugh-starter-clips bucket
+-- Author: Lafter.org Team
+-- Date: 2026-10-19
+
+-- Steps applied to the stored audio (empty = the contributor's raw voice):
+--   pitch_shift        - pitch and formants shifted (amount deliberately not stored)
+--   speech_suppression - talking around the laugh was muted
+ALTER TABLE laugh_clips
+    ADD COLUMN IF NOT EXISTS anonymization TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (anonymization <@ ARRAY['pitch_shift', 'speech_suppression']::TEXT[]);
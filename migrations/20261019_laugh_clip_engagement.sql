@@ -0,0 +1,151 @@
+-- Migration: Atomic engagement counters and per-listener votes for laugh clips
+-- Purpose: Replace the client's read-then-write play_count update (which
+--          loses plays under concurrency) with increments done in one
+--          UPDATE, start recording skips, and keep likes/dislikes as one
+--          vote per listener (thumbs_up/thumbs_down count listeners)
+-- Author: Lafter.org Team
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- TABLE: laugh_clip_votes
+-- ============================================================================
+-- A listener's latest vote on a clip. Voting again replaces it, so repeat
+-- plays never add up to more than one like or dislike.
+
+CREATE TABLE IF NOT EXISTS laugh_clip_votes (
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    clip_id UUID NOT NULL REFERENCES laugh_clips(id) ON DELETE CASCADE,
+    vote SMALLINT NOT NULL CHECK (vote IN (-1, 1)),   -- 1 = like, -1 = dislike
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, clip_id)
+);
+
+-- Recounting a clip's votes
+CREATE INDEX IF NOT EXISTS idx_laugh_clip_votes_clip
+    ON laugh_clip_votes(clip_id, vote);
+
+ALTER TABLE laugh_clip_votes ENABLE ROW LEVEL SECURITY;
+
+-- Votes are written through record_clip_engagement only
+CREATE POLICY "Users can view their own votes"
+    ON laugh_clip_votes
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- FUNCTION: increment_clip_engagement
+-- ============================================================================
+-- Adds to one clip's play/skip counters in a single statement, so
+-- concurrent calls never overwrite each other. Only approved (publicly
+-- playable) clips count. Each call adds at most 20 of each - the client
+-- sends larger offline backlogs over several calls.
+
+CREATE OR REPLACE FUNCTION increment_clip_engagement(
+    p_clip_id UUID,
+    p_plays INTEGER DEFAULT 0,
+    p_skips INTEGER DEFAULT 0
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE laugh_clips
+    SET
+        play_count = COALESCE(play_count, 0) + LEAST(GREATEST(p_plays, 0), 20),
+        skip_count = COALESCE(skip_count, 0) + LEAST(GREATEST(p_skips, 0), 20)
+    WHERE id = p_clip_id
+      AND approval_status = 'approved';
+$$;
+
+-- ============================================================================
+-- FUNCTION: set_clip_vote
+-- ============================================================================
+-- Stores the calling listener's vote ('like' / 'dislike') and recounts the
+-- clip's thumbs_up/thumbs_down from laugh_clip_votes.
+
+CREATE OR REPLACE FUNCTION set_clip_vote(p_clip_id UUID, p_vote TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_vote NOT IN ('like', 'dislike') THEN
+        RAISE EXCEPTION 'Unknown vote: %', p_vote;
+    END IF;
+
+    INSERT INTO laugh_clip_votes (user_id, clip_id, vote)
+    SELECT auth.uid(), id, CASE WHEN p_vote = 'like' THEN 1 ELSE -1 END
+    FROM laugh_clips
+    WHERE id = p_clip_id
+      AND approval_status = 'approved'
+    ON CONFLICT (user_id, clip_id)
+        DO UPDATE SET vote = EXCLUDED.vote, updated_at = NOW();
+
+    UPDATE laugh_clips
+    SET
+        thumbs_up = (SELECT COUNT(*) FROM laugh_clip_votes WHERE clip_id = p_clip_id AND vote = 1),
+        thumbs_down = (SELECT COUNT(*) FROM laugh_clip_votes WHERE clip_id = p_clip_id AND vote = -1)
+    WHERE id = p_clip_id;
+END;
+$$;
+
+-- ============================================================================
+-- FUNCTION: record_clip_engagement
+-- ============================================================================
+-- Batch form used by the client's offline queue:
+--   [{ "clip_id": "...", "plays": 2, "skips": 1, "vote": "like" }, ...]
+-- ("vote" is null when the listener didn't vote)
+-- Runs in one transaction - the whole batch lands or none of it does.
+
+CREATE OR REPLACE FUNCTION record_clip_engagement(p_events JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    event RECORD;
+    recorded INTEGER := 0;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Engagement can only be recorded by signed-in listeners';
+    END IF;
+
+    IF jsonb_array_length(p_events) > 100 THEN
+        RAISE EXCEPTION 'Too many engagement events in one batch (max 100)';
+    END IF;
+
+    FOR event IN
+        SELECT * FROM jsonb_to_recordset(p_events)
+            AS e(clip_id UUID, plays INTEGER, skips INTEGER, vote TEXT)
+    LOOP
+        PERFORM increment_clip_engagement(
+            event.clip_id,
+            COALESCE(event.plays, 0),
+            COALESCE(event.skips, 0)
+        );
+        IF event.vote IS NOT NULL THEN
+            PERFORM set_clip_vote(event.clip_id, event.vote);
+        END IF;
+        recorded := recorded + 1;
+    END LOOP;
+
+    RETURN recorded;
+END;
+$$;
+
+-- Signed-in listeners only, and only through the batch entry point.
+-- Supabase grants EXECUTE on public functions to anon and authenticated
+-- directly, so revoking from PUBLIC alone isn't enough.
+REVOKE ALL ON FUNCTION increment_clip_engagement(UUID, INTEGER, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION set_clip_vote(UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION record_clip_engagement(JSONB) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION
+    increment_clip_engagement(UUID, INTEGER, INTEGER),
+    set_clip_vote(UUID, TEXT)
+    FROM anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_clip_engagement(JSONB) FROM anon;
+GRANT EXECUTE ON FUNCTION record_clip_engagement(JSONB) TO authenticated;
@@ -0,0 +1,14 @@
+-- Migration: Loudness metadata on laugh clips
+-- Purpose: Store how loud each normalized starter clip measured, so playback
+--          can spot outliers and old peak-normalized clips can be reprocessed
+-- Author: Lafter.org Team
+-- Date: 2026-10-19
+
+-- Integrated loudness (EBU R128 / ITU-R BS.1770) after normalization.
+-- New clips target -16 LUFS; NULL for clips shared before loudness normalization.
+ALTER TABLE laugh_clips
+    ADD COLUMN IF NOT EXISTS loudness_lufs FLOAT;
+
+-- True peak after limiting (dBTP, 4x oversampled), at most -1 for new clips
+ALTER TABLE laugh_clips
+    ADD COLUMN IF NOT EXISTS true_peak_db FLOAT;
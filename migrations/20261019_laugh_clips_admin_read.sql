@@ -0,0 +1,16 @@
+-- Migration: Admin read access to the laugh clip review queue
+-- Purpose: Let moderators list pending, flagged and rejected clips in the
+--          /admin/clips console (previously they could update clips but
+--          only ever see approved ones and their own)
+-- Author: Lafter.org Team
+-- Date: 2026-10-19
+
+-- Same admin check as "Admins can review clips" (UPDATE)
+CREATE POLICY "Admins can view all clips"
+    ON laugh_clips
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT id FROM profiles WHERE email LIKE '%@lafter.org'
+        )
+    );
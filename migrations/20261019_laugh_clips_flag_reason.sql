@@ -0,0 +1,9 @@
+-- Migration: Reasons for flagged clips
+-- Purpose: rejection_reason now also explains why a clip was flagged
+--          (AutoCurator rules, moderators), so the review console can show
+--          it. Approving a clip clears it.
+-- Author: Lafter.org Team
+-- Date: 2026-10-19
+
+COMMENT ON COLUMN laugh_clips.rejection_reason IS
+    'Why the clip was rejected or flagged (NULL once approved)';
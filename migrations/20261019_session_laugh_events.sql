@@ -0,0 +1,9 @@
+-- Migration: Laugh timeline on sessions
+-- Purpose: Store each detected laugh so session history can show playback markers
+-- Author: Lafter.org Team
+-- Date: 2026-10-19
+
+-- [{ "time": ms, "duration": ms, "volume": 0-100, "probability": 0-1 }, ...]
+-- time is measured on the recording's own timeline (paused time excluded)
+ALTER TABLE sessions
+    ADD COLUMN IF NOT EXISTS laugh_events JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,12 @@
+-- Migration: Separate active and wall-clock session duration
+-- Purpose: sessions.duration now excludes paused time (used for laughs/minute);
+--          wall_clock_duration keeps the full start-to-stop span
+-- Author: Lafter.org Team
+-- Date: 2026-10-19
+
+ALTER TABLE sessions
+    ADD COLUMN IF NOT EXISTS wall_clock_duration INTEGER
+        CHECK (wall_clock_duration IS NULL OR wall_clock_duration >= 0); -- seconds, includes pauses
+
+COMMENT ON COLUMN sessions.duration IS 'Seconds of active recording, excluding paused time';
+COMMENT ON COLUMN sessions.wall_clock_duration IS 'Seconds from start to stop, including paused time (NULL for sessions recorded before this column existed)';
@@ -0,0 +1,98 @@
+-- Migration: Role-based access control
+-- Purpose: Replace the '%@lafter.org' email check (profiles has no email
+--          column) with explicit roles: user < moderator < admin
+-- Author: Lafter.org Team
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- TABLE: user_roles
+-- ============================================================================
+-- Every signed-in account is implicitly a 'user'; only elevated roles are
+-- stored. One row per grant, so roles can be added and revoked independently.
+
+CREATE TABLE IF NOT EXISTS user_roles (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL
+        CHECK (role IN ('user', 'moderator', 'admin')),
+    granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    granted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    PRIMARY KEY (user_id, role)
+);
+
+-- ============================================================================
+-- FUNCTION: has_role
+-- ============================================================================
+-- True when the caller holds `required` or a higher role. SECURITY DEFINER so
+-- policies on user_roles itself can call it without recursing through RLS.
+
+CREATE OR REPLACE FUNCTION has_role(required TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT auth.uid() IS NOT NULL AND (
+        required = 'user'
+        OR EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+              AND (role = required OR role = 'admin')
+        )
+    );
+$$;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) Policies
+-- ============================================================================
+
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Users can see their own roles (AuthContext loads them at sign-in)
+CREATE POLICY "Users can view their own roles"
+    ON user_roles
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Admins manage everyone's roles
+CREATE POLICY "Admins can view all roles"
+    ON user_roles
+    FOR SELECT
+    USING (has_role('admin'));
+
+CREATE POLICY "Admins can grant roles"
+    ON user_roles
+    FOR INSERT
+    WITH CHECK (has_role('admin') AND granted_by = auth.uid());
+
+CREATE POLICY "Admins can revoke roles"
+    ON user_roles
+    FOR DELETE
+    USING (has_role('admin'));
+
+-- ============================================================================
+-- laugh_clips: moderation by role instead of email domain
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Admins can review clips" ON laugh_clips;
+DROP POLICY IF EXISTS "Admins can view all clips" ON laugh_clips;
+
+CREATE POLICY "Moderators can view all clips"
+    ON laugh_clips
+    FOR SELECT
+    USING (has_role('moderator'));
+
+CREATE POLICY "Moderators can review clips"
+    ON laugh_clips
+    FOR UPDATE
+    USING (has_role('moderator'))
+    WITH CHECK (has_role('moderator'));
+
+-- ============================================================================
+-- BOOTSTRAP
+-- ============================================================================
+-- The first admin has to be granted outside RLS (SQL editor / service role):
+--
+-- INSERT INTO user_roles (user_id, role)
+-- SELECT id, 'admin' FROM auth.users WHERE email = 'you@example.com';
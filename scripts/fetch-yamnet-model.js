@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+
+/**
+ * Fetch YAMNet Model Artifacts
+ *
+ * Usage:
+ *   node scripts/fetch-yamnet-model.js            # Downloads version 1.0
+ *   node scripts/fetch-yamnet-model.js --force    # Re-download even if present
+ *
+ * What it does:
+ *   1. Downloads model.json for the TF.js YAMNet model from TF Hub
+ *   2. Downloads every weight shard listed in its weightsManifest
+ *   3. Downloads yamnet_class_map.csv (521 AudioSet labels)
+ *   4. Writes them to public/models/yamnet/<version>/ so the app can
+ *      serve the model from its own origin (see YamnetService)
+ *
+ * Bump MODEL_VERSION together with VITE_YAMNET_MODEL_VERSION / the
+ * default in YamnetService when upgrading the model.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = path.resolve(__dirname, '..');
+
+// Configuration
+const MODEL_VERSION = '1.0';
+const SOURCE_URL = 'https://tfhub.dev/google/tfjs-model/yamnet/tfjs/1';
+const CLASS_MAP_URL = 'https://raw.githubusercontent.com/tensorflow/models/master/research/audioset/yamnet/yamnet_class_map.csv';
+const OUTPUT_DIR = path.join(PROJECT_ROOT, 'public', 'models', 'yamnet', MODEL_VERSION);
+const FORCE = process.argv.includes('--force');
+
+async function download(url) {
+    const response = await fetch(url, { redirect: 'follow' });
+    if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText} for ${url}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+}
+
+async function main() {
+    const modelJsonPath = path.join(OUTPUT_DIR, 'model.json');
+    if (fs.existsSync(modelJsonPath) && !FORCE) {
+        console.log(`✅ YAMNet ${MODEL_VERSION} already present at ${OUTPUT_DIR} (use --force to refresh)`);
+        return;
+    }
+
+    fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+
+    console.log(`🧠 Fetching YAMNet ${MODEL_VERSION} from ${SOURCE_URL}`);
+    const modelJson = await download(`${SOURCE_URL}/model.json?tfjs-format=file`);
+    fs.writeFileSync(modelJsonPath, modelJson);
+
+    const manifest = JSON.parse(modelJson.toString('utf8')).weightsManifest || [];
+    const shards = manifest.flatMap(group => group.paths);
+
+    for (const shard of shards) {
+        console.log(`   ↳ ${shard}`);
+        const data = await download(`${SOURCE_URL}/${shard}?tfjs-format=file`);
+        fs.writeFileSync(path.join(OUTPUT_DIR, shard), data);
+    }
+
+    console.log('   ↳ yamnet_class_map.csv');
+    fs.writeFileSync(path.join(OUTPUT_DIR, 'yamnet_class_map.csv'), await download(CLASS_MAP_URL));
+
+    console.log(`✅ Saved model.json + ${shards.length} shard(s) + class map to ${OUTPUT_DIR}`);
+}
+
+main().catch(error => {
+    console.error('❌ Failed to fetch YAMNet model:', error.message);
+    process.exit(1);
+});
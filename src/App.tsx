@@ -8,20 +8,39 @@ import { Login } from './pages/Login';
 import { Dashboard } from './pages/Dashboard';
 import { SessionPage } from './pages/SessionPage';
 import { SettingsPage } from './pages/SettingsPage';
+import { SessionsPage } from './pages/SessionsPage';
+import { SessionDetailPage } from './pages/SessionDetailPage';
+import { AdminClipsPage } from './pages/AdminClipsPage';
 
 import { useEffect } from 'react';
 import { AutoCurator } from './services/curation/AutoCurator';
+import { SyncService } from './services/sync/SyncService';
+import { EngagementQueue } from './services/clips/EngagementQueue';
 
 function App() {
   // Run Auto-Curation on startup
   useEffect(() => {
     AutoCurator.getInstance().runAutoCuration()
-      .then(count => {
-        if (count > 0) console.log(`✨ Auto-approved ${count} new laughs!`);
+      .then(report => {
+        if (report.applied > 0) console.log(`✨ Auto-curated ${report.applied} laughs!`);
       })
       .catch(err => console.error('Auto-curation failed:', err));
   }, []);
 
+  // Drain sessions that were saved offline
+  useEffect(() => {
+    const syncService = SyncService.getInstance();
+    syncService.start();
+    return () => syncService.stop();
+  }, []);
+
+  // Send clip plays/skips/votes recorded offline
+  useEffect(() => {
+    const engagementQueue = EngagementQueue.getInstance();
+    engagementQueue.start();
+    return () => engagementQueue.stop();
+  }, []);
+
   return (
     <ErrorBoundary>
       <AuthProvider>
@@ -40,7 +59,17 @@ function App() {
                 <Route index element={<Navigate to="/dashboard" replace />} />
                 <Route path="dashboard" element={<Dashboard />} />
                 <Route path="session" element={<SessionPage />} />
+                <Route path="sessions" element={<SessionsPage />} />
+                <Route path="sessions/:id" element={<SessionDetailPage />} />
                 <Route path="settings" element={<SettingsPage />} />
+                <Route
+                  path="admin/clips"
+                  element={
+                    <ProtectedRoute requireRole="moderator">
+                      <AdminClipsPage />
+                    </ProtectedRoute>
+                  }
+                />
               </Route>
             </Routes>
           </SettingsProvider>
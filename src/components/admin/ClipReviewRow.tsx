@@ -0,0 +1,101 @@
+import type { ModerationClip, ReviewDecision } from '../../hooks/useClipModeration';
+
+interface ClipReviewRowProps {
+    clip: ModerationClip;
+    isFocused: boolean;         // Target of keyboard shortcuts
+    isChecked: boolean;         // Included in bulk actions
+    isPlaying: boolean;
+    disabled: boolean;
+    onFocus: () => void;
+    onToggleChecked: () => void;
+    onTogglePlay: () => void;
+    onDecision: (decision: ReviewDecision) => void;
+}
+
+const DECISION_BUTTONS: Array<{ decision: ReviewDecision; label: string; shortcut: string; className: string }> = [
+    { decision: 'approved', label: 'Approve', shortcut: 'A', className: 'hover:bg-green-500/30 hover:text-green-300' },
+    { decision: 'rejected', label: 'Reject', shortcut: 'R', className: 'hover:bg-red-500/30 hover:text-red-300' },
+    { decision: 'flagged', label: 'Flag', shortcut: 'F', className: 'hover:bg-yellow-500/30 hover:text-yellow-300' },
+];
+
+/**
+ * ClipReviewRow Component
+ *
+ * One clip in the moderation queue: play button, score and processing
+ * details, and approve/reject/flag actions.
+ */
+export function ClipReviewRow({
+    clip,
+    isFocused,
+    isChecked,
+    isPlaying,
+    disabled,
+    onFocus,
+    onToggleChecked,
+    onTogglePlay,
+    onDecision
+}: ClipReviewRowProps) {
+    return (
+        <div
+            onClick={onFocus}
+            className={`py-3 flex items-center gap-3 -mx-3 px-3 rounded-lg transition-colors ${isFocused
+                ? 'bg-stitch-primary/10 ring-1 ring-stitch-primary'
+                : 'hover:bg-white/5'
+                }`}
+        >
+            <input
+                type="checkbox"
+                checked={isChecked}
+                onChange={onToggleChecked}
+                onClick={(e) => e.stopPropagation()}
+                className="accent-stitch-primary"
+                aria-label="Select clip"
+            />
+            <button
+                onClick={(e) => {
+                    e.stopPropagation();
+                    onTogglePlay();
+                }}
+                disabled={!clip.audioUrl}
+                className="w-10 h-10 flex-shrink-0 rounded-full bg-stitch-primary text-white hover:bg-stitch-primary/80 transition-all disabled:opacity-50"
+                aria-label={isPlaying ? 'Stop clip' : 'Play clip'}
+            >
+                {isPlaying ? '⏹' : '▶'}
+            </button>
+            <div className="flex-grow min-w-0">
+                <p className="text-sm font-medium text-white">
+                    AI score {(clip.yamnet_score * 100).toFixed(0)}%
+                    <span className="text-stitch-muted font-normal"> • {(clip.duration / 1000).toFixed(1)}s</span>
+                </p>
+                <p className="text-xs text-stitch-muted truncate">
+                    {new Date(clip.created_at).toLocaleString()}
+                    {clip.loudness_lufs !== null && ` • ${clip.loudness_lufs.toFixed(1)} LUFS`}
+                    {clip.anonymization.length > 0 && ' • voice disguised'}
+                </p>
+                {clip.rejection_reason && (
+                    <p className="text-xs text-stitch-text">
+                        {clip.approval_status === 'flagged' ? 'Flagged' : 'Rejected'}: {clip.rejection_reason}
+                    </p>
+                )}
+            </div>
+            <div className="flex gap-1 flex-shrink-0">
+                {DECISION_BUTTONS
+                    .filter(button => button.decision !== clip.approval_status)
+                    .map(button => (
+                        <button
+                            key={button.decision}
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onDecision(button.decision);
+                            }}
+                            disabled={disabled}
+                            title={`${button.label} (${button.shortcut})`}
+                            className={`px-3 py-1 rounded-full text-xs font-medium bg-stitch-surface text-stitch-text transition-all disabled:opacity-50 ${button.className}`}
+                        >
+                            {button.label}
+                        </button>
+                    ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { DEMO_MODE } from '../../lib/supabase';
+import { AutoCurator, type CurationReport } from '../../services/curation/AutoCurator';
+
+interface CurationPanelProps {
+    onApplied: () => void;      // Clips changed - reload the queue
+}
+
+/**
+ * CurationPanel Component
+ *
+ * Runs the auto-curation rules from the moderation console: a dry run
+ * first shows what each rule would do, then the moderator applies it.
+ */
+export function CurationPanel({ onApplied }: CurationPanelProps) {
+    const [report, setReport] = useState<CurationReport | null>(null);
+    const [running, setRunning] = useState(false);
+
+    const curator = AutoCurator.getInstance();
+    const target = DEMO_MODE ? 'local' : 'supabase';
+
+    const run = async (dryRun: boolean) => {
+        setRunning(true);
+        const result = await curator.runAutoCuration({ target, dryRun });
+        setRunning(false);
+        setReport(result);
+        if (!dryRun && result.applied > 0) onApplied();
+    };
+
+    const rules = curator.getRules();
+
+    return (
+        <div className="glass-panel p-6 rounded-xl space-y-4">
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <h2 className="text-lg font-bold text-white">🤖 Auto-curation</h2>
+                    <p className="text-xs text-stitch-muted">
+                        {rules.length} rules • {target === 'local' ? 'clips on this device' : 'all shared clips'}
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => run(true)}
+                        disabled={running}
+                        className="px-4 py-2 rounded-lg font-medium text-sm bg-stitch-surface text-stitch-muted hover:text-white transition-all disabled:opacity-50"
+                    >
+                        Preview
+                    </button>
+                    <button
+                        onClick={() => run(false)}
+                        disabled={running || !report?.dryRun || report.decisions.length === 0}
+                        className="btn-primary text-sm disabled:opacity-50"
+                    >
+                        Apply
+                    </button>
+                </div>
+            </div>
+
+            {running && <p className="text-sm text-stitch-muted">Checking clips...</p>}
+
+            {!running && report && (
+                report.error ? (
+                    <p className="text-sm text-red-400">{report.error}</p>
+                ) : (
+                    <div className="space-y-2">
+                        <p className="text-sm text-stitch-text">
+                            {report.dryRun
+                                ? `${report.decisions.length} of ${report.evaluated} clips would change`
+                                : `Updated ${report.applied} of ${report.decisions.length} clips`}
+                        </p>
+                        {report.decisions.length > 0 && (
+                            <ul className="text-xs text-stitch-muted space-y-1">
+                                {rules
+                                    .filter(rule => report.byRule[rule.id])
+                                    .map(rule => (
+                                        <li key={rule.id} className="flex justify-between gap-4">
+                                            <span>
+                                                <span className="font-mono text-stitch-text">{rule.id}</span> → {rule.action}
+                                                <span className="hidden sm:inline"> • {rule.reason}</span>
+                                            </span>
+                                            <span className="font-bold text-stitch-accent">{report.byRule[rule.id]}</span>
+                                        </li>
+                                    ))}
+                            </ul>
+                        )}
+                    </div>
+                )
+            )}
+        </div>
+    );
+}
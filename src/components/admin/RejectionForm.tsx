@@ -0,0 +1,80 @@
+import { useState } from 'react';
+
+const REJECTION_REASONS = [
+    'Not laughter',
+    'Speech or identifiable voice',
+    'Poor audio quality',
+    'Offensive content',
+    'Duplicate',
+];
+
+interface RejectionFormProps {
+    count: number;      // Clips the rejection applies to
+    onSubmit: (reason: string) => void;
+    onCancel: () => void;
+}
+
+/**
+ * RejectionForm Component
+ *
+ * Asks for the reason before clips are rejected: a preset, or free text.
+ * Enter submits, Escape cancels.
+ */
+export function RejectionForm({ count, onSubmit, onCancel }: RejectionFormProps) {
+    const [preset, setPreset] = useState(REJECTION_REASONS[0]);
+    const [details, setDetails] = useState('');
+
+    const reason = details.trim() ? `${preset}: ${details.trim()}` : preset;
+
+    return (
+        <form
+            onSubmit={(e) => {
+                e.preventDefault();
+                onSubmit(reason);
+            }}
+            onKeyDown={(e) => {
+                if (e.key === 'Escape') {
+                    e.stopPropagation();
+                    onCancel();
+                }
+            }}
+            className="mt-3 p-3 rounded-lg bg-red-500/10 border border-red-500/30 space-y-3"
+        >
+            <p className="text-sm font-medium text-white">
+                Reject {count === 1 ? 'this clip' : `${count} clips`} because…
+            </p>
+            <div className="flex flex-wrap gap-2">
+                {REJECTION_REASONS.map(option => (
+                    <button
+                        key={option}
+                        type="button"
+                        onClick={() => setPreset(option)}
+                        className={`px-3 py-1 rounded-full text-xs font-medium transition-all ${preset === option
+                            ? 'bg-red-500 text-white'
+                            : 'bg-stitch-surface text-stitch-text hover:bg-red-500/30'
+                            }`}
+                    >
+                        {option}
+                    </button>
+                ))}
+            </div>
+            <input
+                type="text"
+                autoFocus
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                placeholder="Details (optional)"
+                maxLength={200}
+                className="w-full px-3 py-2 rounded-lg bg-stitch-surface border border-white/10 text-sm text-white placeholder-stitch-muted focus:outline-none focus:border-red-400"
+            />
+            <div className="flex justify-end gap-2">
+                <button type="button" onClick={onCancel} className="px-4 py-2 rounded-lg font-medium text-sm bg-stitch-surface text-stitch-muted hover:text-white transition-all">
+                    Cancel
+                </button>
+                <button type="submit" className="px-4 py-2 rounded-lg bg-red-500 hover:bg-red-600 text-white text-sm font-medium transition-colors">
+                    Reject
+                </button>
+            </div>
+        </form>
+    );
+}
@@ -2,7 +2,7 @@ import { Link } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
 
 export function Header() {
-    const { user, signOut } = useAuth();
+    const { user, signOut, hasRole } = useAuth();
 
     return (
         <header className="fixed w-full top-0 z-50 glass-panel border-b-0">
@@ -24,9 +24,17 @@ export function Header() {
                                 <Link to="/dashboard" className="text-stitch-muted hover:text-white px-3 py-2 rounded-md text-sm font-medium transition-colors">
                                     Dashboard
                                 </Link>
+                                <Link to="/sessions" className="text-stitch-muted hover:text-white px-3 py-2 rounded-md text-sm font-medium transition-colors">
+                                    History
+                                </Link>
                                 <Link to="/settings" className="text-stitch-muted hover:text-white px-3 py-2 rounded-md text-sm font-medium transition-colors">
                                     Settings
                                 </Link>
+                                {hasRole('moderator') && (
+                                    <Link to="/admin/clips" className="text-stitch-muted hover:text-white px-3 py-2 rounded-md text-sm font-medium transition-colors">
+                                        Moderation
+                                    </Link>
+                                )}
                                 <button
                                     onClick={signOut}
                                     className="text-stitch-muted hover:text-white px-3 py-2 rounded-md text-sm font-medium transition-colors"
@@ -2,6 +2,7 @@ import { Outlet } from 'react-router-dom';
 
 import { Header } from './Header';
 import { Footer } from './Footer';
+import { RecoveryPrompt } from '../session/RecoveryPrompt';
 
 export function MainLayout() {
     return (
@@ -9,6 +10,7 @@ export function MainLayout() {
             <Header />
             <main className="flex-grow">
                 <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+                    <RecoveryPrompt />
                     <Outlet />
                 </div>
             </main>
@@ -1,9 +1,15 @@
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
 import type { ReactNode } from 'react';
+import type { UserRole } from '../../types';
 
-export function ProtectedRoute({ children }: { children: ReactNode }) {
-    const { user, loading } = useAuth();
+interface ProtectedRouteProps {
+    children: ReactNode;
+    requireRole?: UserRole;     // Signed-in users without it are sent to the dashboard
+}
+
+export function ProtectedRoute({ children, requireRole }: ProtectedRouteProps) {
+    const { user, loading, hasRole } = useAuth();
     const location = useLocation();
 
     if (loading) {
@@ -18,5 +24,9 @@ export function ProtectedRoute({ children }: { children: ReactNode }) {
         return <Navigate to="/login" state={{ from: location }} replace />;
     }
 
+    if (requireRole && !hasRole(requireRole)) {
+        return <Navigate to="/dashboard" replace />;
+    }
+
     return children;
 }
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useLaughStarter } from '../../hooks/useLaughStarter';
 import { LaughPlayer } from '../session/LaughPlayer';
 
@@ -15,7 +15,7 @@ interface LaughStarterModalProps {
  * 
  * Features:
  * - Auto-fetches 5 random approved clips on mount
- * - Sequential playback via LaughPlayer
+ * - Gapless Web Audio playback via LaughPlayer
  * - "Ready to Record" CTA after playback
  * - Skippable after first 2 seconds
  * - Stitch glassmorphism design
@@ -28,6 +28,10 @@ export function LaughStarterModal({
     const { clips, isLoading, error, fetchClips } = useLaughStarter();
     const [hasCompleted, setHasCompleted] = useState(false);
 
+    // Stable across renders - a new queue makes the player decode again
+    const clipUrls = useMemo(() => clips.map(c => c.signedUrl || '').filter(Boolean), [clips]);
+    const clipIds = useMemo(() => clips.filter(c => c.signedUrl).map(c => c.id), [clips]);
+
     // Fetch clips when modal opens
     useEffect(() => {
         if (isOpen && clips.length === 0) {
@@ -93,8 +97,8 @@ export function LaughStarterModal({
                     {!isLoading && !error && clips.length > 0 && (
                         <div>
                             <LaughPlayer
-                                clipUrls={clips.map(c => c.signedUrl || '').filter(Boolean)}
-                                clipIds={clips.map(c => c.id)}
+                                clipUrls={clipUrls}
+                                clipIds={clipIds}
                                 onComplete={handleComplete}
                                 onSkip={(index: number) => console.log(`Skipped clip ${index + 1}`)}
                                 autoPlay={true}
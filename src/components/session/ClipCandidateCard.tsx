@@ -0,0 +1,134 @@
+import type { ClipTrim, LaughClipCandidate } from '../../services/audio/LaughClipExtractor';
+
+const MIN_CLIP_MS = 500;
+const TRIM_STEP_MS = 100;
+
+// Raw voice, or with voice anonymization applied
+export type PreviewVariant = 'original' | 'anonymized';
+
+interface ClipCandidateCardProps {
+    candidate: LaughClipCandidate;
+    index: number;
+    trim: ClipTrim;
+    isSelected: boolean;
+    sharedVariant: PreviewVariant;          // What would be uploaded
+    playingVariant: PreviewVariant | null;  // Preview currently playing, if any
+    hasBeenHeard: boolean;      // Current trim of the shared variant has been previewed
+    onSelect: () => void;
+    onTrimChange: (trim: ClipTrim) => void;
+    onTogglePreview: (variant: PreviewVariant) => void;
+}
+
+/**
+ * ClipCandidateCard Component
+ *
+ * One shareable laugh: preview button, score and start/end trim sliders.
+ * With anonymization on, the selected card also offers a before/after
+ * comparison - the main button always plays what would be shared.
+ */
+export function ClipCandidateCard({
+    candidate,
+    index,
+    trim,
+    isSelected,
+    sharedVariant,
+    playingVariant,
+    hasBeenHeard,
+    onSelect,
+    onTrimChange,
+    onTogglePreview
+}: ClipCandidateCardProps) {
+    const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+    const formatTimestamp = (ms: number) => {
+        const totalSeconds = Math.floor(ms / 1000);
+        return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+    };
+
+    const isPlaying = playingVariant === sharedVariant;
+
+    return (
+        <div
+            onClick={onSelect}
+            className={`p-4 rounded-lg border cursor-pointer transition-all ${isSelected
+                ? 'border-stitch-primary bg-stitch-primary/10'
+                : 'border-white/10 hover:border-white/30'
+                }`}
+        >
+            <div className="flex items-center gap-3">
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onTogglePreview(sharedVariant);
+                    }}
+                    className="w-10 h-10 flex-shrink-0 rounded-full bg-stitch-primary text-white hover:bg-stitch-primary/80 transition-all"
+                    aria-label={isPlaying ? 'Stop preview' : 'Play preview'}
+                >
+                    {isPlaying ? '⏹' : '▶'}
+                </button>
+                <div className="flex-grow min-w-0">
+                    <p className="text-sm font-medium text-white">
+                        Laugh {index + 1} <span className="text-stitch-muted font-normal">at {formatTimestamp(candidate.timestamp)}</span>
+                    </p>
+                    <p className="text-xs text-stitch-muted">
+                        AI score {(candidate.yamnetScore * 100).toFixed(0)}% • {formatSeconds(trim.end - trim.start)}
+                        {hasBeenHeard && <span className="text-green-400"> • heard ✓</span>}
+                    </p>
+                </div>
+            </div>
+
+            {isSelected && (
+                <div className="mt-4 space-y-2" onClick={(e) => e.stopPropagation()}>
+                    {sharedVariant === 'anonymized' && (
+                        <div className="flex items-center gap-2 text-xs">
+                            <span className="w-10 text-stitch-muted">Voice</span>
+                            {(['original', 'anonymized'] as const).map(variant => (
+                                <button
+                                    key={variant}
+                                    onClick={() => onTogglePreview(variant)}
+                                    className={`px-3 py-1 rounded-full font-medium transition-all ${playingVariant === variant
+                                        ? 'bg-stitch-primary text-white'
+                                        : 'bg-stitch-surface text-stitch-text hover:bg-stitch-primary/30'
+                                        }`}
+                                >
+                                    {playingVariant === variant ? '⏹' : '▶'} {variant === 'original' ? 'Before' : 'After'}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <label className="flex items-center gap-3 text-xs text-stitch-muted">
+                        <span className="w-10">Start</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={candidate.duration - MIN_CLIP_MS}
+                            step={TRIM_STEP_MS}
+                            value={trim.start}
+                            onChange={(e) => {
+                                const start = Number(e.target.value);
+                                onTrimChange({ start, end: Math.max(trim.end, start + MIN_CLIP_MS) });
+                            }}
+                            className="flex-grow accent-stitch-primary"
+                        />
+                        <span className="w-10 text-right font-mono">{formatSeconds(trim.start)}</span>
+                    </label>
+                    <label className="flex items-center gap-3 text-xs text-stitch-muted">
+                        <span className="w-10">End</span>
+                        <input
+                            type="range"
+                            min={MIN_CLIP_MS}
+                            max={candidate.duration}
+                            step={TRIM_STEP_MS}
+                            value={trim.end}
+                            onChange={(e) => {
+                                const end = Number(e.target.value);
+                                onTrimChange({ start: Math.min(trim.start, end - MIN_CLIP_MS), end });
+                            }}
+                            className="flex-grow accent-stitch-primary"
+                        />
+                        <span className="w-10 text-right font-mono">{formatSeconds(trim.end)}</span>
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,4 +1,7 @@
-import { useRef, useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useSyncExternalStore } from 'react';
+import { EngagementQueue } from '../../services/clips/EngagementQueue';
+import { ClipQueuePlayer, DEFAULT_TRANSITION, type TransitionOptions } from '../../services/audio/ClipQueuePlayer';
+import { LevelMeter } from './LevelMeter';
 
 interface LaughPlayerProps {
     clipUrls: string[];
@@ -6,18 +9,22 @@ interface LaughPlayerProps {
     onComplete?: () => void;
     onSkip?: (index: number) => void;
     autoPlay?: boolean;
+    transition?: TransitionOptions;     // Gap or crossfade between clips
 }
 
+const SKIP_AFTER_S = 2;
+
 /**
  * LaughPlayer Component
- * 
- * Sequentially plays laugh audio clips with visual feedback
- * 
+ *
+ * Plays laugh clips back to back through Web Audio (ClipQueuePlayer)
+ *
  * Features:
- * - Sequential playback with 1s silence between clips
- * - Animated waveform visualization (simplified bars)
+ * - Whole queue decoded up front; gapped or crossfaded transitions
+ * - Live level bars from the output analyser
+ * - Play/pause, previous/next and seeking within a clip
  * - Skip button (enabled after 2s)
- * - Like button (Personalization)
+ * - Like / dislike buttons (Personalization + community counts)
  * - Replay button
  * - Volume control
  * - Stitch design system styling
@@ -27,111 +34,77 @@ export function LaughPlayer({
     clipIds,
     onComplete,
     onSkip,
-    autoPlay = true
+    autoPlay = true,
+    transition = DEFAULT_TRANSITION
 }: LaughPlayerProps) {
-    const [currentIndex, setCurrentIndex] = useState(0);
-    const [isPlaying, setIsPlaying] = useState(false);
-    const [canSkip, setCanSkip] = useState(false);
+    const [player] = useState(() => new ClipQueuePlayer(transition));
+    const state = useSyncExternalStore(player.subscribe, player.getState);
     const [volume, setVolume] = useState(0.8);
-    const [progress, setProgress] = useState(0);
-    const [liked, setLiked] = useState(false); // Visual state for current clip
+    const [vote, setVote] = useState<'like' | 'dislike' | null>(null); // Visual state for current clip
+    const [votedIndex, setVotedIndex] = useState(state.index);
+
+    // Clips already counted as played in this queue, and whether its end was reported
+    const countedPlaysRef = useRef(new Set<number>());
+    const completedRef = useRef(false);
 
-    const audioRef = useRef<HTMLAudioElement | null>(null);
-    const skipTimerRef = useRef<number | null>(null);
-    const progressIntervalRef = useRef<number | null>(null);
+    // Reset the vote when the clip changes
+    if (votedIndex !== state.index) {
+        setVotedIndex(state.index);
+        setVote(null);
+    }
 
-    // Initialize audio element
+    // Release the audio device on unmount
+    useEffect(() => () => player.dispose(), [player]);
+
+    // Decode the queue, then start
     useEffect(() => {
-        if (!audioRef.current) {
-            audioRef.current = new Audio();
-            audioRef.current.volume = volume;
-        }
+        countedPlaysRef.current = new Set();
+        completedRef.current = false;
+        player.load(clipUrls).then(() => {
+            if (autoPlay) player.play();
+        });
+    }, [player, clipUrls, autoPlay]);
 
-        return () => {
-            if (audioRef.current) {
-                audioRef.current.pause();
-                audioRef.current = null;
-            }
-            if (skipTimerRef.current) clearTimeout(skipTimerRef.current);
-            if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
-        };
-    }, []);
+    useEffect(() => {
+        player.setVolume(volume);
+    }, [player, volume]);
 
-    // Update volume
     useEffect(() => {
-        if (audioRef.current) {
-            audioRef.current.volume = volume;
-        }
-    }, [volume]);
+        player.setTransition(transition);
+    }, [player, transition]);
 
-    // Play current clip
+    // Count each clip once, when it starts playing
     useEffect(() => {
-        if (autoPlay && currentIndex < clipUrls.length) {
-            playClip(currentIndex);
-        }
-    }, [currentIndex, clipUrls, autoPlay]);
-
-    const playClip = async (index: number) => {
-        if (!audioRef.current || index >= clipUrls.length) return;
-
-        setProgress(0);
-        setCanSkip(false);
-        setIsPlaying(true);
-        setLiked(false); // Reset like state for new clip
-
-        try {
-            audioRef.current.src = clipUrls[index];
-            await audioRef.current.play();
-
-            // Enable skip after 2s
-            skipTimerRef.current = setTimeout(() => {
-                setCanSkip(true);
-            }, 2000);
-
-            // Update progress
-            progressIntervalRef.current = setInterval(() => {
-                if (audioRef.current) {
-                    const progress = (audioRef.current.currentTime / audioRef.current.duration) * 100;
-                    setProgress(progress);
-                }
-            }, 100);
-
-            // Handle clip end
-            audioRef.current.onended = () => {
-                setIsPlaying(false);
-                setProgress(100);
-
-                if (skipTimerRef.current) clearTimeout(skipTimerRef.current);
-                if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
-
-                // Wait 1s before next clip
-                setTimeout(() => {
-                    const nextIndex = index + 1;
-                    if (nextIndex < clipUrls.length) {
-                        setCurrentIndex(nextIndex);
-                    } else {
-                        // All clips played
-                        onComplete?.();
-                    }
-                }, 1000);
-            };
-
-        } catch (error) {
-            console.error('❌ Failed to play clip:', error);
-            setIsPlaying(false);
-            onComplete?.(); // Skip to end on error
+        if (state.status !== 'playing' || countedPlaysRef.current.has(state.index)) return;
+        countedPlaysRef.current.add(state.index);
+
+        const clipId = clipIds?.[state.index];
+        if (clipId) EngagementQueue.getInstance().record(clipId, 'play');
+    }, [state.status, state.index, clipIds]);
+
+    useEffect(() => {
+        if (state.status !== 'ended') {
+            completedRef.current = false;
+        } else if (state.count > 0 && !completedRef.current) {
+            completedRef.current = true;
+            onComplete?.();
         }
-    };
+    }, [state.status, state.count, onComplete]);
+
+    const isPlaying = state.status === 'playing';
+    const canSkip = !isPlaying || state.position >= SKIP_AFTER_S;
+    const progress = state.duration > 0 ? (state.position / state.duration) * 100 : 0;
+    const isReady = state.status !== 'idle' && state.status !== 'loading';
 
     const handleLike = async () => {
-        if (liked) return; // Prevent double likes
-        setLiked(true);
+        if (vote) return; // One vote per play
+        setVote('like');
 
         // Save interaction
-        if (clipIds && clipIds[currentIndex]) {
+        if (clipIds && clipIds[state.index]) {
             try {
                 const { saveInteraction, getInteraction } = await import('../../lib/db');
-                const clipId = clipIds[currentIndex];
+                const clipId = clipIds[state.index];
                 const existing = await getInteraction(clipId);
 
                 await saveInteraction({
@@ -140,6 +113,7 @@ export function LaughPlayer({
                     skipped_count: existing?.skipped_count || 0,
                     last_played_at: Date.now()
                 });
+                EngagementQueue.getInstance().record(clipId, 'like');
                 console.log('❤️ Liked clip:', clipId);
             } catch (err) {
                 console.error('Failed to save like:', err);
@@ -147,16 +121,29 @@ export function LaughPlayer({
         }
     };
 
+    const handleDislike = () => {
+        if (vote) return; // One vote per play
+        setVote('dislike');
+
+        const clipId = clipIds?.[state.index];
+        if (clipId) {
+            EngagementQueue.getInstance().record(clipId, 'dislike');
+            console.log('👎 Disliked clip:', clipId);
+        }
+    };
+
     const handleSkip = async () => {
         if (!canSkip) return;
 
-        onSkip?.(currentIndex);
+        const index = state.index;
+        onSkip?.(index);
+        player.next();
 
         // Save interaction (Skip)
-        if (clipIds && clipIds[currentIndex]) {
+        if (clipIds && clipIds[index]) {
             try {
                 const { saveInteraction, getInteraction } = await import('../../lib/db');
-                const clipId = clipIds[currentIndex];
+                const clipId = clipIds[index];
                 const existing = await getInteraction(clipId);
 
                 await saveInteraction({
@@ -165,73 +152,79 @@ export function LaughPlayer({
                     skipped_count: (existing?.skipped_count || 0) + 1,
                     last_played_at: Date.now()
                 });
+                EngagementQueue.getInstance().record(clipId, 'skip');
                 console.log('⏭️ Skipped clip:', clipId);
             } catch (err) {
                 console.error('Failed to save skip:', err);
             }
         }
-
-        if (audioRef.current) {
-            audioRef.current.pause();
-            audioRef.current.currentTime = 0;
-        }
-
-        if (skipTimerRef.current) clearTimeout(skipTimerRef.current);
-        if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
-
-        setIsPlaying(false);
-        setProgress(0);
-
-        const nextIndex = currentIndex + 1;
-        if (nextIndex < clipUrls.length) {
-            setCurrentIndex(nextIndex);
-        } else {
-            onComplete?.();
-        }
     };
 
     const handleReplay = () => {
-        setCurrentIndex(0);
-        setProgress(0);
+        countedPlaysRef.current = new Set();
+        player.jumpTo(0);
+        player.play();
     };
 
+    const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
     return (
         <div className="glass-panel p-6 rounded-xl space-y-4 relative overflow-hidden">
-            {/* Waveform Visualization (Simplified) */}
-            <div className="flex items-end justify-center h-24 space-x-1">
-                {[...Array(20)].map((_, i) => {
-                    const height = isPlaying
-                        ? Math.random() * 60 + 20 // Animated when playing
-                        : 20; // Static when paused
-                    const isActive = (i / 20) * 100 <= progress;
-
-                    return (
-                        <div
-                            key={i}
-                            className={`w-2 rounded-full transition-all duration-100 ${isActive
-                                ? 'bg-gradient-to-t from-stitch-primary to-stitch-secondary'
-                                : 'bg-stitch-surface'
-                                }`}
-                            style={{
-                                height: `${height}%`,
-                                opacity: isActive ? 1 : 0.3
-                            }}
-                        />
-                    );
-                })}
-            </div>
+            {/* Live Levels */}
+            <LevelMeter getAnalyser={player.getAnalyser} active={isPlaying} progress={progress} />
 
             {/* Progress Text */}
             <div className="text-center text-sm text-stitch-muted">
-                Clip {currentIndex + 1} of {clipUrls.length}
+                {state.status === 'loading'
+                    ? 'Preparing clips...'
+                    : `Clip ${Math.min(state.index + 1, state.count)} of ${state.count}`}
+                {state.failed.length > 0 && ` • ${state.failed.length} couldn't load`}
             </div>
 
-            {/* Progress Bar */}
-            <div className="w-full h-2 bg-stitch-surface rounded-full overflow-hidden">
-                <div
-                    className="h-full bg-gradient-to-r from-stitch-primary to-stitch-accent transition-all duration-200"
-                    style={{ width: `${progress}%` }}
+            {/* Seek Bar */}
+            <div className="flex items-center gap-3 text-xs text-stitch-muted font-mono">
+                <span className="w-10 text-right">{formatSeconds(state.position)}</span>
+                <input
+                    type="range"
+                    min={0}
+                    max={state.duration || 1}
+                    step={0.05}
+                    value={state.position}
+                    onChange={(e) => player.seek(Number(e.target.value))}
+                    disabled={!isReady || state.duration === 0}
+                    className="flex-1 h-2 bg-stitch-surface rounded-lg appearance-none cursor-pointer accent-stitch-primary"
+                    aria-label="Seek within clip"
                 />
+                <span className="w-10">{formatSeconds(state.duration)}</span>
+            </div>
+
+            {/* Transport */}
+            <div className="flex items-center justify-center gap-3">
+                <button
+                    onClick={() => player.previous()}
+                    disabled={!isReady}
+                    className="w-10 h-10 rounded-full bg-stitch-surface text-white hover:bg-stitch-surface/70 transition-all disabled:opacity-50"
+                    aria-label="Previous clip"
+                >
+                    ⏮
+                </button>
+                <button
+                    onClick={() => isPlaying ? player.pause() : player.play()}
+                    disabled={!isReady}
+                    className="w-12 h-12 rounded-full bg-stitch-primary text-white text-lg hover:bg-stitch-primary/80 transition-all disabled:opacity-50"
+                    aria-label={isPlaying ? 'Pause' : 'Play'}
+                >
+                    {isPlaying ? '⏸' : '▶'}
+                </button>
+                <button
+                    onClick={handleSkip}
+                    disabled={!isReady || !canSkip}
+                    className="w-10 h-10 rounded-full bg-stitch-surface text-white hover:bg-stitch-surface/70 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    title={canSkip ? 'Skip this clip' : `Wait ${SKIP_AFTER_S}s to skip`}
+                    aria-label="Skip clip"
+                >
+                    ⏭
+                </button>
             </div>
 
             {/* Controls */}
@@ -254,30 +247,31 @@ export function LaughPlayer({
                     {/* Like Button */}
                     <button
                         onClick={handleLike}
-                        className={`p-2 rounded-lg font-medium text-xl transition-all transform active:scale-90 ${liked
+                        className={`p-2 rounded-lg font-medium text-xl transition-all transform active:scale-90 ${vote === 'like'
                             ? 'text-red-500 bg-red-500/10 scale-110'
                             : 'text-stitch-muted hover:text-red-400 hover:bg-stitch-surface'
                             }`}
                         title="I like this laugh!"
                     >
-                        {liked ? '❤️' : '🤍'}
+                        {vote === 'like' ? '❤️' : '🤍'}
                     </button>
 
+                    {/* Dislike Button */}
                     <button
-                        onClick={handleSkip}
-                        disabled={!canSkip && isPlaying}
-                        className={`px-4 py-2 rounded-lg font-medium text-sm transition-all ${canSkip || !isPlaying
-                            ? 'bg-stitch-surface text-white hover:bg-stitch-surface/70'
-                            : 'bg-stitch-surface/30 text-stitch-muted cursor-not-allowed'
+                        onClick={handleDislike}
+                        className={`p-2 rounded-lg font-medium text-xl transition-all transform active:scale-90 ${vote === 'dislike'
+                            ? 'bg-stitch-surface scale-110'
+                            : 'opacity-50 hover:opacity-100 hover:bg-stitch-surface'
                             }`}
-                        title={canSkip || !isPlaying ? 'Skip this clip' : 'Wait 2s to skip'}
+                        title="Not for me"
                     >
-                        Skip
+                        👎
                     </button>
 
                     <button
                         onClick={handleReplay}
-                        className="px-4 py-2 rounded-lg font-medium text-sm bg-stitch-surface text-white hover:bg-stitch-surface/70 transition-all"
+                        disabled={!isReady}
+                        className="px-4 py-2 rounded-lg font-medium text-sm bg-stitch-surface text-white hover:bg-stitch-surface/70 transition-all disabled:opacity-50"
                     >
                         ↻ Replay
                     </button>
@@ -0,0 +1,67 @@
+import { useEffect, useRef } from 'react';
+import { binLevels } from '../../lib/waveform';
+
+interface LevelMeterProps {
+    getAnalyser: () => AnalyserNode | null;
+    active: boolean;        // Animate only while audio is playing
+    progress: number;       // 0-100, bars up to here are highlighted
+    bars?: number;
+}
+
+const MIN_HEIGHT = 0.15;    // Resting bar height (fraction of the meter)
+
+/**
+ * LevelMeter Component
+ *
+ * Live frequency levels from an AnalyserNode as vertical bars. Heights are
+ * written straight to the DOM each animation frame, so the meter never
+ * re-renders its parent.
+ */
+export function LevelMeter({ getAnalyser, active, progress, bars = 20 }: LevelMeterProps) {
+    const barRefs = useRef<Array<HTMLDivElement | null>>([]);
+
+    useEffect(() => {
+        const setHeights = (levels: number[]) => {
+            barRefs.current.forEach((bar, i) => {
+                if (bar) bar.style.height = `${(MIN_HEIGHT + (1 - MIN_HEIGHT) * (levels[i] ?? 0)) * 100}%`;
+            });
+        };
+
+        if (!active) {
+            setHeights([]);
+            return;
+        }
+
+        let data: Uint8Array<ArrayBuffer> | null = null;
+        let frame = requestAnimationFrame(function draw() {
+            const analyser = getAnalyser();
+            if (analyser) {
+                if (data?.length !== analyser.frequencyBinCount) data = new Uint8Array(analyser.frequencyBinCount);
+                analyser.getByteFrequencyData(data);
+                setHeights(binLevels(data, bars));
+            }
+            frame = requestAnimationFrame(draw);
+        });
+
+        return () => cancelAnimationFrame(frame);
+    }, [getAnalyser, active, bars]);
+
+    return (
+        <div className="flex items-end justify-center h-24 space-x-1">
+            {Array.from({ length: bars }, (_, i) => {
+                const isActive = (i / bars) * 100 <= progress;
+                return (
+                    <div
+                        key={i}
+                        ref={el => { barRefs.current[i] = el; }}
+                        className={`w-2 rounded-full transition-[height] duration-75 ${isActive
+                            ? 'bg-gradient-to-t from-stitch-primary to-stitch-secondary'
+                            : 'bg-stitch-surface'
+                            }`}
+                        style={{ height: `${MIN_HEIGHT * 100}%`, opacity: isActive ? 1 : 0.3 }}
+                    />
+                );
+            })}
+        </div>
+    );
+}
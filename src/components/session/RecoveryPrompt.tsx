@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { useRecordingRecovery } from '../../hooks/useRecordingRecovery';
+
+/**
+ * RecoveryPrompt Component
+ *
+ * Offers to restore sessions that were still recording when the app
+ * crashed, the tab closed or the user navigated away.
+ * Renders nothing when there's nothing to recover.
+ */
+export function RecoveryPrompt() {
+    const { user } = useAuth();
+    const { orphans, recover, discard } = useRecordingRecovery(user?.id);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    if (orphans.length === 0) return null;
+
+    const formatDuration = (seconds: number) => {
+        const mins = Math.floor(seconds / 60);
+        const secs = Math.floor(seconds % 60);
+        return `${mins}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    const handle = async (sessionId: string, action: (id: string) => Promise<void>) => {
+        setBusyId(sessionId);
+        setError(null);
+        try {
+            await action(sessionId);
+        } catch (err) {
+            console.error('❌ Recording recovery failed:', err);
+            setError('Something went wrong. Please try again.');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div className="glass-panel p-6 rounded-xl mb-6 border border-yellow-500/30">
+            <h2 className="text-xl font-display font-bold text-white mb-1">Unfinished Session{orphans.length > 1 ? 's' : ''}</h2>
+            <p className="text-sm text-stitch-muted mb-4">
+                A recording was interrupted before it was saved. Recover it to keep your laughs.
+            </p>
+
+            <ul className="divide-y divide-white/5">
+                {orphans.map(recording => (
+                    <li key={recording.sessionId} className="py-3 flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                            <p className="text-sm text-stitch-text">
+                                {new Date(recording.startedAt).toLocaleString()}
+                            </p>
+                            <p className="text-xs text-stitch-muted">
+                                {formatDuration(recording.duration)} • {recording.laughCount} laughs
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                            <button
+                                onClick={() => handle(recording.sessionId, recover)}
+                                disabled={busyId !== null}
+                                className="px-4 py-2 rounded-lg font-medium text-sm bg-stitch-primary text-white hover:bg-stitch-primary/80 transition-all disabled:opacity-50"
+                            >
+                                {busyId === recording.sessionId ? 'Saving...' : 'Recover'}
+                            </button>
+                            <button
+                                onClick={() => handle(recording.sessionId, discard)}
+                                disabled={busyId !== null}
+                                className="px-4 py-2 rounded-lg font-medium text-sm bg-stitch-surface text-white hover:bg-stitch-surface/70 transition-all disabled:opacity-50"
+                            >
+                                Discard
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+
+            {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,183 @@
+import { useState, useEffect, useRef } from 'react';
+import { loadWaveform, type Waveform } from '../../lib/waveform';
+import type { LaughEvent } from '../../types';
+
+interface SessionPlaybackProps {
+    audioUrl: string;
+    audioBlob?: Blob | null;    // Decoded directly when available (skips a fetch)
+    laughEvents: LaughEvent[];
+    fallbackDuration: number;   // seconds, used until the audio is decoded
+}
+
+const WAVEFORM_BARS = 160;
+const JUMP_LEAD_IN = 0.5; // seconds of audio before a laugh when jumping to it
+
+/**
+ * SessionPlayback Component
+ *
+ * Plays a session recording over its waveform, with a marker at each
+ * detected laugh. Clicking the waveform seeks; clicking a marker (or a
+ * laugh in the list) jumps to just before that laugh.
+ */
+export function SessionPlayback({ audioUrl, audioBlob, laughEvents, fallbackDuration }: SessionPlaybackProps) {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const [waveform, setWaveform] = useState<Waveform | null>(null);
+    const [waveformError, setWaveformError] = useState(false);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        loadWaveform(audioBlob ?? audioUrl, WAVEFORM_BARS)
+            .then(result => { if (!cancelled) setWaveform(result); })
+            .catch(err => {
+                console.warn('⚠️ Could not draw waveform:', err);
+                if (!cancelled) setWaveformError(true);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [audioUrl, audioBlob]);
+
+    // Smooth playhead while playing (timeupdate only fires ~4x/second)
+    useEffect(() => {
+        if (!isPlaying) return;
+
+        let frame = requestAnimationFrame(function tick() {
+            if (audioRef.current) setCurrentTime(audioRef.current.currentTime);
+            frame = requestAnimationFrame(tick);
+        });
+
+        return () => cancelAnimationFrame(frame);
+    }, [isPlaying]);
+
+    const duration = waveform?.duration ?? fallbackDuration;
+
+    const seek = (seconds: number) => {
+        const audio = audioRef.current;
+        if (!audio) return;
+
+        const time = Math.max(0, Math.min(duration, seconds));
+        audio.currentTime = time;
+        setCurrentTime(time);
+    };
+
+    const jumpToLaugh = (event: LaughEvent) => {
+        seek(event.time / 1000 - JUMP_LEAD_IN);
+        audioRef.current?.play().catch(err => console.warn('⚠️ Playback failed:', err));
+    };
+
+    const togglePlayback = () => {
+        const audio = audioRef.current;
+        if (!audio) return;
+
+        if (audio.paused) {
+            audio.play().catch(err => console.warn('⚠️ Playback failed:', err));
+        } else {
+            audio.pause();
+        }
+    };
+
+    const handleWaveformClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        seek(((e.clientX - rect.left) / rect.width) * duration);
+    };
+
+    const formatTime = (seconds: number) => {
+        const mins = Math.floor(seconds / 60);
+        const secs = Math.floor(seconds % 60);
+        return `${mins}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    const progress = duration > 0 ? currentTime / duration : 0;
+    const peaks = waveform?.peaks ?? [];
+
+    return (
+        <div className="space-y-4">
+            <audio
+                ref={audioRef}
+                src={audioUrl}
+                preload="metadata"
+                onPlay={() => setIsPlaying(true)}
+                onPause={() => setIsPlaying(false)}
+                onEnded={() => setIsPlaying(false)}
+                onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            />
+
+            <div className="flex items-center gap-4">
+                <button
+                    onClick={togglePlayback}
+                    className="w-12 h-12 flex-shrink-0 rounded-full bg-stitch-primary text-white text-xl hover:bg-stitch-primary/80 transition-all"
+                    aria-label={isPlaying ? 'Pause' : 'Play'}
+                >
+                    {isPlaying ? '⏸' : '▶'}
+                </button>
+
+                {/* Waveform + laugh markers */}
+                <div
+                    className="relative flex-grow h-24 cursor-pointer select-none"
+                    onClick={handleWaveformClick}
+                >
+                    {peaks.length > 0 ? (
+                        <div className="absolute inset-0 flex items-center gap-px">
+                            {peaks.map((peak, index) => (
+                                <div
+                                    key={index}
+                                    className={`flex-1 rounded-sm ${index / peaks.length < progress ? 'bg-stitch-primary' : 'bg-white/20'}`}
+                                    style={{ height: `${Math.max(4, peak * 100)}%` }}
+                                />
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="absolute inset-0 flex items-center justify-center text-xs text-stitch-muted">
+                            {waveformError ? 'Waveform unavailable' : 'Loading waveform...'}
+                        </div>
+                    )}
+
+                    {/* Playhead */}
+                    <div
+                        className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none"
+                        style={{ left: `${progress * 100}%` }}
+                    />
+
+                    {duration > 0 && laughEvents.map((event, index) => (
+                        <button
+                            key={index}
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                jumpToLaugh(event);
+                            }}
+                            className="absolute -top-3 -translate-x-1/2 text-sm hover:scale-125 transition-transform"
+                            style={{ left: `${Math.min(100, (event.time / 1000 / duration) * 100)}%` }}
+                            title={`Laugh at ${formatTime(event.time / 1000)}`}
+                        >
+                            😂
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="flex justify-between text-xs font-mono text-stitch-muted">
+                <span>{formatTime(currentTime)}</span>
+                <span>{formatTime(duration)}</span>
+            </div>
+
+            {laughEvents.length > 0 && (
+                <ul className="flex flex-wrap gap-2">
+                    {laughEvents.map((event, index) => (
+                        <li key={index}>
+                            <button
+                                onClick={() => jumpToLaugh(event)}
+                                className="px-3 py-1 rounded-full text-xs font-medium bg-stitch-surface text-stitch-text hover:bg-stitch-primary/30 transition-all"
+                            >
+                                😂 {formatTime(event.time / 1000)}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -1,12 +1,16 @@
 import { useState, useEffect, useRef } from 'react';
 import { useSessionManager } from '../../hooks/useSessionManager';
+import { useLaughAlong } from '../../hooks/useLaughAlong';
+import { useSettings } from '../../context/SettingsContext';
+import { getDetectionThresholds } from '../../lib/calibration';
 import { LottieAvatar } from './LottieAvatar';
+import type { LaughEvent } from '../../types';
 
 interface SessionRecorderProps {
     userId: string;
     onSessionComplete?: (data: {
         sessionBlob: Blob | null;
-        laughTimestamps: Array<{ time: number; duration: number }>;
+        laughTimestamps: LaughEvent[];
         sessionId: string;
         laughCount: number;
         yamnetScore?: number;
@@ -19,6 +23,9 @@ export function SessionRecorder({ userId, onSessionComplete }: SessionRecorderPr
         audioDuration,
         audioVolume,
         laughCount,
+        completedSession,
+        inputDeviceFallback,
+        setPlaybackReference,
         startSession,
         pauseSession,
         resumeSession,
@@ -26,6 +33,25 @@ export function SessionRecorder({ userId, onSessionComplete }: SessionRecorderPr
         error
     } = useSessionManager();
 
+    const { settings, updateSettings } = useSettings();
+    const { volumeThreshold, isCalibrated } = getDetectionThresholds(settings.audio);
+
+    // Optional background track of community laughs while recording
+    const laughAlong = useLaughAlong({
+        enabled: settings.laughAlong.enabled,
+        playing: status === 'recording',
+        volume: settings.laughAlong.volume
+    });
+
+    // Played laughs are gated out of detection using the track's output
+    useEffect(() => {
+        setPlaybackReference(settings.laughAlong.enabled ? laughAlong.getAnalyser : null);
+    }, [settings.laughAlong.enabled, laughAlong.getAnalyser, setPlaybackReference]);
+
+    const toggleLaughAlong = () => {
+        updateSettings({ laughAlong: { ...settings.laughAlong, enabled: !settings.laughAlong.enabled } });
+    };
+
     const [showLaughEmoji, setShowLaughEmoji] = useState(false);
     const prevLaughCountRef = useRef(0);
 
@@ -42,20 +68,17 @@ export function SessionRecorder({ userId, onSessionComplete }: SessionRecorderPr
     const prevStatusRef = useRef(status);
     useEffect(() => {
         // Detect transition to 'completed' status
-        if (status === 'completed' && prevStatusRef.current !== 'completed' && onSessionComplete) {
-            // Note: We don't have access to the actual blob/timestamps from useSessionManager currently
-            // This is a limitation - for now call with minimal data
-            // TODO: Modify useSessionManager to expose sessionData
+        if (status === 'completed' && prevStatusRef.current !== 'completed' && onSessionComplete && completedSession) {
             onSessionComplete({
-                sessionBlob: null, // Not available yet - needs useSessionManager refactor
-                laughTimestamps: [], // Not available yet
-                sessionId: '', // Not available yet
-                laughCount: laughCount,
-                yamnetScore: undefined
+                sessionBlob: completedSession.blob,
+                laughTimestamps: completedSession.laughEvents,
+                sessionId: completedSession.sessionId,
+                laughCount: completedSession.laughCount,
+                yamnetScore: completedSession.yamnetScore
             });
         }
         prevStatusRef.current = status;
-    }, [status, onSessionComplete, laughCount]);
+    }, [status, onSessionComplete, completedSession]);
 
     const formatTime = (seconds: number) => {
         const mins = Math.floor(seconds / 60);
@@ -92,23 +115,28 @@ export function SessionRecorder({ userId, onSessionComplete }: SessionRecorderPr
                 <div className="w-full max-w-sm bg-gray-900 rounded-lg p-3 text-white font-mono text-sm">
                     <div className="flex justify-between items-center mb-2">
                         <span className="text-gray-400">VOL:</span>
-                        <span className={`text-2xl font-bold ${audioVolume > 20 ? 'text-green-400' : 'text-gray-500'}`}>
+                        <span className={`text-2xl font-bold ${audioVolume > volumeThreshold ? 'text-green-400' : 'text-gray-500'}`}>
                             {audioVolume}
                         </span>
-                        <span className="text-gray-500 text-xs">threshold: 20</span>
+                        <span className="text-gray-500 text-xs">
+                            threshold: {volumeThreshold}{isCalibrated ? ' (calibrated)' : ''}
+                        </span>
                     </div>
                     {/* Volume Bar */}
                     <div className="h-4 bg-gray-700 rounded-full overflow-hidden relative">
                         {/* Threshold marker */}
-                        <div className="absolute left-[20%] top-0 bottom-0 w-0.5 bg-yellow-500 z-10" />
+                        <div
+                            className="absolute top-0 bottom-0 w-0.5 bg-yellow-500 z-10"
+                            style={{ left: `${Math.min(100, volumeThreshold)}%` }}
+                        />
                         {/* Volume fill */}
                         <div
-                            className={`h-full transition-all duration-100 ${audioVolume > 20 ? 'bg-green-500' : 'bg-gray-500'}`}
+                            className={`h-full transition-all duration-100 ${audioVolume > volumeThreshold ? 'bg-green-500' : 'bg-gray-500'}`}
                             style={{ width: `${Math.min(100, audioVolume)}%` }}
                         />
                     </div>
                     <div className="text-center mt-2 text-xs text-gray-400">
-                        {audioVolume > 20 ? '🎤 LOUD ENOUGH!' : '🔇 speak louder...'}
+                        {audioVolume > volumeThreshold ? '🎤 LOUD ENOUGH!' : '🔇 speak louder...'}
                     </div>
                 </div>
             )}
@@ -199,6 +227,31 @@ export function SessionRecorder({ userId, onSessionComplete }: SessionRecorderPr
                 )}
             </div>
 
+            {/* Laugh Along */}
+            <div className="flex flex-col items-center space-y-1 text-sm">
+                <button
+                    onClick={toggleLaughAlong}
+                    className={`px-4 py-1.5 rounded-full font-medium transition-all touch-manipulation ${settings.laughAlong.enabled
+                        ? 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100'
+                        : 'bg-gray-50 text-gray-500 hover:bg-gray-100'
+                        }`}
+                    aria-pressed={settings.laughAlong.enabled}
+                >
+                    🎵 Laugh along: {settings.laughAlong.enabled ? 'On' : 'Off'}
+                </button>
+                {settings.laughAlong.enabled && (
+                    <span className="text-xs text-gray-400 text-center">
+                        {laughAlong.error
+                            ? `Laugh-along unavailable: ${laughAlong.error}`
+                            : laughAlong.isLoading
+                                ? 'Loading laughs...'
+                                : laughAlong.isPlaying
+                                    ? 'Playing quietly - these laughs aren\'t counted as yours'
+                                    : 'Plays quietly while you record - its laughs aren\'t counted as yours'}
+                    </span>
+                )}
+            </div>
+
             {/* Error Message */}
             {error && (
                 <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm text-center w-full max-w-md">
@@ -206,6 +259,13 @@ export function SessionRecorder({ userId, onSessionComplete }: SessionRecorderPr
                 </div>
             )}
 
+            {/* Saved microphone missing */}
+            {inputDeviceFallback && (status === 'recording' || status === 'paused') && (
+                <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-700 text-sm text-center w-full max-w-md">
+                    Your selected microphone isn't connected - recording with the default microphone.
+                </div>
+            )}
+
             {/* Offline Success Message */}
             {status === 'offline_saved' && (
                 <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-700 text-sm text-center w-full max-w-md">
@@ -1,18 +1,35 @@
-import { useState } from 'react';
-import { LaughClipExtractor } from '../../services/audio/LaughClipExtractor';
+import { useState, useEffect, useRef } from 'react';
+import {
+    LaughClipExtractor,
+    type ClipTrim,
+    type ExtractedClip,
+    type LaughClipCandidate
+} from '../../services/audio/LaughClipExtractor';
+import { ClipCandidateCard, type PreviewVariant } from './ClipCandidateCard';
+import { YamnetService } from '../../services/audio/YamnetService';
 import { supabase } from '../../lib/supabase';
+import type { LaughEvent } from '../../types';
 
 interface ShareLaughDialogProps {
     isOpen: boolean;
     onClose: () => void;
     sessionBlob: Blob | null;
-    laughTimestamps: Array<{ time: number; duration: number }>;
+    laughTimestamps: LaughEvent[];
     sessionId: string;
     userId: string;
     laughCount: number;
     yamnetScore?: number; // Optional: if we have the AI score from session
 }
 
+const MAX_CANDIDATES = 3;
+
+// Identifies one candidate + trim + processing combination the user has listened to
+const getPreviewKey = (candidateId: string, trim: ClipTrim, variant: PreviewVariant) =>
+    `${candidateId}:${trim.start}-${trim.end}:${variant}`;
+
+// Silent clips measure -Infinity LUFS, which can't be stored
+const finiteOrNull = (value: number) => (Number.isFinite(value) ? value : null);
+
 /**
  * ShareLaughDialog Component
  * 
@@ -20,7 +37,10 @@ interface ShareLaughDialogProps {
  * Triggers after a successful session with 3+ laughs
  * 
  * Features:
- * - Extracts best laugh clip using AI scoring
+ * - Finds the top AI-scored laugh clips
+ * - User previews, trims and picks one (or none) - a clip can only be
+ *   shared once its current trim has been heard
+ * - Voice anonymization (on by default) with before/after preview
  * - Uploads to Supabase Storage
  * - Creates pending review record
  * - Graceful error handling
@@ -39,7 +59,67 @@ export function ShareLaughDialog({
     const [error, setError] = useState<string | null>(null);
     const [success, setSuccess] = useState(false);
 
-    const handleShare = async () => {
+    // Clip selection step
+    const [candidates, setCandidates] = useState<LaughClipCandidate[] | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [trims, setTrims] = useState<Record<string, ClipTrim>>({});
+    const [heard, setHeard] = useState<Set<string>>(new Set());
+    const [playing, setPlaying] = useState<{ id: string; variant: PreviewVariant } | null>(null);
+    const [anonymize, setAnonymize] = useState(true);
+    const previewRef = useRef<{ audio: HTMLAudioElement; url: string } | null>(null);
+
+    const extractor = LaughClipExtractor.getInstance();
+
+    const stopPreview = () => {
+        const preview = previewRef.current;
+        if (preview) {
+            preview.audio.pause();
+            URL.revokeObjectURL(preview.url);
+            previewRef.current = null;
+        }
+        setPlaying(null);
+    };
+
+    // Never leave a preview playing after the dialog goes away
+    useEffect(() => {
+        if (!isOpen) stopPreview();
+        return () => stopPreview();
+    }, [isOpen]);
+
+    const getTrim = (candidate: LaughClipCandidate): ClipTrim =>
+        trims[candidate.id] ?? { start: 0, end: candidate.duration };
+
+    // The version that would actually be shared
+    const sharedVariant: PreviewVariant = anonymize ? 'anonymized' : 'original';
+
+    const togglePreview = (candidate: LaughClipCandidate, variant: PreviewVariant) => {
+        const wasPlaying = playing?.id === candidate.id && playing.variant === variant;
+        stopPreview();
+        if (wasPlaying) return;
+
+        // Preview exactly what would be shared: trimmed + (anonymized +) normalized
+        const trim = getTrim(candidate);
+        const url = URL.createObjectURL(extractor.renderPreview(candidate, trim, variant === 'anonymized'));
+        const audio = new Audio(url);
+        audio.onended = stopPreview;
+        previewRef.current = { audio, url };
+
+        setSelectedId(candidate.id);
+        setPlaying({ id: candidate.id, variant });
+        audio.play()
+            .then(() => setHeard(prev => new Set(prev).add(getPreviewKey(candidate.id, trim, variant))))
+            .catch(err => {
+                console.error('❌ Preview playback failed:', err);
+                stopPreview();
+            });
+    };
+
+    const handleTrimChange = (candidate: LaughClipCandidate, trim: ClipTrim) => {
+        if (playing?.id === candidate.id) stopPreview();
+        setTrims(prev => ({ ...prev, [candidate.id]: trim }));
+    };
+
+    const handleFindClips = async () => {
         if (!sessionBlob || laughTimestamps.length === 0) {
             setError('No audio data available');
             return;
@@ -49,69 +129,102 @@ export function ShareLaughDialog({
         setError(null);
 
         try {
-            // Step 1: Extract best laugh clip
-            const extractor = LaughClipExtractor.getInstance();
-            const clip = await extractor.extractBestLaugh(sessionBlob, laughTimestamps);
+            const found = await extractor.extractCandidates(sessionBlob, laughTimestamps, MAX_CANDIDATES);
 
-            if (!clip) {
+            if (found.length === 0) {
                 setError('Could not extract a suitable laugh clip. Try recording longer laughs!');
-                setIsProcessing(false);
                 return;
             }
 
-            console.log(`✅ Extracted clip: ${clip.duration}ms, score: ${clip.yamnetScore.toFixed(2)}`);
-
-            // DEMO MODE CHECK (Local Standalone Mode)
-            const { DEMO_MODE } = await import('../../lib/supabase');
-            if (DEMO_MODE) {
-                console.log('🎭 DEMO MODE: Saving clip to local IndexedDB...');
-
-                const { saveLaughClip } = await import('../../lib/db');
-                await saveLaughClip({
-                    id: `${sessionId}_${Date.now()}`,
-                    storage_path: `local/${sessionId}_${Date.now()}.mp3`,
-                    blob: clip.audioBlob,
-                    duration: clip.duration,
-                    yamnet_score: clip.yamnetScore,
-                    created_at: Date.now(),
-                    play_count: 0
-                });
-
-                setSuccess(true);
-                console.log('🎉 Laugh clip saved locally!');
-                setTimeout(() => onClose(), 2000);
-                return;
-            }
+            setCandidates(found);
+            setSelectedId(found[0].id);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Failed to find laugh clips';
+            setError(message);
+            console.error('❌ Failed to extract laugh clips:', err);
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const saveClip = async (clip: ExtractedClip) => {
+        // DEMO MODE CHECK (Local Standalone Mode)
+        const { DEMO_MODE } = await import('../../lib/supabase');
+        if (DEMO_MODE) {
+            console.log('🎭 DEMO MODE: Saving clip to local IndexedDB...');
 
-            // Step 2: Upload to Supabase Storage (Cloud Mode)
-            const fileName = `${userId}/${sessionId}_${Date.now()}.mp3`;
-            const { error: uploadError } = await supabase.storage
-                .from('laugh-starter-clips')
-                .upload(fileName, clip.audioBlob, {
-                    contentType: 'audio/mpeg',
-                    upsert: false
-                });
-
-            if (uploadError) throw uploadError;
-
-            // Step 3: Create database record
-            const { error: insertError } = await supabase
-                .from('laugh_clips')
-                .insert({
-                    session_id: sessionId,
-                    user_id: userId,
-                    storage_path: fileName,
-                    duration: clip.duration,
-                    file_size: clip.audioBlob.size,
-                    yamnet_score: clip.yamnetScore,
-                    approval_status: 'pending'
-                });
-
-            if (insertError) throw insertError;
+            const { saveLaughClip } = await import('../../lib/db');
+            await saveLaughClip({
+                id: `${sessionId}_${Date.now()}`,
+                storage_path: `local/${sessionId}_${Date.now()}.${clip.fileExtension}`,
+                blob: clip.audioBlob,
+                duration: clip.duration,
+                yamnet_score: clip.yamnetScore,
+                yamnet_version: YamnetService.getInstance().getModelVersion(),
+                loudness_lufs: finiteOrNull(clip.loudness),
+                true_peak_db: finiteOrNull(clip.truePeak),
+                anonymization: clip.anonymization,
+                created_at: Date.now(),
+                play_count: 0
+            });
+
+            console.log('🎉 Laugh clip saved locally!');
+            return;
+        }
+
+        // Upload to Supabase Storage (Cloud Mode)
+        const fileName = `${userId}/${sessionId}_${Date.now()}.${clip.fileExtension}`;
+        const { error: uploadError } = await supabase.storage
+            .from('laugh-starter-clips')
+            .upload(fileName, clip.audioBlob, {
+                contentType: clip.mimeType,
+                upsert: false
+            });
+
+        if (uploadError) throw uploadError;
+
+        // Create database record
+        const { error: insertError } = await supabase
+            .from('laugh_clips')
+            .insert({
+                session_id: sessionId,
+                user_id: userId,
+                storage_path: fileName,
+                duration: clip.duration,
+                file_size: clip.audioBlob.size,
+                mime_type: clip.mimeType,
+                yamnet_score: clip.yamnetScore,
+                yamnet_version: YamnetService.getInstance().getModelVersion(),
+                loudness_lufs: finiteOrNull(clip.loudness),
+                true_peak_db: finiteOrNull(clip.truePeak),
+                anonymization: clip.anonymization,
+                approval_status: 'pending'
+            });
+
+        if (insertError) throw insertError;
+
+        console.log('🎉 Laugh clip submitted for review!');
+    };
+
+    const selected = candidates?.find(candidate => candidate.id === selectedId) ?? null;
+    const selectedTrim = selected ? getTrim(selected) : null;
+    const canSubmit = !!selected && !!selectedTrim && heard.has(getPreviewKey(selected.id, selectedTrim, sharedVariant));
+
+    const handleSubmit = async () => {
+        if (!selected || !selectedTrim || !canSubmit) return;
+
+        stopPreview();
+        setIsProcessing(true);
+        setError(null);
+
+        try {
+            const clip = await extractor.renderClip(selected, selectedTrim, anonymize);
+            console.log(`✅ Rendered clip: ${clip.duration}ms, score: ${clip.yamnetScore.toFixed(2)}`);
+
+            await saveClip(clip);
 
             // Success!
             setSuccess(true);
-            console.log('🎉 Laugh clip submitted for review!');
 
             // Auto-close after 2 seconds
             setTimeout(() => {
@@ -129,6 +242,16 @@ export function ShareLaughDialog({
 
     if (!isOpen) return null;
 
+    const processingLabel = (
+        <span className="flex items-center justify-center gap-2">
+            <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+            </svg>
+            Processing...
+        </span>
+    );
+
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
             <div className="glass-panel p-8 rounded-2xl max-w-md w-full shadow-2xl border border-white/10 animate-fade-in">
@@ -150,12 +273,51 @@ export function ShareLaughDialog({
                             </p>
                         </div>
 
-                        {/* Prompt */}
-                        <div className="mb-6 p-4 rounded-lg bg-stitch-primary/10 border border-stitch-primary/30">
-                            <p className="text-stitch-text text-sm text-center">
-                                💡 <span className="font-semibold">Help the community!</span> Share your best laugh to help new users warm up.
-                            </p>
-                        </div>
+                        {/* Clip Selection */}
+                        {candidates ? (
+                            <div className="mb-6 space-y-3">
+                                <p className="text-stitch-text text-sm text-center">
+                                    Listen to your best laughs, trim one if you like, and pick which to share.
+                                </p>
+                                <label className="flex items-start gap-3 p-3 rounded-lg bg-stitch-surface cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={anonymize}
+                                        onChange={(e) => {
+                                            stopPreview();
+                                            setAnonymize(e.target.checked);
+                                        }}
+                                        className="mt-0.5 accent-stitch-primary"
+                                    />
+                                    <span className="text-xs text-stitch-muted">
+                                        <span className="block text-sm font-medium text-white">🥸 Disguise my voice</span>
+                                        Shifts the pitch of your voice and mutes any talking around the laugh. Compare before and after.
+                                    </span>
+                                </label>
+                                {candidates.map((candidate, index) => (
+                                    <ClipCandidateCard
+                                        key={candidate.id}
+                                        candidate={candidate}
+                                        index={index}
+                                        trim={getTrim(candidate)}
+                                        isSelected={candidate.id === selectedId}
+                                        sharedVariant={sharedVariant}
+                                        playingVariant={playing?.id === candidate.id ? playing.variant : null}
+                                        hasBeenHeard={heard.has(getPreviewKey(candidate.id, getTrim(candidate), sharedVariant))}
+                                        onSelect={() => setSelectedId(candidate.id)}
+                                        onTrimChange={(trim) => handleTrimChange(candidate, trim)}
+                                        onTogglePreview={(variant) => togglePreview(candidate, variant)}
+                                    />
+                                ))}
+                            </div>
+                        ) : (
+                            /* Prompt */
+                            <div className="mb-6 p-4 rounded-lg bg-stitch-primary/10 border border-stitch-primary/30">
+                                <p className="text-stitch-text text-sm text-center">
+                                    💡 <span className="font-semibold">Help the community!</span> Share your best laugh to help new users warm up.
+                                </p>
+                            </div>
+                        )}
 
                         {/* Error Message */}
                         {error && (
@@ -165,36 +327,48 @@ export function ShareLaughDialog({
                         )}
 
                         {/* Actions */}
-                        <div className="flex gap-3">
-                            <button
-                                onClick={onClose}
-                                disabled={isProcessing}
-                                className="flex-1 px-6 py-3 rounded-lg font-medium text-sm bg-stitch-surface text-stitch-muted hover:text-white transition-all disabled:opacity-50"
-                            >
-                                Maybe Later
-                            </button>
-                            <button
-                                onClick={handleShare}
-                                disabled={isProcessing}
-                                className="flex-1 btn-primary text-base py-3 shadow-xl shadow-stitch-primary/30 hover:shadow-stitch-primary/50 transform hover:-translate-y-1 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
-                            >
-                                {isProcessing ? (
-                                    <span className="flex items-center justify-center gap-2">
-                                        <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                                        </svg>
-                                        Processing...
-                                    </span>
-                                ) : (
-                                    "Share My Laugh! 🎙️"
-                                )}
-                            </button>
-                        </div>
+                        {candidates ? (
+                            <div className="flex gap-3">
+                                <button
+                                    onClick={onClose}
+                                    disabled={isProcessing}
+                                    className="flex-1 px-6 py-3 rounded-lg font-medium text-sm bg-stitch-surface text-stitch-muted hover:text-white transition-all disabled:opacity-50"
+                                >
+                                    None of These
+                                </button>
+                                <button
+                                    onClick={handleSubmit}
+                                    disabled={isProcessing || !canSubmit}
+                                    title={canSubmit ? undefined : 'Play the selected clip first'}
+                                    className="flex-1 btn-primary text-base py-3 shadow-xl shadow-stitch-primary/30 hover:shadow-stitch-primary/50 transform hover:-translate-y-1 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+                                >
+                                    {isProcessing ? processingLabel : 'Share This Clip'}
+                                </button>
+                            </div>
+                        ) : (
+                            <div className="flex gap-3">
+                                <button
+                                    onClick={onClose}
+                                    disabled={isProcessing}
+                                    className="flex-1 px-6 py-3 rounded-lg font-medium text-sm bg-stitch-surface text-stitch-muted hover:text-white transition-all disabled:opacity-50"
+                                >
+                                    Maybe Later
+                                </button>
+                                <button
+                                    onClick={handleFindClips}
+                                    disabled={isProcessing}
+                                    className="flex-1 btn-primary text-base py-3 shadow-xl shadow-stitch-primary/30 hover:shadow-stitch-primary/50 transform hover:-translate-y-1 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+                                >
+                                    {isProcessing ? processingLabel : "Share My Laugh! 🎙️"}
+                                </button>
+                            </div>
+                        )}
 
                         {/* Helper Text */}
                         <p className="text-center text-xs text-stitch-muted mt-4">
-                            Your clip will be reviewed before appearing in Laugh Starter
+                            {candidates && !canSubmit
+                                ? `Play the selected clip${anonymize ? ' (after disguise)' : ''} to enable sharing`
+                                : 'Your clip will be reviewed before appearing in Laugh Starter'}
                         </p>
                     </>
                 ) : (
@@ -0,0 +1,83 @@
+import { useSyncQueue } from '../../hooks/useSyncQueue';
+import type { SyncItemStatus } from '../../services/sync/SyncService';
+
+const STATUS_STYLES: Record<SyncItemStatus, { label: string; className: string }> = {
+    queued: { label: 'Queued', className: 'bg-stitch-surface text-stitch-muted' },
+    syncing: { label: 'Syncing', className: 'bg-blue-500/20 text-blue-300 animate-pulse' },
+    retrying: { label: 'Retrying', className: 'bg-yellow-500/20 text-yellow-300' },
+    synced: { label: 'Synced', className: 'bg-green-500/20 text-green-400' },
+    failed: { label: 'Failed', className: 'bg-red-500/20 text-red-400' },
+};
+
+/**
+ * SyncQueuePanel Component
+ *
+ * Lists sessions saved on this device that are waiting to upload.
+ * Renders nothing when the queue is empty.
+ */
+export function SyncQueuePanel() {
+    const { items, pendingCount, isSyncing, syncNow, retry } = useSyncQueue();
+
+    if (items.length === 0) return null;
+
+    const formatDuration = (seconds: number) => {
+        const mins = Math.floor(seconds / 60);
+        const secs = Math.floor(seconds % 60);
+        return `${mins}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    return (
+        <div className="glass-panel p-6 rounded-xl">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-display font-bold text-white">
+                    Sync Queue
+                    {pendingCount > 0 && (
+                        <span className="ml-2 text-sm font-medium text-stitch-muted">({pendingCount} waiting)</span>
+                    )}
+                </h2>
+                <button
+                    onClick={() => syncNow()}
+                    disabled={isSyncing}
+                    className="px-4 py-2 rounded-lg font-medium text-sm bg-stitch-surface text-white hover:bg-stitch-surface/70 transition-all disabled:opacity-50"
+                >
+                    {isSyncing ? 'Syncing...' : 'Sync Now'}
+                </button>
+            </div>
+
+            <ul className="divide-y divide-white/5">
+                {items.map(item => {
+                    const style = STATUS_STYLES[item.status];
+                    return (
+                        <li key={item.id} className="py-3 flex items-center justify-between gap-4">
+                            <div className="min-w-0">
+                                <p className="text-sm text-stitch-text">
+                                    {new Date(item.createdAt).toLocaleString()}
+                                </p>
+                                <p className="text-xs text-stitch-muted">
+                                    {formatDuration(item.duration)} • {item.laughCount} laughs
+                                    {item.attempts > 0 && ` • ${item.attempts} attempt${item.attempts === 1 ? '' : 's'}`}
+                                </p>
+                                {item.error && item.status !== 'synced' && (
+                                    <p className="text-xs text-red-400 truncate" title={item.error}>{item.error}</p>
+                                )}
+                            </div>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                                <span className={`px-2 py-1 rounded-full text-xs font-medium ${style.className}`}>
+                                    {style.label}
+                                </span>
+                                {item.status === 'failed' && (
+                                    <button
+                                        onClick={() => retry(item.id)}
+                                        className="text-xs text-stitch-accent hover:text-stitch-primary underline"
+                                    >
+                                        Retry
+                                    </button>
+                                )}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+}
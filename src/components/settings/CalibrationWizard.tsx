@@ -0,0 +1,160 @@
+import { useCalibration, CALIBRATION_STEPS, type CalibrationStep } from '../../hooks/useCalibration';
+import type { AudioCalibration, UserSettings } from '../../types';
+
+const STEP_COPY: Record<CalibrationStep, { title: string; instructions: string }> = {
+    silence: {
+        title: 'Room tone',
+        instructions: 'Stay quiet for a few seconds so we can hear your background noise.',
+    },
+    speech: {
+        title: 'Normal speech',
+        instructions: 'Talk normally - read this sentence aloud, then keep chatting until the bar fills.',
+    },
+    laugh: {
+        title: 'Laughs',
+        instructions: 'Give us a few real laughs - fake it till you make it!',
+    },
+};
+
+interface CalibrationWizardProps {
+    audioSettings: UserSettings['audio'];
+    onSave: (calibration: AudioCalibration) => void;
+    onCancel: () => void;
+}
+
+/**
+ * CalibrationWizard Component
+ *
+ * Walks the user through recording silence, speech and laughs on the
+ * selected microphone, then shows the derived thresholds for saving.
+ */
+export function CalibrationWizard({ audioSettings, onSave, onCancel }: CalibrationWizardProps) {
+    const {
+        currentStep,
+        progress,
+        volume,
+        samples,
+        error,
+        isRecording,
+        isModelLoaded,
+        result,
+        recordStep,
+        reset
+    } = useCalibration(audioSettings);
+
+    const nextStep = CALIBRATION_STEPS.find(step => !samples[step]) ?? null;
+    const activeStep = currentStep ?? nextStep;
+
+    const handleCancel = () => {
+        reset();
+        onCancel();
+    };
+
+    return (
+        <div className="rounded-lg border border-white/10 bg-stitch-surface/40 p-4 space-y-4">
+            {/* Step indicator */}
+            <ol className="flex items-center gap-2 text-xs">
+                {CALIBRATION_STEPS.map((step, index) => (
+                    <li
+                        key={step}
+                        className={`flex-1 rounded-full px-3 py-1 text-center font-medium ${samples[step]
+                            ? 'bg-green-500/20 text-green-400'
+                            : step === activeStep
+                                ? 'bg-stitch-primary/20 text-white'
+                                : 'bg-stitch-surface text-stitch-muted'
+                            }`}
+                    >
+                        {index + 1}. {STEP_COPY[step].title}
+                    </li>
+                ))}
+            </ol>
+
+            {activeStep && (
+                <div className="space-y-3">
+                    <p className="text-sm text-stitch-text">{STEP_COPY[activeStep].instructions}</p>
+                    {activeStep === 'speech' && (
+                        <p className="text-sm italic text-stitch-muted">
+                            "The quick brown fox jumps over the lazy dog, then takes a long nap in the sun."
+                        </p>
+                    )}
+
+                    {/* Live level + step progress */}
+                    <div className="space-y-2">
+                        <div className="h-2 bg-stitch-surface rounded-full overflow-hidden">
+                            <div
+                                className="h-full bg-stitch-accent transition-all duration-100"
+                                style={{ width: `${volume}%` }}
+                            />
+                        </div>
+                        <div className="h-1 bg-stitch-surface rounded-full overflow-hidden">
+                            <div
+                                className="h-full bg-stitch-primary transition-all duration-100"
+                                style={{ width: `${progress * 100}%` }}
+                            />
+                        </div>
+                    </div>
+
+                    <button
+                        onClick={() => recordStep(activeStep)}
+                        disabled={isRecording}
+                        className="px-4 py-2 rounded-lg font-medium text-sm bg-stitch-primary text-white hover:bg-stitch-primary/80 transition-all disabled:opacity-50"
+                    >
+                        {isRecording ? 'Listening...' : `Record ${STEP_COPY[activeStep].title.toLowerCase()}`}
+                    </button>
+                    {!isModelLoaded && (
+                        <p className="text-xs text-stitch-muted">
+                            AI model still loading - only the volume threshold will be calibrated.
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {result && (
+                <div className="space-y-3">
+                    <dl className="grid grid-cols-3 gap-4 text-center">
+                        <div>
+                            <dt className="text-xs text-stitch-muted">Noise floor</dt>
+                            <dd className="font-mono text-stitch-accent">{result.calibration.noiseFloor}%</dd>
+                        </div>
+                        <div>
+                            <dt className="text-xs text-stitch-muted">Volume threshold</dt>
+                            <dd className="font-mono text-stitch-accent">{result.calibration.volumeThreshold}%</dd>
+                        </div>
+                        <div>
+                            <dt className="text-xs text-stitch-muted">AI threshold</dt>
+                            <dd className="font-mono text-stitch-accent">
+                                {Math.round(result.calibration.probabilityThreshold * 100)}%
+                            </dd>
+                        </div>
+                    </dl>
+                    {result.warnings.map(warning => (
+                        <p key={warning} className="text-xs text-yellow-300">⚠️ {warning}</p>
+                    ))}
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => onSave(result.calibration)}
+                            className="px-4 py-2 rounded-lg font-medium text-sm bg-stitch-primary text-white hover:bg-stitch-primary/80 transition-all"
+                        >
+                            Save calibration
+                        </button>
+                        <button
+                            onClick={reset}
+                            className="px-4 py-2 rounded-lg font-medium text-sm bg-stitch-surface text-white hover:bg-stitch-surface/70 transition-all"
+                        >
+                            Start over
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <button
+                onClick={handleCancel}
+                className="text-xs text-stitch-muted hover:text-white underline"
+            >
+                Cancel
+            </button>
+        </div>
+    );
+}
@@ -1,6 +1,8 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import type { User, Session } from '@supabase/supabase-js';
 import { supabase, DEMO_MODE, DEMO_USER } from '../lib/supabase';
+import { hasRole as rolesInclude, parseRoles, USER_ROLES } from '../lib/roles';
+import type { UserRole } from '../types';
 
 interface AuthContextType {
     user: User | null;
@@ -8,6 +10,28 @@ interface AuthContextType {
     loading: boolean;
     signOut: () => Promise<void>;
     isDemoMode: boolean;
+    roles: UserRole[];      // Empty when signed out
+    hasRole: (role: UserRole) => boolean;
+}
+
+// Demo data is all local, so the demo user may use every page
+const DEMO_ROLES: UserRole[] = USER_ROLES;
+
+/**
+ * Roles granted to a signed-in user (user_roles table)
+ * Falls back to plain 'user' if they can't be loaded - never more
+ */
+async function fetchRoles(userId: string): Promise<UserRole[]> {
+    const { data, error } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error('❌ Failed to load roles:', error);
+        return ['user'];
+    }
+    return parseRoles(['user', ...(data || []).map(row => row.role)]);
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -15,6 +39,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
     const [user, setUser] = useState<User | null>(null);
     const [session, setSession] = useState<Session | null>(null);
+    const [roles, setRoles] = useState<UserRole[]>([]);
     const [loading, setLoading] = useState(true);
 
     useEffect(() => {
@@ -23,26 +48,43 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             console.log('🎭 Demo mode: Auto-logged in as demo@lafter.org');
             setUser(DEMO_USER as unknown as User);
             setSession({ user: DEMO_USER } as unknown as Session);
+            setRoles(DEMO_ROLES);
             setLoading(false);
             return;
         }
 
         // Real Supabase mode
-        supabase.auth.getSession().then(({ data: { session } }) => {
-            setSession(session);
-            setUser(session?.user ?? null);
-            setLoading(false);
-        });
+        let cancelled = false;
+        let latestUpdate = 0;
+
+        // Publish the session together with its roles, so guarded routes
+        // never see a signed-in user whose roles haven't arrived yet
+        const applySession = (session: Session | null) => {
+            const update = ++latestUpdate;
+            const rolesPromise = session ? fetchRoles(session.user.id) : Promise.resolve([]);
+
+            rolesPromise.then(roles => {
+                if (cancelled || update !== latestUpdate) return;
+                setSession(session);
+                setUser(session?.user ?? null);
+                setRoles(roles);
+                setLoading(false);
+            });
+        };
+
+        supabase.auth.getSession().then(({ data: { session } }) => applySession(session));
 
         const {
             data: { subscription },
         } = supabase.auth.onAuthStateChange((_event, session) => {
-            setSession(session);
-            setUser(session?.user ?? null);
-            setLoading(false);
+            // Not awaited - Supabase calls must not block this callback
+            applySession(session);
         });
 
-        return () => subscription.unsubscribe();
+        return () => {
+            cancelled = true;
+            subscription.unsubscribe();
+        };
     }, []);
 
     const signOut = async () => {
@@ -54,8 +96,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         await supabase.auth.signOut();
     };
 
+    const hasRole = (role: UserRole) => rolesInclude(roles, role);
+
     return (
-        <AuthContext.Provider value={{ user, session, loading, signOut, isDemoMode: DEMO_MODE }}>
+        <AuthContext.Provider value={{ user, session, loading, signOut, isDemoMode: DEMO_MODE, roles, hasRole }}>
             {children}
         </AuthContext.Provider>
     );
@@ -4,7 +4,8 @@ import { supabase, DEMO_MODE } from '../lib/supabase';
 export interface SessionData {
     id: string;
     created_at: string;
-    duration: number;
+    duration: number;                     // seconds of active recording (excludes pauses)
+    wall_clock_duration: number | null;   // seconds including pauses (null for older sessions)
     laugh_count: number;
 }
 
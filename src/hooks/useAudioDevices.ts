@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import { listMicrophones } from '../lib/audioInput';
+
+interface UseAudioDevicesReturn {
+    devices: MediaDeviceInfo[];
+    hasLabels: boolean;             // False until microphone permission is granted
+    error: string | null;
+    requestAccess: () => Promise<void>;
+}
+
+/**
+ * Hook listing connected microphones
+ *
+ * Re-enumerates on `devicechange` so plugging in or removing a headset
+ * updates the picker without a reload.
+ */
+export function useAudioDevices(): UseAudioDevicesReturn {
+    const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setDevices(await listMicrophones());
+        } catch (err) {
+            console.error('❌ Failed to list microphones:', err);
+            setError('Could not list microphones.');
+        }
+    }, []);
+
+    useEffect(() => {
+        const mediaDevices = navigator.mediaDevices;
+        if (!mediaDevices?.enumerateDevices) return;
+
+        let cancelled = false;
+        listMicrophones()
+            .then(list => { if (!cancelled) setDevices(list); })
+            .catch(err => console.error('❌ Failed to list microphones:', err));
+
+        mediaDevices.addEventListener('devicechange', refresh);
+        return () => {
+            cancelled = true;
+            mediaDevices.removeEventListener('devicechange', refresh);
+        };
+    }, [refresh]);
+
+    /**
+     * Briefly open the mic so the browser reveals device labels
+     */
+    const requestAccess = useCallback(async () => {
+        try {
+            setError(null);
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            stream.getTracks().forEach(track => track.stop());
+            await refresh();
+        } catch (err) {
+            console.error('❌ Microphone permission denied:', err);
+            setError('Microphone permission denied.');
+        }
+    }, [refresh]);
+
+    return {
+        devices,
+        hasLabels: devices.some(device => device.label !== ''),
+        error,
+        requestAccess
+    };
+}
@@ -9,28 +9,49 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { useSettings } from '../context/SettingsContext';
 import { useYamnet } from './useYamnet';
+import { YamnetFrameStream, type YamnetFrameResult } from '../services/audio/YamnetFrameStream';
+import { RecordingJournal, type RecordingJournalSnapshot } from '../services/recording/RecordingJournal';
+import { PlaybackGate } from '../services/audio/playbackGate';
+import { openMicrophone } from '../lib/audioInput';
+import { computeVolumeLevel, getDetectionThresholds, VOLUME_SMOOTHING } from '../lib/calibration';
+import type { LaughEvent } from '../types';
 
 // Types
 interface AudioRecorderState {
     isRecording: boolean;
     isPaused: boolean;
-    duration: number;
+    duration: number; // seconds of active (unpaused) recording
     volume: number; // 0-100, for avatar animation
     laughCount: number;
     laughProbability: number; // 0-1
+    laughEvents: LaughEvent[];
+    inputDeviceFallback: boolean; // Saved microphone missing - recording from the default
     error: string | null;
 }
 
+export interface RecordingResult {
+    blob: Blob;
+    laughEvents: LaughEvent[];
+    duration: number;           // seconds actually recorded (excludes pauses)
+    wallClockDuration: number;  // seconds from start to stop, including pauses
+}
+
+// Identifies the session so chunks can be journaled for crash recovery
+export interface RecordingOptions {
+    sessionId: string;
+    userId: string;
+}
+
 interface AudioRecorderReturn extends AudioRecorderState {
-    startRecording: () => Promise<void>;
-    stopRecording: () => Promise<Blob | null>;
+    startRecording: (options?: RecordingOptions) => Promise<void>;
+    stopRecording: () => Promise<RecordingResult | null>;
     pauseRecording: () => void;
     resumeRecording: () => void;
     getVolume: () => number;
+    setPlaybackReference: (getAnalyser: (() => AnalyserNode | null) | null) => void;
 }
 
 // Constants
-const VOLUME_SMOOTHING = 0.8;
 const VOLUME_UPDATE_INTERVAL = 100; // ms
 
 // LAUGH DETECTION V3.0 (Hybrid: Volume + AI)
@@ -63,7 +84,7 @@ const getSupportedMimeType = (): string => {
 
 export function useAudioRecorder(): AudioRecorderReturn {
     const { settings } = useSettings();
-    const { analyzeAudio, isModelLoaded } = useYamnet();
+    const { isModelLoaded } = useYamnet();
 
     // State
     const [state, setState] = useState<AudioRecorderState>({
@@ -73,6 +94,8 @@ export function useAudioRecorder(): AudioRecorderReturn {
         volume: 0,
         laughCount: 0,
         laughProbability: 0,
+        laughEvents: [],
+        inputDeviceFallback: false,
         error: null,
     });
 
@@ -84,13 +107,30 @@ export function useAudioRecorder(): AudioRecorderReturn {
     const chunksRef = useRef<Blob[]>([]);
     const durationIntervalRef = useRef<number | null>(null);
     const volumeIntervalRef = useRef<number | null>(null);
-    const startTimeRef = useRef<number>(0);
+    const startTimeRef = useRef<number>(0);         // Wall clock at start
+    const activeTimeRef = useRef<number>(0);        // Active ms banked before the current segment
+    const segmentStartRef = useRef<number | null>(null); // Wall clock when recording last (re)started, null while paused
+    const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
     const smoothedVolumeRef = useRef<number>(0);
 
     // Laugh detection refs
     const laughCountRef = useRef<number>(0);
     const loudStartTimeRef = useRef<number | null>(null);
     const lastLaughTimeRef = useRef<number>(0);
+    const laughEventsRef = useRef<LaughEvent[]>([]);
+    const activeLaughRef = useRef<LaughEvent | null>(null); // Event still being extended
+    const candidatePeakRef = useRef({ volume: 0, probability: 0 });
+
+    // YAMNet streaming refs
+    const frameStreamRef = useRef<YamnetFrameStream | null>(null);
+    const latestFrameRef = useRef<YamnetFrameResult | null>(null);
+
+    // Crash recovery journal (IndexedDB)
+    const journalRef = useRef<RecordingJournal | null>(null);
+
+    // Audio played during the session (laugh along) - excluded from detection
+    const playbackReferenceRef = useRef<(() => AnalyserNode | null) | null>(null);
+    const playbackGateRef = useRef<PlaybackGate | null>(null);
 
     /**
      * Get or create AudioContext
@@ -120,15 +160,8 @@ export function useAudioRecorder(): AudioRecorderReturn {
         const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
         analyserRef.current.getByteFrequencyData(dataArray);
 
-        // Calculate RMS (root mean square) for volume
-        let sum = 0;
-        for (let i = 0; i < dataArray.length; i++) {
-            sum += dataArray[i] * dataArray[i];
-        }
-        const rms = Math.sqrt(sum / dataArray.length);
-
-        // Normalize to 0-100
-        const normalized = Math.min(100, (rms / 128) * 100);
+        // RMS of the spectrum, normalized to 0-100
+        const normalized = computeVolumeLevel(dataArray);
 
         // Apply smoothing to prevent jitter
         smoothedVolumeRef.current =
@@ -138,6 +171,43 @@ export function useAudioRecorder(): AudioRecorderReturn {
         return Math.round(smoothedVolumeRef.current);
     }, []);
 
+    /**
+     * Milliseconds of active recording - paused time doesn't count
+     * Laugh events and YAMNet frames use this timeline, which matches the
+     * recorded audio (MediaRecorder also skips paused time).
+     */
+    const getActiveElapsed = useCallback((): number => {
+        const segmentStart = segmentStartRef.current;
+        return activeTimeRef.current + (segmentStart !== null ? Date.now() - segmentStart : 0);
+    }, []);
+
+    /**
+     * Level the laugh detector should see: the mic volume, minus whatever
+     * the session's own playback explains (unchanged when nothing plays)
+     */
+    const gatePlayback = useCallback((volume: number): number => {
+        const getAnalyser = playbackReferenceRef.current;
+        const gate = playbackGateRef.current;
+        if (!getAnalyser || !gate) return volume;
+
+        const analyser = getAnalyser();
+        let referenceLevel = 0;
+        if (analyser) {
+            const dataArray = new Uint8Array(analyser.frequencyBinCount);
+            analyser.getByteFrequencyData(dataArray);
+            referenceLevel = computeVolumeLevel(dataArray);
+        }
+
+        return gate.filter(getActiveElapsed(), volume, referenceLevel);
+    }, [getActiveElapsed]);
+
+    /**
+     * Register (or clear) the analyser of audio played while recording
+     */
+    const setPlaybackReference = useCallback((getAnalyser: (() => AnalyserNode | null) | null): void => {
+        playbackReferenceRef.current = getAnalyser;
+    }, []);
+
     /**
      * Get current volume (for external polling if needed)
      */
@@ -149,26 +219,22 @@ export function useAudioRecorder(): AudioRecorderReturn {
      * LAUGH DETECTION V3.0 (Hybrid)
      * Detects sustained loud sounds AND uses AI model if available
      */
-    const detectLaugh = useCallback(async (volume: number): Promise<void> => {
-        const now = Date.now();
-        const threshold = settings.audio.threshold;
+    const detectLaugh = useCallback((volume: number): void => {
+        const now = getActiveElapsed();
+        const { volumeThreshold: threshold, probabilityThreshold } = getDetectionThresholds(settings.audio);
         let isLaugh = false;
         let probability = 0;
 
         // 1. Volume Check (Gating)
-        // Only run AI if volume is significant to save CPU
         if (volume > threshold) {
-            // 2. AI Check (if model loaded)
-            if (isModelLoaded && analyserRef.current) {
-                // Get audio data for AI
-                const dataArray = new Float32Array(analyserRef.current.fftSize);
-                analyserRef.current.getFloatTimeDomainData(dataArray);
-
-                // Run inference
-                probability = await analyzeAudio(dataArray);
-
-                // AI Threshold (0.3 is a reasonable start for YAMNet laughter)
-                if (probability > 0.3) {
+            // 2. AI Check (if the YAMNet frame stream is running)
+            if (frameStreamRef.current) {
+                // Latest 0.975 s window scored by the frame stream
+                const frame = latestFrameRef.current;
+                probability = frame?.laughterScore ?? 0;
+
+                // Vetoed frames (speech, shouting, music...) never count
+                if (frame?.isLaughter && probability > probabilityThreshold) {
                     isLaugh = true;
                 }
             } else {
@@ -183,14 +249,41 @@ export function useAudioRecorder(): AudioRecorderReturn {
             // Sound is loud enough AND sounds like a laugh
             if (loudStartTimeRef.current === null) {
                 loudStartTimeRef.current = now;
+                candidatePeakRef.current = { volume: 0, probability: 0 };
                 console.log(`🔊 Laugh candidate started at volume ${volume}, prob: ${probability.toFixed(2)}`);
             }
 
+            const peak = candidatePeakRef.current;
+            peak.volume = Math.max(peak.volume, volume);
+            peak.probability = Math.max(peak.probability, probability);
+
+            // Keep extending the last detected laugh while the sound continues
+            const activeLaugh = activeLaughRef.current;
+            if (activeLaugh) {
+                activeLaugh.duration = now - activeLaugh.time;
+                activeLaugh.volume = Math.max(activeLaugh.volume, volume);
+                activeLaugh.probability = Math.max(activeLaugh.probability, probability);
+            }
+
             const loudDuration = now - loudStartTimeRef.current;
             const timeSinceLastLaugh = now - lastLaughTimeRef.current;
 
             // Check if loud long enough AND cooldown passed
             if (loudDuration >= LAUGH_DURATION_MIN && timeSinceLastLaugh >= LAUGH_COOLDOWN) {
+                const event: LaughEvent = {
+                    time: loudStartTimeRef.current,
+                    duration: loudDuration,
+                    volume: peak.volume,
+                    probability: peak.probability,
+                };
+
+                // A new laugh closes the previous one where this one started
+                if (activeLaugh) {
+                    activeLaugh.duration = Math.max(0, event.time - activeLaugh.time);
+                }
+
+                laughEventsRef.current.push(event);
+                activeLaughRef.current = event;
                 laughCountRef.current += 1;
                 lastLaughTimeRef.current = now;
                 loudStartTimeRef.current = null; // Reset for next laugh
@@ -198,7 +291,11 @@ export function useAudioRecorder(): AudioRecorderReturn {
                 console.log(`😂 LAUGH DETECTED! Count: ${laughCountRef.current} (duration: ${loudDuration}ms, prob: ${probability.toFixed(2)})`);
 
                 // Update state with new laugh count
-                setState(prev => ({ ...prev, laughCount: laughCountRef.current }));
+                setState(prev => ({
+                    ...prev,
+                    laughCount: laughCountRef.current,
+                    laughEvents: laughEventsRef.current.map(e => ({ ...e })),
+                }));
             }
         } else {
             // Sound dropped below threshold or AI said "not funny"
@@ -209,8 +306,58 @@ export function useAudioRecorder(): AudioRecorderReturn {
                 }
             }
             loudStartTimeRef.current = null;
+            activeLaughRef.current = null;
         }
-    }, [settings.audio.threshold, isModelLoaded, analyzeAudio]);
+    }, [settings.audio, getActiveElapsed]);
+
+    /**
+     * Receive a scored YAMNet window from the frame stream
+     */
+    const handleYamnetFrame = useCallback((frame: YamnetFrameResult): void => {
+        if (segmentStartRef.current === null) return; // Paused - window finished after pause
+
+        latestFrameRef.current = frame;
+    }, []);
+
+    /**
+     * Current session state for the crash recovery journal
+     */
+    const getJournalSnapshot = useCallback((): RecordingJournalSnapshot => ({
+        duration: getActiveElapsed() / 1000,
+        wallClockDuration: (Date.now() - startTimeRef.current) / 1000,
+        laughCount: laughCountRef.current,
+        laughEvents: laughEventsRef.current.map(e => ({ ...e })),
+    }), [getActiveElapsed]);
+
+    /**
+     * Duration timer + volume monitoring/laugh detection
+     * Only runs while actively recording - pausing stops detection
+     */
+    const startMonitoring = useCallback((): void => {
+        durationIntervalRef.current = window.setInterval(() => {
+            setState(prev => ({ ...prev, duration: getActiveElapsed() / 1000 }));
+            journalRef.current?.update(getJournalSnapshot());
+        }, 100);
+
+        volumeIntervalRef.current = window.setInterval(() => {
+            const volume = calculateVolume();
+            setState(prev => ({ ...prev, volume }));
+
+            // V3.0: Hybrid Detection (played-back laughs never count)
+            detectLaugh(gatePlayback(volume));
+        }, VOLUME_UPDATE_INTERVAL);
+    }, [getActiveElapsed, getJournalSnapshot, calculateVolume, detectLaugh, gatePlayback]);
+
+    const stopMonitoring = useCallback((): void => {
+        if (durationIntervalRef.current) {
+            clearInterval(durationIntervalRef.current);
+            durationIntervalRef.current = null;
+        }
+        if (volumeIntervalRef.current) {
+            clearInterval(volumeIntervalRef.current);
+            volumeIntervalRef.current = null;
+        }
+    }, []);
 
     /**
      * Check if running in secure context (required for getUserMedia)
@@ -235,7 +382,7 @@ export function useAudioRecorder(): AudioRecorderReturn {
      * Start recording
      * MUST be called from user interaction (click handler)
      */
-    const startRecording = useCallback(async (): Promise<void> => {
+    const startRecording = useCallback(async (options?: RecordingOptions): Promise<void> => {
         try {
             // Reset error state
             setState(prev => ({ ...prev, error: null }));
@@ -259,24 +406,31 @@ export function useAudioRecorder(): AudioRecorderReturn {
                 throw new Error(errorMsg);
             }
 
-            // Get microphone stream
-            const stream = await navigator.mediaDevices.getUserMedia({
-                audio: {
-                    echoCancellation: true,
-                    noiseSuppression: true,
-                    autoGainControl: true,
-                }
-            });
+            // Get microphone stream (selected device + processing from settings)
+            const { stream, usedFallback } = await openMicrophone(settings.audio);
             streamRef.current = stream;
 
             // Setup audio context and analyser for volume monitoring
             const audioContext = getAudioContext();
             const source = audioContext.createMediaStreamSource(stream);
             const analyser = audioContext.createAnalyser();
-            analyser.fftSize = 1024; // Increased for better AI resolution (needs ~512+ samples)
+            analyser.fftSize = 1024;
             analyser.smoothingTimeConstant = 0.8;
             source.connect(analyser);
             analyserRef.current = analyser;
+            sourceRef.current = source;
+
+            // Stream 16 kHz windows into YAMNet (volume-only if unavailable)
+            latestFrameRef.current = null;
+            if (isModelLoaded && YamnetFrameStream.isSupported()) {
+                const frameStream = new YamnetFrameStream(handleYamnetFrame);
+                try {
+                    await frameStream.start(audioContext, source);
+                    frameStreamRef.current = frameStream;
+                } catch (err) {
+                    console.warn('⚠️ YAMNet frame stream unavailable, using volume-only detection:', err);
+                }
+            }
 
             // Create MediaRecorder with Safari-compatible MIME type
             const mimeType = getSupportedMimeType();
@@ -287,36 +441,47 @@ export function useAudioRecorder(): AudioRecorderReturn {
             mediaRecorderRef.current = mediaRecorder;
             chunksRef.current = [];
 
+            // Journal chunks to IndexedDB so a crash doesn't lose the session
+            let journal: RecordingJournal | null = null;
+            if (options) {
+                journal = new RecordingJournal({
+                    sessionId: options.sessionId,
+                    userId: options.userId,
+                    mimeType: mediaRecorder.mimeType || mimeType || 'audio/webm'
+                });
+                try {
+                    await journal.start();
+                } catch (err) {
+                    console.warn('⚠️ Recording journal unavailable, recording in memory only:', err);
+                    journal = null;
+                }
+            }
+            journalRef.current = journal;
+
             // Handle data
             mediaRecorder.ondataavailable = (event) => {
                 if (event.data.size > 0) {
                     chunksRef.current.push(event.data);
+                    journal?.appendChunk(event.data);
                 }
             };
 
+            // Reset laugh detection for new session
+            laughCountRef.current = 0;
+            loudStartTimeRef.current = null;
+            lastLaughTimeRef.current = -LAUGH_COOLDOWN;
+            laughEventsRef.current = [];
+            activeLaughRef.current = null;
+            playbackGateRef.current = new PlaybackGate();
+
             // Start recording
             mediaRecorder.start(100); // Collect data every 100ms
             startTimeRef.current = Date.now();
+            segmentStartRef.current = startTimeRef.current;
+            activeTimeRef.current = 0;
 
-            // Start duration timer
-            durationIntervalRef.current = window.setInterval(() => {
-                const elapsed = (Date.now() - startTimeRef.current) / 1000;
-                setState(prev => ({ ...prev, duration: elapsed }));
-            }, 100);
-
-            // Start volume monitoring AND laugh detection
-            volumeIntervalRef.current = window.setInterval(() => {
-                const volume = calculateVolume();
-                setState(prev => ({ ...prev, volume }));
-
-                // V3.0: Hybrid Detection
-                detectLaugh(volume);
-            }, VOLUME_UPDATE_INTERVAL);
-
-            // Reset laugh detection for new session
-            laughCountRef.current = 0;
-            loudStartTimeRef.current = null;
-            lastLaughTimeRef.current = 0;
+            // Start duration timer, volume monitoring AND laugh detection
+            startMonitoring();
 
             setState(prev => ({
                 ...prev,
@@ -325,6 +490,8 @@ export function useAudioRecorder(): AudioRecorderReturn {
                 duration: 0,
                 laughCount: 0,
                 laughProbability: 0,
+                laughEvents: [],
+                inputDeviceFallback: usedFallback,
             }));
 
         } catch (error) {
@@ -332,22 +499,25 @@ export function useAudioRecorder(): AudioRecorderReturn {
             setState(prev => ({ ...prev, error: message }));
             throw error;
         }
-    }, [getAudioContext, calculateVolume, detectLaugh]);
+    }, [getAudioContext, startMonitoring, isModelLoaded, handleYamnetFrame, settings.audio]);
 
     /**
-     * Stop recording and return blob
+     * Stop recording and return blob with the detected laugh timeline
      */
-    const stopRecording = useCallback(async (): Promise<Blob | null> => {
+    const stopRecording = useCallback(async (): Promise<RecordingResult | null> => {
         return new Promise((resolve) => {
             // Clear intervals
-            if (durationIntervalRef.current) {
-                clearInterval(durationIntervalRef.current);
-                durationIntervalRef.current = null;
-            }
-            if (volumeIntervalRef.current) {
-                clearInterval(volumeIntervalRef.current);
-                volumeIntervalRef.current = null;
-            }
+            stopMonitoring();
+
+            // Close the timeline: active time excludes pauses, wall clock doesn't
+            const activeMs = getActiveElapsed();
+            const wallClockMs = Date.now() - startTimeRef.current;
+            activeTimeRef.current = activeMs;
+            segmentStartRef.current = null;
+
+            // Stop YAMNet streaming
+            frameStreamRef.current?.stop();
+            frameStreamRef.current = null;
 
             const mediaRecorder = mediaRecorderRef.current;
 
@@ -363,7 +533,7 @@ export function useAudioRecorder(): AudioRecorderReturn {
                 return;
             }
 
-            mediaRecorder.onstop = () => {
+            mediaRecorder.onstop = async () => {
                 // Create blob from chunks
                 const blob = new Blob(chunksRef.current, {
                     type: mediaRecorder.mimeType || 'audio/webm'
@@ -378,21 +548,42 @@ export function useAudioRecorder(): AudioRecorderReturn {
 
                 // Clean up analyser (but NOT AudioContext - reuse it)
                 analyserRef.current = null;
+                sourceRef.current = null;
+
+                const laughEvents = laughEventsRef.current.map(e => ({ ...e }));
+                activeLaughRef.current = null;
+
+                // Final journal write - the caller clears it once the session is saved
+                const journal = journalRef.current;
+                journalRef.current = null;
+                await journal?.close({
+                    duration: activeMs / 1000,
+                    wallClockDuration: wallClockMs / 1000,
+                    laughCount: laughCountRef.current,
+                    laughEvents,
+                });
 
                 setState(prev => ({
                     ...prev,
                     isRecording: false,
                     isPaused: false,
                     volume: 0,
+                    duration: activeMs / 1000,
                     laughProbability: 0,
+                    laughEvents,
                 }));
 
-                resolve(blob);
+                resolve({
+                    blob,
+                    laughEvents,
+                    duration: activeMs / 1000,
+                    wallClockDuration: wallClockMs / 1000,
+                });
             };
 
             mediaRecorder.stop();
         });
-    }, []);
+    }, [stopMonitoring, getActiveElapsed]);
 
     /**
      * Pause recording
@@ -400,9 +591,28 @@ export function useAudioRecorder(): AudioRecorderReturn {
     const pauseRecording = useCallback((): void => {
         if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
             mediaRecorderRef.current.pause();
-            setState(prev => ({ ...prev, isPaused: true }));
+
+            // Bank active time and stop the clock
+            activeTimeRef.current = getActiveElapsed();
+            segmentStartRef.current = null;
+
+            // No detection while paused - close any laugh in progress
+            stopMonitoring();
+            journalRef.current?.update(getJournalSnapshot());
+            frameStreamRef.current?.stop();
+            latestFrameRef.current = null;
+            loudStartTimeRef.current = null;
+            activeLaughRef.current = null;
+
+            setState(prev => ({
+                ...prev,
+                isPaused: true,
+                duration: activeTimeRef.current / 1000,
+                volume: 0,
+                laughProbability: 0,
+            }));
         }
-    }, []);
+    }, [getActiveElapsed, getJournalSnapshot, stopMonitoring]);
 
     /**
      * Resume recording
@@ -410,9 +620,22 @@ export function useAudioRecorder(): AudioRecorderReturn {
     const resumeRecording = useCallback((): void => {
         if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'paused') {
             mediaRecorderRef.current.resume();
+            segmentStartRef.current = Date.now();
+
+            // Restart YAMNet streaming for the new segment
+            const frameStream = frameStreamRef.current;
+            const audioContext = audioContextRef.current;
+            if (frameStream && audioContext && sourceRef.current) {
+                frameStream.start(audioContext, sourceRef.current).catch(err => {
+                    console.warn('⚠️ YAMNet frame stream failed to resume, using volume-only detection:', err);
+                    frameStreamRef.current = null;
+                });
+            }
+
+            startMonitoring();
             setState(prev => ({ ...prev, isPaused: false }));
         }
-    }, []);
+    }, [startMonitoring]);
 
     /**
      * Cleanup on unmount
@@ -428,6 +651,11 @@ export function useAudioRecorder(): AudioRecorderReturn {
                 clearInterval(volumeIntervalRef.current);
             }
 
+            frameStreamRef.current?.stop();
+
+            // Leave the journal for recovery (e.g. navigated away mid-session)
+            journalRef.current?.close();
+
             // Stop any active recording
             if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
                 mediaRecorderRef.current.stop();
@@ -453,5 +681,6 @@ export function useAudioRecorder(): AudioRecorderReturn {
         pauseRecording,
         resumeRecording,
         getVolume,
+        setPlaybackReference,
     };
 }
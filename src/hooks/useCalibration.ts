@@ -0,0 +1,204 @@
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { useYamnet } from './useYamnet';
+import { YamnetFrameStream } from '../services/audio/YamnetFrameStream';
+import { openMicrophone } from '../lib/audioInput';
+import {
+    computeCalibration,
+    computeVolumeLevel,
+    getCalibrationWarnings,
+    VOLUME_SMOOTHING,
+    type CalibrationSample
+} from '../lib/calibration';
+import type { AudioCalibration, UserSettings } from '../types';
+
+/**
+ * useCalibration Hook
+ *
+ * Drives the calibration wizard: records a few seconds each of ambient
+ * silence, normal speech and deliberate laughs on the selected microphone,
+ * then derives that device's detection thresholds.
+ */
+
+export type CalibrationStep = 'silence' | 'speech' | 'laugh';
+
+export const CALIBRATION_STEPS: CalibrationStep[] = ['silence', 'speech', 'laugh'];
+
+const STEP_DURATION_MS = 5000;
+const SAMPLE_INTERVAL = 100; // ms - matches useAudioRecorder's volume updates
+
+interface CalibrationState {
+    currentStep: CalibrationStep | null;    // Step being recorded
+    progress: number;                       // 0-1 through the current step
+    volume: number;                         // Live level for the meter
+    samples: Partial<Record<CalibrationStep, CalibrationSample>>;
+    error: string | null;
+}
+
+interface CalibrationResult {
+    calibration: AudioCalibration;
+    warnings: string[];
+}
+
+interface CalibrationReturn extends CalibrationState {
+    isRecording: boolean;
+    isModelLoaded: boolean;
+    result: CalibrationResult | null;
+    recordStep: (step: CalibrationStep) => Promise<void>;
+    reset: () => void;
+}
+
+const initialState: CalibrationState = {
+    currentStep: null,
+    progress: 0,
+    volume: 0,
+    samples: {},
+    error: null,
+};
+
+export function useCalibration(audioSettings: UserSettings['audio']): CalibrationReturn {
+    const [state, setState] = useState<CalibrationState>(initialState);
+    const { isModelLoaded } = useYamnet();
+    const isMountedRef = useRef(true);
+    const cleanupRef = useRef<(() => void) | null>(null);
+
+    useEffect(() => {
+        isMountedRef.current = true;
+        return () => {
+            isMountedRef.current = false;
+            cleanupRef.current?.();
+        };
+    }, []);
+
+    const recordStep = useCallback(async (step: CalibrationStep): Promise<void> => {
+        if (cleanupRef.current) return; // Already recording
+
+        setState(prev => ({ ...prev, currentStep: step, progress: 0, error: null }));
+
+        const volumes: number[] = [];
+        const laughterScores: number[] = [];
+        let stream: MediaStream | null = null;
+        let audioContext: AudioContext | null = null;
+        let frameStream: YamnetFrameStream | null = null;
+        let interval: number | null = null;
+        let timeout: number | null = null;
+        let finish: () => void = () => { };
+        let cancelled = false;
+
+        const cleanup = () => {
+            if (interval !== null) clearInterval(interval);
+            if (timeout !== null) clearTimeout(timeout);
+            frameStream?.stop();
+            stream?.getTracks().forEach(track => track.stop());
+            audioContext?.close().catch(() => { });
+            cleanupRef.current = null;
+            finish();
+        };
+        // Called by reset()/unmount while recording - discard this step
+        cleanupRef.current = () => {
+            cancelled = true;
+            cleanup();
+        };
+
+        try {
+            ({ stream } = await openMicrophone(audioSettings));
+            if (cancelled) {
+                stream.getTracks().forEach(track => track.stop());
+                return;
+            }
+
+            audioContext = new AudioContext();
+            if (audioContext.state === 'suspended') {
+                await audioContext.resume();
+            }
+
+            const source = audioContext.createMediaStreamSource(stream);
+            const analyser = audioContext.createAnalyser();
+            analyser.fftSize = 1024;
+            analyser.smoothingTimeConstant = 0.8;
+            source.connect(analyser);
+
+            if (isModelLoaded && YamnetFrameStream.isSupported()) {
+                frameStream = new YamnetFrameStream(frame => laughterScores.push(frame.laughterScore));
+                await frameStream.start(audioContext, source);
+            }
+            if (cancelled) {
+                frameStream?.stop();
+                return;
+            }
+
+            // Sample the same smoothed level useAudioRecorder uses for detection
+            const dataArray = new Uint8Array(analyser.frequencyBinCount);
+            let smoothed = 0;
+            const startedAt = Date.now();
+
+            await new Promise<void>(resolve => {
+                finish = resolve;
+                interval = window.setInterval(() => {
+                    analyser.getByteFrequencyData(dataArray);
+                    smoothed = VOLUME_SMOOTHING * smoothed + (1 - VOLUME_SMOOTHING) * computeVolumeLevel(dataArray);
+                    volumes.push(smoothed);
+
+                    if (isMountedRef.current) {
+                        setState(prev => ({
+                            ...prev,
+                            volume: Math.round(smoothed),
+                            progress: Math.min(1, (Date.now() - startedAt) / STEP_DURATION_MS),
+                        }));
+                    }
+                }, SAMPLE_INTERVAL);
+                timeout = window.setTimeout(resolve, STEP_DURATION_MS);
+            });
+
+            if (cancelled) return;
+            console.log(`🎚️ Calibration step "${step}" recorded (${volumes.length} readings, ${laughterScores.length} AI frames)`);
+
+            if (isMountedRef.current) {
+                setState(prev => ({
+                    ...prev,
+                    currentStep: null,
+                    progress: 0,
+                    volume: 0,
+                    samples: { ...prev.samples, [step]: { volumes, laughterScores } },
+                }));
+            }
+        } catch (error) {
+            console.error('❌ Calibration recording failed:', error);
+            if (isMountedRef.current && !cancelled) {
+                setState(prev => ({
+                    ...prev,
+                    currentStep: null,
+                    progress: 0,
+                    error: error instanceof Error && error.name === 'NotAllowedError'
+                        ? 'Microphone permission denied. Allow microphone access to calibrate.'
+                        : 'Could not record from the microphone. Please try again.',
+                }));
+            }
+        } finally {
+            finish = () => { };
+            if (!cancelled) cleanup();
+        }
+    }, [audioSettings, isModelLoaded]);
+
+    const reset = useCallback(() => {
+        cleanupRef.current?.();
+        setState(initialState);
+    }, []);
+
+    const result = useMemo((): CalibrationResult | null => {
+        const { silence, speech, laugh } = state.samples;
+        if (!silence || !speech || !laugh) return null;
+
+        const input = { silence, speech, laugh };
+        const calibration = computeCalibration(input);
+        return { calibration, warnings: getCalibrationWarnings(input, calibration) };
+    }, [state.samples]);
+
+    return {
+        ...state,
+        isRecording: state.currentStep !== null,
+        isModelLoaded,
+        result,
+        recordStep,
+        reset,
+    };
+}
@@ -0,0 +1,188 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, DEMO_MODE } from '../lib/supabase';
+import { getLaughClips, saveLaughClip } from '../lib/db';
+import type { AnonymizationStep, ClipApprovalStatus } from '../types';
+
+export interface ModerationClip {
+    id: string;
+    storage_path: string;
+    duration: number;                   // milliseconds
+    yamnet_score: number;
+    created_at: string;
+    approval_status: ClipApprovalStatus;
+    rejection_reason: string | null;
+    anonymization: AnonymizationStep[];
+    loudness_lufs: number | null;
+    audioUrl: string | null;            // Signed URL, or object URL for local clips
+}
+
+export type ReviewDecision = Exclude<ClipApprovalStatus, 'pending'>;
+
+interface UseClipModerationReturn {
+    clips: ModerationClip[];
+    loading: boolean;
+    error: string | null;
+    review: (ids: string[], decision: ReviewDecision, reason?: string) => Promise<boolean>;
+    refresh: () => void;
+}
+
+const QUEUE_LIMIT = 200;
+const SIGNED_URL_TTL = 3600; // seconds
+
+// Review queue order (matches idx_laugh_clips_pending_review): best first, then newest
+const byQueueOrder = (a: ModerationClip, b: ModerationClip) =>
+    b.yamnet_score - a.yamnet_score || b.created_at.localeCompare(a.created_at);
+
+/**
+ * Hook backing the clip moderation console
+ *
+ * Lists `laugh_clips` with the given approval status and applies review
+ * decisions (reviewer, time and the reject/flag reason are recorded). Uses
+ * Supabase, or the local `laugh_clips` store in demo mode.
+ */
+export function useClipModeration(status: ClipApprovalStatus, reviewerId: string | undefined): UseClipModerationReturn {
+    const [clips, setClips] = useState<ModerationClip[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [reloadToken, setReloadToken] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        const objectUrls: string[] = [];
+
+        const fetchClips = async () => {
+            setLoading(true);
+            setError(null);
+
+            try {
+                if (DEMO_MODE) {
+                    const localClips = await getLaughClips();
+                    if (cancelled) return;
+
+                    setClips(localClips
+                        .filter(clip => (clip.approval_status ?? 'pending') === status)
+                        .map(clip => {
+                            const audioUrl = URL.createObjectURL(clip.blob);
+                            objectUrls.push(audioUrl);
+                            return {
+                                id: clip.id,
+                                storage_path: clip.storage_path,
+                                duration: clip.duration,
+                                yamnet_score: clip.yamnet_score,
+                                created_at: new Date(clip.created_at).toISOString(),
+                                approval_status: clip.approval_status ?? 'pending',
+                                rejection_reason: clip.rejection_reason ?? null,
+                                anonymization: clip.anonymization ?? [],
+                                loudness_lufs: clip.loudness_lufs ?? null,
+                                audioUrl
+                            };
+                        })
+                        .sort(byQueueOrder)
+                        .slice(0, QUEUE_LIMIT));
+                    return;
+                }
+
+                const { data, error } = await supabase
+                    .from('laugh_clips')
+                    .select('id, storage_path, duration, yamnet_score, created_at, approval_status, rejection_reason, anonymization, loudness_lufs')
+                    .eq('approval_status', status)
+                    .order('yamnet_score', { ascending: false })
+                    .order('created_at', { ascending: false })
+                    .limit(QUEUE_LIMIT);
+
+                if (error) throw error;
+                const rows = data || [];
+
+                // One round trip for every clip's playback URL
+                const signedUrls = new Map<string, string>();
+                if (rows.length > 0) {
+                    const { data: urls, error: urlError } = await supabase.storage
+                        .from('laugh-starter-clips')
+                        .createSignedUrls(rows.map(row => row.storage_path), SIGNED_URL_TTL);
+                    if (urlError) console.warn('⚠️ Could not sign clip URLs:', urlError);
+                    for (const url of urls || []) {
+                        if (url.path && url.signedUrl) signedUrls.set(url.path, url.signedUrl);
+                    }
+                }
+
+                if (cancelled) return;
+                setClips(rows.map(row => ({
+                    ...row,
+                    anonymization: row.anonymization ?? [],
+                    audioUrl: signedUrls.get(row.storage_path) ?? null
+                })));
+            } catch (err) {
+                console.error('❌ Failed to load moderation queue:', err);
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load clips');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        fetchClips();
+
+        return () => {
+            cancelled = true;
+            objectUrls.forEach(url => URL.revokeObjectURL(url));
+        };
+    }, [status, reloadToken]);
+
+    const refresh = useCallback(() => setReloadToken(token => token + 1), []);
+
+    /**
+     * Approve, reject or flag clips; reviewed clips leave the current list
+     */
+    const review = useCallback(async (ids: string[], decision: ReviewDecision, reason?: string): Promise<boolean> => {
+        if (ids.length === 0) return true;
+        setError(null);
+
+        // Why a clip was rejected or flagged; approving clears it
+        const rejectionReason = decision === 'approved' ? null : (reason?.trim() || null);
+
+        try {
+            if (DEMO_MODE) {
+                const idSet = new Set(ids);
+                const localClips = (await getLaughClips()).filter(clip => idSet.has(clip.id));
+                for (const clip of localClips) {
+                    await saveLaughClip({
+                        ...clip,
+                        approval_status: decision,
+                        reviewed_by: reviewerId ?? null,
+                        reviewed_at: Date.now(),
+                        rejection_reason: rejectionReason
+                    });
+                }
+            } else {
+                const { data, error } = await supabase
+                    .from('laugh_clips')
+                    .update({
+                        approval_status: decision,
+                        reviewed_by: reviewerId ?? null,
+                        reviewed_at: new Date().toISOString(),
+                        rejection_reason: rejectionReason
+                    })
+                    .in('id', ids)
+                    .select('id');
+
+                if (error) throw error;
+                // RLS silently skips rows the reviewer may not update
+                if ((data?.length ?? 0) < ids.length) {
+                    throw new Error(`Only ${data?.length ?? 0} of ${ids.length} clips could be updated - check your moderator role`);
+                }
+            }
+
+            console.log(`🛡️ Marked ${ids.length} clip(s) as ${decision}`);
+            if (decision !== status) {
+                const idSet = new Set(ids);
+                setClips(prev => prev.filter(clip => !idSet.has(clip.id)));
+            }
+            return true;
+        } catch (err) {
+            console.error('❌ Failed to review clips:', err);
+            setError(err instanceof Error ? err.message : 'Failed to update clips');
+            return false;
+        }
+    }, [status, reviewerId]);
+
+    return { clips, loading, error, review, refresh };
+}
@@ -0,0 +1,77 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { useLaughStarter } from './useLaughStarter';
+import { ClipQueuePlayer, type TransitionOptions } from '../services/audio/ClipQueuePlayer';
+
+interface UseLaughAlongOptions {
+    enabled: boolean;
+    playing: boolean;   // Follows the session: plays only while recording
+    volume: number;     // 0-1
+}
+
+interface UseLaughAlongReturn {
+    isPlaying: boolean;
+    isLoading: boolean;
+    error: string | null;
+    getAnalyser: () => AnalyserNode | null;    // Echo reference for laugh detection
+}
+
+const MIX_SIZE = 10;
+
+// Pauses between clips leave room to laugh into
+const LAUGH_ALONG_TRANSITION: TransitionOptions = { gapMs: 1500, crossfadeMs: 0 };
+
+/**
+ * Hook for the "laugh along" background track
+ *
+ * Loops a mix of approved clips (picked like Laugh Starter's) at low
+ * volume during a session. Plays aren't counted as clip engagement - the
+ * track runs in the background, nobody chose to listen. The output
+ * analyser is exposed so the recorder can keep these laughs out of
+ * detection (see PlaybackGate).
+ */
+export function useLaughAlong({ enabled, playing, volume }: UseLaughAlongOptions): UseLaughAlongReturn {
+    const { clips, isLoading, error, fetchClips } = useLaughStarter();
+    const [player] = useState(() => {
+        const queue = new ClipQueuePlayer(LAUGH_ALONG_TRANSITION, volume);
+        queue.setLoop(true);
+        return queue;
+    });
+    const state = useSyncExternalStore(player.subscribe, player.getState);
+
+    const clipUrls = useMemo(() => clips.map(clip => clip.signedUrl || '').filter(Boolean), [clips]);
+    const isReady = state.status !== 'idle' && state.status !== 'loading';
+
+    // Release the audio device on unmount
+    useEffect(() => () => player.dispose(), [player]);
+
+    // New mix whenever the mode is switched on
+    useEffect(() => {
+        if (enabled) fetchClips(MIX_SIZE);
+    }, [enabled, fetchClips]);
+
+    useEffect(() => {
+        if (clipUrls.length > 0) player.load(clipUrls);
+    }, [player, clipUrls]);
+
+    useEffect(() => {
+        player.setVolume(volume);
+    }, [player, volume]);
+
+    useEffect(() => {
+        if (!enabled || !playing || !isReady) {
+            player.pause();
+            return;
+        }
+
+        player.play().then(started => {
+            if (!started) console.warn('⚠️ Laugh-along track blocked by the browser');
+        });
+    }, [player, enabled, playing, isReady]);
+
+    return {
+        isPlaying: state.status === 'playing',
+        isLoading,
+        error,
+        getAnalyser: player.getAnalyser
+    };
+}
@@ -1,5 +1,8 @@
-import { useState, useCallback } from 'react';
-import { supabase, DEMO_MODE } from '../lib/supabase';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { DEMO_MODE } from '../lib/supabase';
+import { ClipRepository } from '../services/clips/ClipRepository';
+import { EngagementQueue } from '../services/clips/EngagementQueue';
+import { createRandom, DEFAULT_STRATEGY, type RecommenderStrategy } from '../services/clips/recommender';
 
 interface LaughClip {
     id: string;
@@ -7,6 +10,12 @@ interface LaughClip {
     duration: number;
     yamnet_score: number;
     signedUrl?: string;
+    reasons?: string[];     // Why the recommender picked it (debugging)
+}
+
+interface UseLaughStarterOptions {
+    strategy?: RecommenderStrategy;
+    seed?: number;          // Reproducible picks
 }
 
 interface UseLaughStarterReturn {
@@ -22,35 +31,40 @@ interface UseLaughStarterReturn {
  * Hook to manage Laugh Starter clips
  * 
  * Features:
- * - Fetches random approved clips weighted by play_count
+ * - Fetches approved clips (community library via ClipRepository, cached
+ *   for offline use), picked by a pluggable recommender strategy
  * - Generates signed URLs for Supabase Storage
- * - Tracks analytics (play counts)
+ * - Tracks analytics (play counts, via EngagementQueue)
  * - Demo mode support (uses local mock data)
  */
-export function useLaughStarter(): UseLaughStarterReturn {
+export function useLaughStarter({ strategy = DEFAULT_STRATEGY, seed }: UseLaughStarterOptions = {}): UseLaughStarterReturn {
     const [clips, setClips] = useState<LaughClip[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
+    // Object URLs handed out for cached audio, revoked on the next fetch
+    const objectUrlsRef = useRef<string[]>([]);
+
+    useEffect(() => () => {
+        objectUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    }, []);
+
     /**
-     * Fetch random approved clips
-     * Algorithm: Weighted random selection favoring less-played clips
+     * Fetch approved clips chosen by the recommender
+     * Default: weighted random, spread across contributors and styles
      */
     const fetchClips = useCallback(async (count: number = 5) => {
         setIsLoading(true);
         setError(null);
 
         try {
-            // Always use Local DB for Phase 12 (Personalization)
-            const { getLaughClips, getAllInteractions } = await import('../lib/db');
-            const [allClips, interactions] = await Promise.all([
-                getLaughClips(),
+            const { getAllInteractions } = await import('../lib/db');
+            const repository = ClipRepository.getInstance();
+            const [approvedClips, interactions] = await Promise.all([
+                repository.getApprovedClips(),
                 getAllInteractions()
             ]);
 
-            // 1. Filter for approved clips
-            const approvedClips = allClips.filter(c => c.approval_status === 'approved');
-
             if (approvedClips.length === 0) {
                 // Fallback to mock if empty
                 if (DEMO_MODE) {
@@ -63,62 +77,42 @@ export function useLaughStarter(): UseLaughStarterReturn {
                     setIsLoading(false);
                     return;
                 }
-                setError('No approved clips available yet.');
+                setError(navigator.onLine
+                    ? 'No approved clips available yet.'
+                    : 'You\'re offline and no laugh clips are saved on this device yet.');
                 setClips([]);
                 setIsLoading(false);
                 return;
             }
 
-            // 2. Calculate Weights
-            const now = Date.now();
-            const weightedClips = approvedClips.map(clip => {
-                const interaction = interactions.find(i => i.clip_id === clip.id);
-                let weight = 1.0;
-
-                // Boosts
-                if (interaction?.liked) weight += 2.0;
-                if (clip.yamnet_score > 0.9) weight += 1.5;
-
-                // Penalties
-                if (interaction?.skipped_count && interaction.skipped_count > 2) weight -= 2.0;
-
-                // Cool Down (Played in last hour)
-                if (interaction?.last_played_at && (now - interaction.last_played_at) < 3600000) {
-                    weight -= 5.0;
-                }
-
-                return { ...clip, weight: Math.max(0.1, weight) }; // Min weight 0.1
+            // 1. Pick clips (strategy explains each choice)
+            const interactionsById = new Map(interactions.map(i => [i.clip_id, i]));
+            const candidates = approvedClips.map(clip => ({ ...clip, history: interactionsById.get(clip.id) }));
+            const recommendations = strategy.recommend(candidates, count, {
+                now: Date.now(),
+                random: seed !== undefined ? createRandom(seed) : Math.random
             });
 
-            // 3. Weighted Random Selection
-            const selected: LaughClip[] = [];
-            const pool = [...weightedClips];
-
-            for (let i = 0; i < count; i++) {
-                if (pool.length === 0) break;
-
-                const totalWeight = pool.reduce((sum, c) => sum + c.weight, 0);
-                let random = Math.random() * totalWeight;
-
-                const index = pool.findIndex(c => {
-                    random -= c.weight;
-                    return random <= 0;
-                });
-
-                if (index !== -1) {
-                    const chosen = pool[index];
-                    selected.push({
-                        id: chosen.id,
-                        storage_path: chosen.storage_path,
-                        duration: chosen.duration,
-                        yamnet_score: chosen.yamnet_score,
-                        signedUrl: URL.createObjectURL(chosen.blob)
-                    });
-                    pool.splice(index, 1); // Remove to avoid duplicates in this batch
-                }
+            for (const { clip, reasons } of recommendations) {
+                console.log(`🎯 Laugh Starter (${strategy.name}) picked ${clip.id}: ${reasons.join('; ')}`);
             }
-
-            setClips(selected);
+            const chosen = recommendations.map(recommendation => recommendation.clip);
+
+            // 2. Playback URLs (cached audio or signed URL)
+            objectUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+            const urls = await Promise.all(chosen.map(clip => repository.getPlaybackUrl(clip)));
+            objectUrlsRef.current = urls.filter((url): url is string => !!url?.startsWith('blob:'));
+
+            setClips(chosen
+                .map((clip, i) => ({
+                    id: clip.id,
+                    storage_path: clip.storage_path,
+                    duration: clip.duration,
+                    yamnet_score: clip.yamnet_score,
+                    signedUrl: urls[i] ?? undefined,
+                    reasons: recommendations[i].reasons
+                }))
+                .filter(clip => clip.signedUrl));
 
         } catch (err) {
             const message = err instanceof Error ? err.message : 'Failed to load laugh clips';
@@ -127,61 +121,25 @@ export function useLaughStarter(): UseLaughStarterReturn {
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [strategy, seed]);
 
     /**
      * Generate a signed URL for a storage path
      * Required for private buckets, but also works for public
      */
-    const getSignedUrl = useCallback(async (storagePath: string): Promise<string | null> => {
-        try {
-            if (DEMO_MODE) {
-                return storagePath; // Demo mode uses direct paths
-            }
-
-            const { data, error } = await supabase.storage
-                .from('laugh-starter-clips')
-                .createSignedUrl(storagePath, 3600); // Valid for 1 hour
-
-            if (error) throw error;
-            return data.signedUrl;
-
-        } catch (err) {
-            console.error('❌ Failed to generate signed URL:', err);
-            return null;
-        }
-    }, []);
+    const getSignedUrl = useCallback(
+        (storagePath: string) => ClipRepository.getInstance().getSignedUrl(storagePath),
+        []
+    );
 
     /**
-     * Increment play count for analytics
-     * Fired when a clip finishes playing
+     * Count a play for analytics
+     * Queued and sent in batches (atomic increment on the server)
      */
-    const incrementPlayCount = useCallback(async (clipId: string) => {
-        if (DEMO_MODE) return; // Skip in demo mode
-
-        try {
-            // Fetch current count
-            const { data: currentData } = await supabase
-                .from('laugh_clips')
-                .select('play_count')
-                .eq('id', clipId)
-                .single();
-
-            if (!currentData) return;
-
-            // Increment
-            const { error } = await supabase
-                .from('laugh_clips')
-                .update({ play_count: (currentData.play_count || 0) + 1 })
-                .eq('id', clipId);
-
-            if (error) throw error;
-
-        } catch (err) {
-            console.error('❌ Failed to increment play count:', err);
-            // Non-critical error, don't show user
-        }
-    }, []);
+    const incrementPlayCount = useCallback(
+        (clipId: string) => EngagementQueue.getInstance().record(clipId, 'play'),
+        []
+    );
 
     return {
         clips,
@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DEMO_MODE } from '../lib/supabase';
+import { findOrphanedRecordings, recoverRecording, discardRecording } from '../services/recording/RecordingJournal';
+import type { ActiveRecording } from '../lib/db';
+
+interface UseRecordingRecoveryReturn {
+    orphans: ActiveRecording[];
+    recover: (sessionId: string) => Promise<void>;
+    discard: (sessionId: string) => Promise<void>;
+}
+
+/**
+ * Hook finding recordings interrupted by a crash or navigation
+ *
+ * Checks once on mount for the signed-in user's orphaned recording
+ * journals and lets the UI recover (save + sync) or discard each one.
+ */
+export function useRecordingRecovery(userId: string | undefined): UseRecordingRecoveryReturn {
+    const [orphans, setOrphans] = useState<ActiveRecording[]>([]);
+
+    useEffect(() => {
+        if (!userId) return;
+
+        let cancelled = false;
+        findOrphanedRecordings()
+            .then(recordings => {
+                if (cancelled) return;
+                // The demo user gets a new id every launch - everything local is theirs
+                setOrphans(DEMO_MODE ? recordings : recordings.filter(recording => recording.userId === userId));
+            })
+            .catch(err => console.error('❌ Failed to check for interrupted recordings:', err));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [userId]);
+
+    const recover = useCallback(async (sessionId: string) => {
+        const recording = orphans.find(orphan => orphan.sessionId === sessionId);
+        if (!recording) return;
+
+        await recoverRecording(recording);
+        setOrphans(prev => prev.filter(orphan => orphan.sessionId !== sessionId));
+    }, [orphans]);
+
+    const discard = useCallback(async (sessionId: string) => {
+        await discardRecording(sessionId);
+        setOrphans(prev => prev.filter(orphan => orphan.sessionId !== sessionId));
+    }, []);
+
+    return { orphans, recover, discard };
+}
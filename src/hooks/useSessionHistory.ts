@@ -0,0 +1,79 @@
+import { useState, useEffect } from 'react';
+import { supabase, DEMO_MODE } from '../lib/supabase';
+import { getPendingUploads, type PendingUpload } from '../lib/db';
+
+export interface SessionSummary {
+    id: string;
+    created_at: string;
+    duration: number;                     // seconds of active recording
+    wall_clock_duration: number | null;   // seconds including pauses
+    laugh_count: number;
+    isLocal: boolean;                     // Recording lives in IndexedDB, not Supabase
+}
+
+/**
+ * Session summary for a locally stored recording (`pending_uploads`)
+ */
+export function toLocalSessionSummary(upload: PendingUpload): SessionSummary {
+    return {
+        id: upload.id,
+        created_at: new Date(upload.metadata.timestamp).toISOString(),
+        duration: upload.metadata.duration,
+        wall_clock_duration: upload.metadata.wallClockDuration ?? null,
+        laugh_count: upload.metadata.laughCount ?? 0,
+        isLocal: true
+    };
+}
+
+/**
+ * Hook listing the user's past sessions, newest first
+ *
+ * Reads Supabase `sessions`, or the local `pending_uploads` history in
+ * demo mode.
+ */
+export function useSessionHistory(userId: string | undefined) {
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!userId) return;
+
+        let cancelled = false;
+
+        const fetchSessions = async () => {
+            try {
+                if (DEMO_MODE) {
+                    const uploads = await getPendingUploads();
+                    if (cancelled) return;
+                    setSessions(uploads
+                        .map(toLocalSessionSummary)
+                        .sort((a, b) => b.created_at.localeCompare(a.created_at)));
+                    return;
+                }
+
+                const { data, error } = await supabase
+                    .from('sessions')
+                    .select('id, created_at, duration, wall_clock_duration, laugh_count')
+                    .eq('user_id', userId)
+                    .order('created_at', { ascending: false });
+
+                if (error) throw error;
+                if (cancelled) return;
+                setSessions((data || []).map(session => ({ ...session, isLocal: false })));
+            } catch (err) {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load sessions');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        fetchSessions();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [userId]);
+
+    return { sessions, loading, error };
+}
@@ -1,7 +1,10 @@
 import { useState, useCallback } from 'react';
 import { useAudioRecorder } from './useAudioRecorder';
-import { supabase, DEMO_MODE } from '../lib/supabase';
-import { savePendingUpload } from '../lib/db';
+import { DEMO_MODE } from '../lib/supabase';
+import { savePendingUpload, type PendingUpload, type PendingUploadProgress } from '../lib/db';
+import { SyncService, uploadSession } from '../services/sync/SyncService';
+import { discardRecording } from '../services/recording/RecordingJournal';
+import type { LaughEvent } from '../types';
 
 // Fallback UUID generator for Safari/HTTP (crypto.randomUUID not available)
 function generateUUID(): string {
@@ -24,16 +27,40 @@ function generateUUID(): string {
     });
 }
 
+// Everything the post-session flow (e.g. ShareLaughDialog) needs
+export interface CompletedSession {
+    sessionId: string;
+    blob: Blob;
+    laughEvents: LaughEvent[];
+    laughCount: number;
+    duration: number;     // seconds of active recording (excludes pauses)
+    yamnetScore?: number; // Mean AI laughter probability, undefined if volume-only
+}
+
 interface SessionState {
     sessionId: string | null;
     status: 'idle' | 'recording' | 'paused' | 'uploading' | 'completed' | 'error' | 'offline_saved';
     error: string | null;
+    completedSession: CompletedSession | null;
+}
+
+/**
+ * Aggregate YAMNet score for a session
+ * Averages the peak probability of AI-confirmed laughs (volume-only laughs report 0)
+ */
+function getSessionYamnetScore(laughEvents: LaughEvent[]): number | undefined {
+    const scored = laughEvents.filter(e => e.probability > 0);
+    if (scored.length === 0) return undefined;
+    return scored.reduce((sum, e) => sum + e.probability, 0) / scored.length;
 }
 
 interface SessionManagerReturn extends SessionState {
     audioDuration: number;
     audioVolume: number;
     laughCount: number;
+    laughEvents: LaughEvent[];
+    inputDeviceFallback: boolean;
+    setPlaybackReference: (getAnalyser: (() => AnalyserNode | null) | null) => void;
     startSession: (userId: string) => Promise<void>;
     pauseSession: () => void;
     resumeSession: () => void;
@@ -46,13 +73,20 @@ export function useSessionManager(): SessionManagerReturn {
         sessionId: null,
         status: 'idle',
         error: null,
+        completedSession: null,
     });
 
-    const startSession = useCallback(async (_userId: string) => {
+    const startSession = useCallback(async (userId: string) => {
         try {
             const newSessionId = generateUUID();
-            setState(prev => ({ ...prev, status: 'recording', sessionId: newSessionId, error: null }));
-            await recorder.startRecording();
+            setState(prev => ({
+                ...prev,
+                status: 'recording',
+                sessionId: newSessionId,
+                error: null,
+                completedSession: null
+            }));
+            await recorder.startRecording({ sessionId: newSessionId, userId });
         } catch (err: any) {
             setState(prev => ({ ...prev, status: 'error', error: err.message }));
         }
@@ -73,98 +107,112 @@ export function useSessionManager(): SessionManagerReturn {
 
         setState(prev => ({ ...prev, status: 'uploading' }));
 
+        const sessionId = state.sessionId;
         let blob: Blob | null = null;
+        let laughEvents: LaughEvent[] = [];
+        let duration = 0;           // Active seconds - what laughs/minute is based on
+        let wallClockDuration = 0;  // Start to stop, including pauses
+        const timestamp = Date.now();
+        const progress: PendingUploadProgress = {};
+
+        // Saved (uploaded or queued) - the crash recovery journal is no longer needed
+        const clearJournal = () => {
+            discardRecording(sessionId).catch(err => console.warn('⚠️ Failed to clear recording journal:', err));
+        };
+
+        // Keep the final recording around for the post-session share flow
+        const buildCompletedSession = (recordingBlob: Blob): CompletedSession => ({
+            sessionId,
+            blob: recordingBlob,
+            laughEvents,
+            laughCount: recorder.laughCount,
+            duration,
+            yamnetScore: getSessionYamnetScore(laughEvents)
+        });
 
         try {
-            blob = await recorder.stopRecording();
-            if (!blob) throw new Error('No recording data available');
+            const recording = await recorder.stopRecording();
+            if (!recording) throw new Error('No recording data available');
+            const recordingBlob = recording.blob;
+            blob = recordingBlob;
+            laughEvents = recording.laughEvents;
+            duration = recording.duration;
+            wallClockDuration = recording.wallClockDuration;
 
             // DEMO MODE: Skip Supabase, save locally only
             if (DEMO_MODE) {
                 console.log('🎭 Demo mode: Saving session locally');
-                console.log(`   Duration: ${recorder.duration.toFixed(1)}s`);
+                console.log(`   Duration: ${duration.toFixed(1)}s active (${wallClockDuration.toFixed(1)}s wall clock)`);
                 console.log(`   Laughs: ${recorder.laughCount}`);
 
                 // Save to IndexedDB for demo
                 await savePendingUpload({
-                    id: state.sessionId,
+                    id: sessionId,
                     blob: blob,
                     metadata: {
-                        duration: recorder.duration,
+                        duration,
+                        wallClockDuration,
                         timestamp: Date.now(),
                         userId: userId,
                         mimeType: blob.type,
-                        laughCount: recorder.laughCount
+                        laughCount: recorder.laughCount,
+                        laughEvents: laughEvents
                     },
                     created_at: Date.now()
                 });
 
-                setState(prev => ({ ...prev, status: 'completed' }));
+                clearJournal();
+                setState(prev => ({ ...prev, status: 'completed', completedSession: buildCompletedSession(recordingBlob) }));
                 return;
             }
 
             // REAL MODE: Upload to Supabase
-            const timestamp = Date.now();
-            const mimeType = blob.type;
-            const extension = mimeType.includes('mp4') ? 'mp4' : 'webm';
-            const filename = `${timestamp}_recording.${extension}`;
-            const storagePath = `audio-recordings/${userId}/${state.sessionId}/${filename}`;
-
-            const { error: uploadError } = await supabase.storage
-                .from('audio-recordings')
-                .upload(storagePath, blob, {
-                    contentType: mimeType,
-                    cacheControl: '3600',
-                    upsert: false
-                });
-
-            if (uploadError) throw uploadError;
-
-            const { error: sessionError } = await supabase
-                .from('sessions')
-                .insert({
-                    id: state.sessionId,
-                    user_id: userId,
-                    duration: Math.round(recorder.duration),
-                    laugh_count: recorder.laughCount
-                });
-
-            if (sessionError) throw sessionError;
-
-            const { error: recordingError } = await supabase
-                .from('recordings')
-                .insert({
-                    session_id: state.sessionId,
-                    storage_path: storagePath,
-                    duration: Math.round(recorder.duration),
-                    mime_type: mimeType
-                });
-
-            if (recordingError) throw recordingError;
-
-            setState(prev => ({ ...prev, status: 'completed' }));
+            await uploadSession({
+                sessionId: sessionId,
+                userId: userId,
+                blob: blob,
+                duration,
+                wallClockDuration,
+                laughCount: recorder.laughCount,
+                laughEvents: laughEvents,
+                timestamp: timestamp
+            }, progress);
+
+            clearJournal();
+            setState(prev => ({ ...prev, status: 'completed', completedSession: buildCompletedSession(recordingBlob) }));
 
         } catch (err: any) {
             console.error('Session upload failed:', err);
 
-            // Offline Backup
-            if (blob && state.sessionId) {
+            // Offline Backup - SyncService retries it in the background
+            if (blob) {
+                const completedSession = buildCompletedSession(blob);
                 try {
-                    await savePendingUpload({
-                        id: state.sessionId,
+                    const pendingUpload: PendingUpload = {
+                        id: sessionId,
                         blob: blob,
                         metadata: {
-                            duration: recorder.duration,
-                            timestamp: Date.now(),
+                            duration,
+                            wallClockDuration,
+                            timestamp: timestamp,
                             userId: userId,
-                            mimeType: blob.type
+                            mimeType: blob.type,
+                            laughCount: recorder.laughCount,
+                            laughEvents: laughEvents
                         },
-                        created_at: Date.now()
-                    });
+                        created_at: Date.now(),
+                        progress: progress,
+                        attempts: 1,
+                        last_error: err.message
+                    };
+                    await savePendingUpload(pendingUpload);
+                    SyncService.getInstance().track(pendingUpload);
+                    clearJournal();
                     setState(prev => ({
                         ...prev,
                         status: 'offline_saved',
-                        error: 'Upload failed. Saved to device.'
+                        error: 'Upload failed. Saved to device.',
+                        completedSession
                     }));
                     return;
                 } catch (backupErr) {
@@ -182,6 +230,9 @@ export function useSessionManager(): SessionManagerReturn {
         audioDuration: recorder.duration,
         audioVolume: recorder.volume,
         laughCount: recorder.laughCount,
+        laughEvents: recorder.laughEvents,
+        inputDeviceFallback: recorder.inputDeviceFallback,
+        setPlaybackReference: recorder.setPlaybackReference,
         startSession,
         pauseSession,
         resumeSession,
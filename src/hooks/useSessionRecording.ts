@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react';
+import { supabase, DEMO_MODE } from '../lib/supabase';
+import { getPendingUpload } from '../lib/db';
+import { toLocalSessionSummary, type SessionSummary } from './useSessionHistory';
+import type { LaughEvent } from '../types';
+
+export interface SessionRecording {
+    session: SessionSummary;
+    laughEvents: LaughEvent[];
+    audioUrl: string | null;    // Signed URL or object URL, null if the audio is missing
+    audioBlob: Blob | null;     // Local recordings only
+}
+
+// Long enough to listen through a session without the URL expiring
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+/**
+ * Hook loading one session with its recording and laugh timeline
+ *
+ * Sessions still on this device (demo mode, or not yet synced) play from
+ * the local blob; synced sessions play through a signed storage URL.
+ * Without a session id nothing loads (`recording` stays null).
+ */
+export function useSessionRecording(sessionId: string | undefined) {
+    const [recording, setRecording] = useState<SessionRecording | null>(null);
+    const [loading, setLoading] = useState(sessionId !== undefined);
+    const [error, setError] = useState<string | null>(null);
+    const [loadedId, setLoadedId] = useState(sessionId);
+
+    // Another session - never show the previous one's audio or error meanwhile
+    if (loadedId !== sessionId) {
+        setLoadedId(sessionId);
+        setRecording(null);
+        setError(null);
+        setLoading(sessionId !== undefined);
+    }
+
+    useEffect(() => {
+        if (!sessionId) return;
+
+        let cancelled = false;
+        let objectUrl: string | null = null;
+
+        const load = async () => {
+            try {
+                // Local copy first - covers demo mode and sessions waiting to sync
+                const upload = await getPendingUpload(sessionId);
+                if (upload) {
+                    objectUrl = URL.createObjectURL(upload.blob);
+                    if (cancelled) return;
+                    setRecording({
+                        session: toLocalSessionSummary(upload),
+                        laughEvents: upload.metadata.laughEvents ?? [],
+                        audioUrl: objectUrl,
+                        audioBlob: upload.blob
+                    });
+                    return;
+                }
+
+                if (DEMO_MODE) throw new Error('Session not found on this device');
+
+                const { data, error } = await supabase
+                    .from('sessions')
+                    .select('id, created_at, duration, wall_clock_duration, laugh_count, laugh_events, recordings(storage_path)')
+                    .eq('id', sessionId)
+                    .single();
+
+                if (error) throw error;
+
+                const storagePath: string | undefined = data.recordings?.[0]?.storage_path;
+                let audioUrl: string | null = null;
+                if (storagePath) {
+                    const { data: signed, error: signError } = await supabase.storage
+                        .from('audio-recordings')
+                        .createSignedUrl(storagePath, SIGNED_URL_TTL_SECONDS);
+                    if (signError) throw signError;
+                    audioUrl = signed.signedUrl;
+                }
+
+                if (cancelled) return;
+                setRecording({
+                    session: {
+                        id: data.id,
+                        created_at: data.created_at,
+                        duration: data.duration,
+                        wall_clock_duration: data.wall_clock_duration,
+                        laugh_count: data.laugh_count,
+                        isLocal: false
+                    },
+                    laughEvents: data.laugh_events ?? [],
+                    audioUrl,
+                    audioBlob: null
+                });
+            } catch (err) {
+                console.error('❌ Failed to load session:', err);
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load session');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        load();
+
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [sessionId]);
+
+    return { recording, loading, error };
+}
@@ -0,0 +1,35 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SyncService, type SyncQueueItem } from '../services/sync/SyncService';
+
+interface UseSyncQueueReturn {
+    items: SyncQueueItem[];
+    pendingCount: number;
+    isSyncing: boolean;
+    syncNow: () => Promise<void>;
+    retry: (id: string) => Promise<void>;
+}
+
+/**
+ * Hook exposing the background sync queue for UI
+ *
+ * Subscribes to SyncService so components can render per-session
+ * upload status (queued, syncing, retrying, synced, failed).
+ */
+export function useSyncQueue(): UseSyncQueueReturn {
+    const [items, setItems] = useState<SyncQueueItem[]>([]);
+
+    useEffect(() => {
+        return SyncService.getInstance().subscribe(setItems);
+    }, []);
+
+    const syncNow = useCallback(() => SyncService.getInstance().syncNow(), []);
+    const retry = useCallback((id: string) => SyncService.getInstance().retry(id), []);
+
+    return {
+        items,
+        pendingCount: items.filter(item => item.status !== 'synced').length,
+        isSyncing: items.some(item => item.status === 'syncing'),
+        syncNow,
+        retry
+    };
+}
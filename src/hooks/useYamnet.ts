@@ -1,35 +1,38 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { YamnetService } from '../services/audio/YamnetService';
+import type { YamnetModelStatus } from '../services/audio/yamnetWorkerProtocol';
 
 export function useYamnet() {
-    const [isModelLoaded, setIsModelLoaded] = useState(false);
-    const [laughProbability, setLaughProbability] = useState(0);
+    const [modelStatus, setModelStatus] = useState<YamnetModelStatus>(() => YamnetService.getInstance().getStatus());
     const yamnetService = useRef(YamnetService.getInstance());
+    const isMountedRef = useRef(true);
 
     useEffect(() => {
+        isMountedRef.current = true;
+
+        // Model loads in the worker - this only awaits the result
         const load = async () => {
             try {
                 await yamnetService.current.loadModel();
-                setIsModelLoaded(true);
             } catch (error) {
                 console.error('Failed to load YAMNet model', error);
+            } finally {
+                if (isMountedRef.current) {
+                    setModelStatus(yamnetService.current.getStatus());
+                }
             }
         };
         load();
-    }, []);
 
-    const analyzeAudio = useCallback(async (audioData: Float32Array) => {
-        if (!isModelLoaded) return 0;
+        return () => {
+            isMountedRef.current = false;
+        };
+    }, []);
 
-        // Run inference
-        const score = await yamnetService.current.predict(audioData);
-        setLaughProbability(score);
-        return score;
-    }, [isModelLoaded]);
+    const isModelLoaded = modelStatus === 'ready';
 
     return {
         isModelLoaded,
-        laughProbability,
-        analyzeAudio
+        modelStatus
     };
 }
@@ -0,0 +1,71 @@
+import type { UserSettings } from '../types';
+
+/**
+ * Microphone input helpers
+ *
+ * Turns the user's audio settings into getUserMedia constraints and opens
+ * the stream, falling back to the system default microphone when the saved
+ * device is no longer connected.
+ */
+
+export const DEFAULT_INPUT_DEVICE_ID = 'default';
+
+export interface MicrophoneStream {
+    stream: MediaStream;
+    deviceId: string;           // Device actually in use
+    usedFallback: boolean;      // Saved device was missing - using the default mic
+}
+
+export function buildAudioConstraints(
+    audio: UserSettings['audio'],
+    options: { ignoreDevice?: boolean } = {}
+): MediaTrackConstraints {
+    const useDevice = !options.ignoreDevice && audio.inputDeviceId && audio.inputDeviceId !== DEFAULT_INPUT_DEVICE_ID;
+
+    return {
+        deviceId: useDevice ? { exact: audio.inputDeviceId } : undefined,
+        echoCancellation: true,
+        noiseSuppression: audio.noiseSuppression,
+        autoGainControl: true,
+    };
+}
+
+// Errors getUserMedia throws when an exact deviceId can't be satisfied
+const isMissingDeviceError = (error: unknown): boolean =>
+    error instanceof Error && (error.name === 'OverconstrainedError' || error.name === 'NotFoundError');
+
+/**
+ * Open the configured microphone
+ * Permission errors are rethrown; a missing device falls back to the default
+ */
+export async function openMicrophone(audio: UserSettings['audio']): Promise<MicrophoneStream> {
+    try {
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(audio) });
+        return { stream, deviceId: getStreamDeviceId(stream), usedFallback: false };
+    } catch (error) {
+        if (audio.inputDeviceId === DEFAULT_INPUT_DEVICE_ID || !isMissingDeviceError(error)) {
+            throw error;
+        }
+
+        console.warn(`⚠️ Microphone ${audio.inputDeviceId} unavailable, falling back to default:`, error);
+        const stream = await navigator.mediaDevices.getUserMedia({
+            audio: buildAudioConstraints(audio, { ignoreDevice: true })
+        });
+        return { stream, deviceId: getStreamDeviceId(stream), usedFallback: true };
+    }
+}
+
+function getStreamDeviceId(stream: MediaStream): string {
+    return stream.getAudioTracks()[0]?.getSettings().deviceId ?? DEFAULT_INPUT_DEVICE_ID;
+}
+
+/**
+ * Connected audio inputs
+ * Labels are empty until the user has granted microphone permission once.
+ */
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'audioinput');
+}
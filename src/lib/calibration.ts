@@ -0,0 +1,123 @@
+import type { AudioCalibration, UserSettings } from '../types';
+
+/**
+ * Laugh detector calibration helpers
+ *
+ * Shared by useAudioRecorder (live detection) and useCalibration (the
+ * SettingsPage wizard) so both measure volume the same way.
+ */
+
+export const DEFAULT_PROBABILITY_THRESHOLD = 0.3; // YAMNet laughter probability
+export const VOLUME_SMOOTHING = 0.8;
+
+export interface CalibrationSample {
+    volumes: number[];          // Smoothed volume readings (0-100)
+    laughterScores: number[];   // YAMNet laughter score per frame (empty if AI unavailable)
+}
+
+export interface CalibrationInput {
+    silence: CalibrationSample;
+    speech: CalibrationSample;
+    laugh: CalibrationSample;
+}
+
+export interface DetectionThresholds {
+    volumeThreshold: number;
+    probabilityThreshold: number;
+    isCalibrated: boolean;
+}
+
+/**
+ * Volume (0-100) from analyser frequency data - RMS of the byte spectrum
+ */
+export function computeVolumeLevel(frequencyData: Uint8Array): number {
+    let sum = 0;
+    for (let i = 0; i < frequencyData.length; i++) {
+        sum += frequencyData[i] * frequencyData[i];
+    }
+    const rms = Math.sqrt(sum / frequencyData.length);
+    return Math.min(100, (rms / 128) * 100);
+}
+
+export function percentile(values: number[], p: number): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+    return sorted[index];
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Derive per-device thresholds from the three calibration recordings
+ *
+ * - Noise floor: 90th percentile of the silence volume
+ * - Volume threshold: 40% of the way from the noise floor to a typical laugh,
+ *   never closer than 3 points to the noise floor
+ * - Probability threshold: midway between how "laugh-like" speech scored and
+ *   how the deliberate laughs scored (default if YAMNet wasn't available)
+ */
+export function computeCalibration(input: CalibrationInput): AudioCalibration {
+    const noiseFloor = percentile(input.silence.volumes, 90);
+    const laughLevel = percentile(input.laugh.volumes, 75);
+
+    const volumeThreshold = clamp(
+        Math.round(noiseFloor + 0.4 * (laughLevel - noiseFloor)),
+        Math.ceil(noiseFloor + 3),
+        100
+    );
+
+    let probabilityThreshold = DEFAULT_PROBABILITY_THRESHOLD;
+    if (input.speech.laughterScores.length > 0 && input.laugh.laughterScores.length > 0) {
+        const speechScore = percentile(input.speech.laughterScores, 90);
+        const laughScore = percentile(input.laugh.laughterScores, 50);
+        if (laughScore > speechScore) {
+            probabilityThreshold = clamp((speechScore + laughScore) / 2, 0.1, 0.8);
+        }
+    }
+
+    return {
+        noiseFloor: Math.round(noiseFloor),
+        volumeThreshold,
+        probabilityThreshold: Math.round(probabilityThreshold * 100) / 100,
+        calibratedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Warn when the recordings can't separate laughs from background
+ */
+export function getCalibrationWarnings(input: CalibrationInput, calibration: AudioCalibration): string[] {
+    const warnings: string[] = [];
+    const laughLevel = percentile(input.laugh.volumes, 75);
+
+    if (laughLevel - calibration.noiseFloor < 5) {
+        warnings.push('Your laughs were barely louder than the background. Try a quieter room or move closer to the mic.');
+    }
+    if (input.laugh.laughterScores.length === 0) {
+        warnings.push('AI detection was unavailable, so only the volume threshold was calibrated.');
+    }
+
+    return warnings;
+}
+
+/**
+ * Thresholds to use for the selected microphone
+ * Falls back to the manual sensitivity slider when the device isn't calibrated
+ */
+export function getDetectionThresholds(audio: UserSettings['audio']): DetectionThresholds {
+    const calibration = audio.calibrations?.[audio.inputDeviceId];
+    if (calibration) {
+        return {
+            volumeThreshold: calibration.volumeThreshold,
+            probabilityThreshold: calibration.probabilityThreshold,
+            isCalibrated: true,
+        };
+    }
+
+    return {
+        volumeThreshold: audio.threshold,
+        probabilityThreshold: DEFAULT_PROBABILITY_THRESHOLD,
+        isCalibrated: false,
+    };
+}
@@ -1,16 +1,51 @@
 import { openDB, type DBSchema } from 'idb';
+import type { AnonymizationStep, ClipApprovalStatus, LaughEvent } from '../types';
 
-interface PendingUpload {
+// Which of the three upload writes have already landed for a pending session.
+// Lets the sync engine resume a partially uploaded session without duplicating rows.
+export interface PendingUploadProgress {
+    storagePath?: string;
+    sessionSaved?: boolean;
+    recordingSaved?: boolean;
+}
+
+export interface PendingUpload {
     id: string;
     blob: Blob;
     metadata: {
-        duration: number;
+        duration: number;           // seconds of active recording
+        wallClockDuration?: number; // seconds including pauses (older entries lack it)
         timestamp: number;
         userId: string;
         mimeType: string;
         laughCount?: number;
+        laughEvents?: LaughEvent[];
     };
     created_at: number;
+    progress?: PendingUploadProgress;
+    attempts?: number;
+    last_error?: string;
+}
+
+// In-progress recording, journaled as it happens so a crash can be recovered.
+// Deleted once the session is saved (uploaded or queued) or discarded.
+export interface ActiveRecording {
+    sessionId: string;
+    userId: string;
+    mimeType: string;
+    startedAt: number;
+    updatedAt: number;          // Last journal write - stale entries are orphans
+    duration: number;           // seconds of active recording so far
+    wallClockDuration: number;  // seconds since start, including pauses
+    laughCount: number;
+    laughEvents: LaughEvent[];
+    chunkCount: number;
+}
+
+export interface RecordingChunk {
+    sessionId: string;
+    index: number;              // MediaRecorder order - chunks only play back in order
+    blob: Blob;
 }
 
 interface LaughClipDB {
@@ -19,9 +54,19 @@ interface LaughClipDB {
     blob: Blob;
     duration: number;
     yamnet_score: number;
+    yamnet_version?: string;
+    loudness_lufs?: number | null;
+    true_peak_db?: number | null;
+    anonymization?: AnonymizationStep[];
     created_at: number;
     play_count: number;
-    approval_status?: 'pending' | 'approved' | 'rejected';
+    skip_count?: number;
+    thumbs_up?: number;
+    thumbs_down?: number;
+    approval_status?: ClipApprovalStatus;
+    reviewed_by?: string | null;
+    reviewed_at?: number | null;
+    rejection_reason?: string | null;   // Why rejected or flagged
 }
 
 interface ClipInteractionDB {
@@ -31,6 +76,45 @@ interface ClipInteractionDB {
     last_played_at: number;
 }
 
+// Approved community clip mirrored from Supabase so Laugh Starter works offline.
+// Metadata is refreshed on every online fetch; the audio is cached once played.
+export interface CachedClip {
+    id: string;
+    storage_path: string;
+    duration: number;           // milliseconds
+    yamnet_score: number;
+    mime_type: string;
+    contributor_id?: string | null;
+    play_count: number;         // Community engagement as of synced_at
+    skip_count: number;
+    thumbs_up: number;
+    thumbs_down: number;
+    synced_at: number;
+    blob?: Blob;
+    cached_at?: number;         // When the blob was stored - oldest are evicted first
+}
+
+export type ClipVote = 'like' | 'dislike';
+
+// Clip engagement not yet sent to the server: plays/skips summed per
+// listener and clip, plus the listener's latest vote. Survives reloads so
+// engagement made offline still counts - and is only ever sent for the
+// account that made it.
+export interface PendingEngagement {
+    user_id: string;
+    clip_id: string;
+    plays: number;
+    skips: number;
+    vote: ClipVote | null;
+    updated_at: number;
+}
+
+export interface EngagementDelta {
+    plays?: number;
+    skips?: number;
+    vote?: ClipVote;    // Replaces any queued vote
+}
+
 interface LafterDB extends DBSchema {
     pending_uploads: {
         key: string;
@@ -48,14 +132,36 @@ interface LafterDB extends DBSchema {
         key: string;
         value: ClipInteractionDB;
     };
+    active_recordings: {
+        key: string;
+        value: ActiveRecording;
+    };
+    recording_chunks: {
+        key: [string, number];
+        value: RecordingChunk;
+        indexes: {
+            'by-session': string;
+        };
+    };
+    clip_cache: {
+        key: string;
+        value: CachedClip;
+    };
+    engagement_queue: {
+        key: [string, string];
+        value: PendingEngagement;
+        indexes: {
+            'by-user': string;
+        };
+    };
 }
 
 const DB_NAME = 'lafter-db';
-const DB_VERSION = 3; // Bump for Phase 12
+const DB_VERSION = 7; // Bump for per-user engagement queue entries
 
 export const initDB = async () => {
     return openDB<LafterDB>(DB_NAME, DB_VERSION, {
-        upgrade(db, _oldVersion, _newVersion, _transaction) {
+        upgrade(db, oldVersion, _newVersion, _transaction) {
             if (!db.objectStoreNames.contains('pending_uploads')) {
                 db.createObjectStore('pending_uploads', { keyPath: 'id' });
             }
@@ -77,6 +183,30 @@ export const initDB = async () => {
             if (!db.objectStoreNames.contains('clip_interactions')) {
                 db.createObjectStore('clip_interactions', { keyPath: 'clip_id' });
             }
+
+            // Crash-safe recording journal
+            if (!db.objectStoreNames.contains('active_recordings')) {
+                db.createObjectStore('active_recordings', { keyPath: 'sessionId' });
+            }
+            if (!db.objectStoreNames.contains('recording_chunks')) {
+                const store = db.createObjectStore('recording_chunks', { keyPath: ['sessionId', 'index'] });
+                store.createIndex('by-session', 'sessionId');
+            }
+
+            // Offline copy of the community clip library
+            if (!db.objectStoreNames.contains('clip_cache')) {
+                db.createObjectStore('clip_cache', { keyPath: 'id' });
+            }
+
+            // Clip engagement waiting to be sent. Version 6 entries weren't
+            // tied to an account and can't be attributed - drop them.
+            if (oldVersion < 7 && db.objectStoreNames.contains('engagement_queue')) {
+                db.deleteObjectStore('engagement_queue');
+            }
+            if (!db.objectStoreNames.contains('engagement_queue')) {
+                const store = db.createObjectStore('engagement_queue', { keyPath: ['user_id', 'clip_id'] });
+                store.createIndex('by-user', 'user_id');
+            }
         },
     });
 };
@@ -91,6 +221,11 @@ export const getPendingUploads = async () => {
     return db.getAll('pending_uploads');
 };
 
+export const getPendingUpload = async (id: string) => {
+    const db = await initDB();
+    return db.get('pending_uploads', id);
+};
+
 export const deletePendingUpload = async (id: string) => {
     const db = await initDB();
     await db.delete('pending_uploads', id);
@@ -109,6 +244,91 @@ export const getLaughClips = async () => {
     return db.getAll('laugh_clips');
 };
 
+export const getLaughClip = async (id: string) => {
+    const db = await initDB();
+    return db.get('laugh_clips', id);
+};
+
+// Community Clip Cache
+export const saveCachedClip = async (clip: CachedClip) => {
+    const db = await initDB();
+    await db.put('clip_cache', clip);
+};
+
+export const getCachedClips = async () => {
+    const db = await initDB();
+    return db.getAll('clip_cache');
+};
+
+export const getCachedClip = async (id: string) => {
+    const db = await initDB();
+    return db.get('clip_cache', id);
+};
+
+// Swap in a freshly synced library in one transaction
+export const replaceCachedClips = async (clips: CachedClip[]) => {
+    const db = await initDB();
+    const tx = db.transaction('clip_cache', 'readwrite');
+    await tx.store.clear();
+    await Promise.all(clips.map(clip => tx.store.put(clip)));
+    await tx.done;
+};
+
+// Engagement Queue
+// Read-modify-write of one clip's entry in one transaction, dropping the
+// entry once nothing is left to send
+const updatePendingEngagement = async (
+    userId: string,
+    clipId: string,
+    change: (existing: Pick<PendingEngagement, 'plays' | 'skips' | 'vote'>) => Pick<PendingEngagement, 'plays' | 'skips' | 'vote'>
+) => {
+    const db = await initDB();
+    const tx = db.transaction('engagement_queue', 'readwrite');
+    const existing = await tx.store.get([userId, clipId]);
+
+    const { plays, skips, vote } = change({
+        plays: existing?.plays ?? 0,
+        skips: existing?.skips ?? 0,
+        vote: existing?.vote ?? null
+    });
+    const next: PendingEngagement = {
+        user_id: userId,
+        clip_id: clipId,
+        plays: Math.max(0, plays),
+        skips: Math.max(0, skips),
+        vote,
+        updated_at: Date.now()
+    };
+
+    if (next.plays + next.skips === 0 && next.vote === null) {
+        await tx.store.delete([userId, clipId]);
+    } else {
+        await tx.store.put(next);
+    }
+    await tx.done;
+};
+
+export const addPendingEngagement = (userId: string, clipId: string, delta: EngagementDelta) =>
+    updatePendingEngagement(userId, clipId, existing => ({
+        plays: existing.plays + (delta.plays ?? 0),
+        skips: existing.skips + (delta.skips ?? 0),
+        vote: delta.vote ?? existing.vote
+    }));
+
+// Take out exactly what was sent - events recorded meanwhile stay queued
+export const removeSentEngagement = (userId: string, clipId: string, sent: EngagementDelta) =>
+    updatePendingEngagement(userId, clipId, existing => ({
+        plays: existing.plays - (sent.plays ?? 0),
+        skips: existing.skips - (sent.skips ?? 0),
+        vote: existing.vote === sent.vote ? null : existing.vote
+    }));
+
+// One account's queued engagement
+export const getPendingEngagement = async (userId: string) => {
+    const db = await initDB();
+    return db.getAllFromIndex('engagement_queue', 'by-user', userId);
+};
+
 // Clip Interactions (Phase 12)
 export const saveInteraction = async (interaction: ClipInteractionDB) => {
     const db = await initDB();
@@ -125,3 +345,35 @@ export const getAllInteractions = async () => {
     return db.getAll('clip_interactions');
 };
 
+// Active Recordings (crash recovery)
+export const saveActiveRecording = async (recording: ActiveRecording) => {
+    const db = await initDB();
+    await db.put('active_recordings', recording);
+};
+
+export const getActiveRecordings = async () => {
+    const db = await initDB();
+    return db.getAll('active_recordings');
+};
+
+export const saveRecordingChunk = async (chunk: RecordingChunk) => {
+    const db = await initDB();
+    await db.put('recording_chunks', chunk);
+};
+
+// Chunks in recording order (the compound key sorts by index)
+export const getRecordingChunks = async (sessionId: string) => {
+    const db = await initDB();
+    return db.getAll('recording_chunks', IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]));
+};
+
+export const deleteActiveRecording = async (sessionId: string) => {
+    const db = await initDB();
+    const tx = db.transaction(['active_recordings', 'recording_chunks'], 'readwrite');
+    await Promise.all([
+        tx.objectStore('active_recordings').delete(sessionId),
+        tx.objectStore('recording_chunks').delete(IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity])),
+        tx.done
+    ]);
+};
+
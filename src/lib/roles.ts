@@ -0,0 +1,25 @@
+import type { UserRole } from '../types';
+
+// Higher roles include everything the lower ones may do
+// Mirrors has_role() in migrations/20261019_user_roles.sql
+const ROLE_RANK: Record<UserRole, number> = {
+    user: 0,
+    moderator: 1,
+    admin: 2,
+};
+
+export const USER_ROLES = Object.keys(ROLE_RANK) as UserRole[];
+
+/**
+ * Whether any of `roles` grants `required`
+ */
+export function hasRole(roles: readonly UserRole[], required: UserRole): boolean {
+    return roles.some(role => ROLE_RANK[role] >= ROLE_RANK[required]);
+}
+
+/**
+ * Keep only known roles (unknown values from the server grant nothing)
+ */
+export function parseRoles(values: readonly unknown[]): UserRole[] {
+    return USER_ROLES.filter(role => values.includes(role));
+}
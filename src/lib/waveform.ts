@@ -0,0 +1,86 @@
+/**
+ * Waveform helpers
+ *
+ * Decodes a recording and reduces it to a fixed number of peak bars for
+ * display. Decoding uses an OfflineAudioContext, so no user gesture or
+ * running audio output is needed.
+ */
+
+export interface Waveform {
+    peaks: number[];    // 0-1, normalized to the loudest bar
+    duration: number;   // seconds (decoded - MediaRecorder blobs often report Infinity)
+}
+
+/**
+ * Peak absolute amplitude per bar across all channels, normalized to 0-1
+ */
+export function computePeaks(channels: Float32Array[], bars: number): number[] {
+    const length = channels[0]?.length ?? 0;
+    if (length === 0 || bars <= 0) return [];
+
+    const samplesPerBar = length / bars;
+    const peaks: number[] = [];
+    let max = 0;
+
+    for (let bar = 0; bar < bars; bar++) {
+        const start = Math.floor(bar * samplesPerBar);
+        const end = Math.max(start + 1, Math.floor((bar + 1) * samplesPerBar));
+        let peak = 0;
+
+        for (const channel of channels) {
+            for (let i = start; i < end && i < length; i++) {
+                const value = Math.abs(channel[i]);
+                if (value > peak) peak = value;
+            }
+        }
+
+        peaks.push(peak);
+        if (peak > max) max = peak;
+    }
+
+    return max > 0 ? peaks.map(peak => peak / max) : peaks;
+}
+
+export async function decodeAudio(source: Blob | string): Promise<AudioBuffer> {
+    const arrayBuffer = typeof source === 'string'
+        ? await fetch(source).then(response => {
+            if (!response.ok) throw new Error(`Failed to fetch audio: ${response.status}`);
+            return response.arrayBuffer();
+        })
+        : await source.arrayBuffer();
+
+    // Sample rate only affects rendering, not decoding
+    const context = new OfflineAudioContext(1, 1, 44100);
+    return context.decodeAudioData(arrayBuffer);
+}
+
+export async function loadWaveform(source: Blob | string, bars: number): Promise<Waveform> {
+    const buffer = await decodeAudio(source);
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+
+    return {
+        peaks: computePeaks(channels, bars),
+        duration: buffer.duration
+    };
+}
+
+/**
+ * Live levels (0-1) for `bars` bars from AnalyserNode frequency data
+ * Bands get wider towards the top, roughly matching how pitch is heard;
+ * the top quarter of the spectrum (little energy in a laugh) is left out.
+ */
+export function binLevels(frequencyData: Uint8Array, bars: number): number[] {
+    const usable = Math.floor(frequencyData.length * 0.75);
+    if (usable === 0 || bars <= 0) return [];
+
+    const levels: number[] = [];
+    for (let bar = 0; bar < bars; bar++) {
+        const start = Math.floor(usable * Math.pow(bar / bars, 2));
+        const end = Math.max(start + 1, Math.floor(usable * Math.pow((bar + 1) / bars, 2)));
+
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += frequencyData[i];
+        levels.push(sum / (end - start) / 255);
+    }
+    return levels;
+}
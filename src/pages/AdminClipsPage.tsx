@@ -0,0 +1,273 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useClipModeration, type ReviewDecision } from '../hooks/useClipModeration';
+import { ClipReviewRow } from '../components/admin/ClipReviewRow';
+import { RejectionForm } from '../components/admin/RejectionForm';
+import { CurationPanel } from '../components/admin/CurationPanel';
+import type { ClipApprovalStatus } from '../types';
+
+const STATUS_TABS: Array<{ status: ClipApprovalStatus; label: string }> = [
+    { status: 'pending', label: 'Pending' },
+    { status: 'flagged', label: 'Flagged' },
+    { status: 'rejected', label: 'Rejected' },
+    { status: 'approved', label: 'Approved' },
+];
+
+const SHORTCUTS: Array<[string, string]> = [
+    ['J / K', 'Next / previous'],
+    ['Space', 'Play / stop'],
+    ['X', 'Select'],
+    ['A', 'Approve'],
+    ['R', 'Reject'],
+    ['F', 'Flag'],
+    ['Esc', 'Clear selection'],
+];
+
+/**
+ * Moderation console for shared laugh clips
+ *
+ * Reviews the queue best-scored first. Actions apply to the checked clips,
+ * or to the focused clip when nothing is checked.
+ */
+export function AdminClipsPage() {
+    const { user } = useAuth();
+    const [status, setStatus] = useState<ClipApprovalStatus>('pending');
+    const { clips, loading, error, review, refresh } = useClipModeration(status, user?.id);
+
+    const [focusIndex, setFocusIndex] = useState(0);
+    const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+    const [playingId, setPlayingId] = useState<string | null>(null);
+    const [rejectingIds, setRejectingIds] = useState<string[] | null>(null);
+    const [busy, setBusy] = useState(false);
+    const audioRef = useRef<HTMLAudioElement>(null);
+
+    // Reviewed clips drop out of the list - focus falls through to the next one
+    const focusedClip = clips[Math.min(focusIndex, clips.length - 1)];
+    const selectedIds = clips.filter(clip => checkedIds.has(clip.id)).map(clip => clip.id);
+    const targetIds = selectedIds.length > 0 ? selectedIds : focusedClip ? [focusedClip.id] : [];
+
+    const stopPlayback = () => {
+        audioRef.current?.pause();
+        setPlayingId(null);
+    };
+
+    const togglePlay = (clipId: string) => {
+        const audio = audioRef.current;
+        const clip = clips.find(c => c.id === clipId);
+        if (!audio || !clip?.audioUrl) return;
+
+        if (playingId === clipId) {
+            stopPlayback();
+            return;
+        }
+
+        audio.src = clip.audioUrl;
+        audio.play()
+            .then(() => setPlayingId(clipId))
+            .catch(err => {
+                console.error('❌ Failed to play clip:', err);
+                setPlayingId(null);
+            });
+    };
+
+    const toggleChecked = (clipId: string) => {
+        setCheckedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(clipId)) next.delete(clipId); else next.add(clipId);
+            return next;
+        });
+    };
+
+    const decide = async (ids: string[], decision: ReviewDecision, reason?: string) => {
+        if (ids.length === 0 || busy) return;
+
+        setBusy(true);
+        const ok = await review(ids, decision, reason);
+        setBusy(false);
+
+        if (ok) {
+            if (playingId && ids.includes(playingId)) stopPlayback();
+            setCheckedIds(prev => new Set([...prev].filter(id => !ids.includes(id))));
+            setRejectingIds(null);
+        }
+    };
+
+    const requestDecision = (ids: string[], decision: ReviewDecision) => {
+        if (decision === 'rejected') {
+            setRejectingIds(ids);
+        } else {
+            decide(ids, decision);
+        }
+    };
+
+    const changeStatus = (next: ClipApprovalStatus) => {
+        stopPlayback();
+        setStatus(next);
+        setFocusIndex(0);
+        setCheckedIds(new Set());
+        setRejectingIds(null);
+    };
+
+    // Keyboard shortcuts - ignored while typing and while the rejection form is open
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.metaKey || e.ctrlKey || e.altKey || rejectingIds) return;
+            const target = e.target as HTMLElement;
+            const isTyping = target.isContentEditable || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT'
+                || (target instanceof HTMLInputElement && target.type !== 'checkbox');
+            if (isTyping) return;
+
+            switch (e.key) {
+                case 'j':
+                case 'ArrowDown':
+                    setFocusIndex(Math.min(Math.min(focusIndex, clips.length - 1) + 1, clips.length - 1));
+                    break;
+                case 'k':
+                case 'ArrowUp':
+                    setFocusIndex(Math.max(Math.min(focusIndex, clips.length - 1) - 1, 0));
+                    break;
+                case ' ':
+                    if (focusedClip) togglePlay(focusedClip.id);
+                    break;
+                case 'x':
+                    if (focusedClip) toggleChecked(focusedClip.id);
+                    break;
+                case 'a':
+                    requestDecision(targetIds, 'approved');
+                    break;
+                case 'r':
+                    requestDecision(targetIds, 'rejected');
+                    break;
+                case 'f':
+                    requestDecision(targetIds, 'flagged');
+                    break;
+                case 'Escape':
+                    setCheckedIds(new Set());
+                    break;
+                default:
+                    return;
+            }
+            e.preventDefault();
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    // Keep the focused row on screen while moving through the queue
+    useEffect(() => {
+        if (!focusedClip) return;
+        document.querySelector(`[data-clip-id="${focusedClip.id}"]`)?.scrollIntoView({ block: 'nearest' });
+    }, [focusedClip]);
+
+    const allChecked = clips.length > 0 && selectedIds.length === clips.length;
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-8 pt-8 pb-12">
+            <div className="flex items-center justify-between">
+                <h1 className="text-3xl font-display font-bold text-white">Clip Moderation</h1>
+                <button
+                    onClick={refresh}
+                    disabled={loading}
+                    className="text-stitch-muted hover:text-white px-3 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50"
+                >
+                    ↻ Refresh
+                </button>
+            </div>
+
+            <div className="flex gap-2">
+                {STATUS_TABS.map(tab => (
+                    <button
+                        key={tab.status}
+                        onClick={() => changeStatus(tab.status)}
+                        className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${status === tab.status
+                            ? 'bg-stitch-primary text-white'
+                            : 'bg-stitch-surface text-stitch-text hover:bg-stitch-primary/30'
+                            }`}
+                    >
+                        {tab.label}
+                    </button>
+                ))}
+            </div>
+
+            <div className="glass-panel p-6 rounded-xl">
+                {error && (
+                    <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-red-400">{error}</div>
+                )}
+
+                {loading ? (
+                    <div className="py-12 text-center text-stitch-muted">Loading clips...</div>
+                ) : clips.length === 0 ? (
+                    <div className="py-12 text-center text-stitch-muted">
+                        {status === 'pending' ? 'Queue is empty - nothing left to review 🎉' : 'No clips here.'}
+                    </div>
+                ) : (
+                    <>
+                        <div className="flex items-center gap-3 pb-3 border-b border-white/5">
+                            <input
+                                type="checkbox"
+                                checked={allChecked}
+                                onChange={() => setCheckedIds(allChecked ? new Set() : new Set(clips.map(clip => clip.id)))}
+                                className="accent-stitch-primary"
+                                aria-label="Select all clips"
+                            />
+                            <span className="text-sm text-stitch-muted flex-grow">
+                                {selectedIds.length > 0 ? `${selectedIds.length} selected` : `${clips.length} clips`}
+                            </span>
+                            {selectedIds.length > 0 && (['approved', 'rejected', 'flagged'] as const)
+                                .filter(decision => decision !== status)
+                                .map(decision => (
+                                    <button
+                                        key={decision}
+                                        onClick={() => requestDecision(selectedIds, decision)}
+                                        disabled={busy}
+                                        className="px-3 py-1 rounded-full text-xs font-medium bg-stitch-surface text-stitch-text hover:bg-stitch-primary/30 transition-all disabled:opacity-50"
+                                    >
+                                        {decision === 'approved' ? 'Approve' : decision === 'rejected' ? 'Reject' : 'Flag'} selected
+                                    </button>
+                                ))}
+                        </div>
+
+                        {rejectingIds && (
+                            <RejectionForm
+                                count={rejectingIds.length}
+                                onSubmit={(reason) => decide(rejectingIds, 'rejected', reason)}
+                                onCancel={() => setRejectingIds(null)}
+                            />
+                        )}
+
+                        <ul className="divide-y divide-white/5 mt-1">
+                            {clips.map(clip => (
+                                <li key={clip.id} data-clip-id={clip.id}>
+                                    <ClipReviewRow
+                                        clip={clip}
+                                        isFocused={clip.id === focusedClip?.id}
+                                        isChecked={checkedIds.has(clip.id)}
+                                        isPlaying={clip.id === playingId}
+                                        disabled={busy}
+                                        onFocus={() => setFocusIndex(clips.indexOf(clip))}
+                                        onToggleChecked={() => toggleChecked(clip.id)}
+                                        onTogglePlay={() => togglePlay(clip.id)}
+                                        onDecision={(decision) => requestDecision([clip.id], decision)}
+                                    />
+                                </li>
+                            ))}
+                        </ul>
+                    </>
+                )}
+            </div>
+
+            <CurationPanel onApplied={refresh} />
+
+            <div className="flex flex-wrap gap-x-6 gap-y-2 text-xs text-stitch-muted">
+                {SHORTCUTS.map(([keys, action]) => (
+                    <span key={keys}>
+                        <kbd className="px-1.5 py-0.5 rounded bg-stitch-surface font-mono text-stitch-text">{keys}</kbd> {action}
+                    </span>
+                ))}
+            </div>
+
+            <audio ref={audioRef} onEnded={() => setPlayingId(null)} className="hidden" />
+        </div>
+    );
+}
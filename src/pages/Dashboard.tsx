@@ -3,6 +3,7 @@ import { useAuth } from '../context/AuthContext';
 import { useAnalytics } from '../hooks/useAnalytics';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { Leaderboard } from '../components/social/Leaderboard';
+import { SyncQueuePanel } from '../components/session/SyncQueuePanel';
 
 export function Dashboard() {
     const { user } = useAuth();
@@ -47,6 +48,8 @@ export function Dashboard() {
                 </div>
             </div>
 
+            <SyncQueuePanel />
+
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                 <div className="glass-panel p-6 rounded-xl">
                     <h2 className="text-xl font-display font-bold text-white mb-6">Activity History</h2>
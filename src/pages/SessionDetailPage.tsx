@@ -0,0 +1,80 @@
+import { Link, useParams } from 'react-router-dom';
+import { useSessionRecording } from '../hooks/useSessionRecording';
+import { SessionPlayback } from '../components/session/SessionPlayback';
+
+export function SessionDetailPage() {
+    const { id } = useParams<{ id: string }>();
+    const { recording, loading, error } = useSessionRecording(id);
+
+    const formatDuration = (seconds: number) => {
+        const mins = Math.floor(seconds / 60);
+        const secs = Math.floor(seconds % 60);
+        return `${mins}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    return (
+        <div className="max-w-3xl mx-auto space-y-8 pt-8 pb-12">
+            <Link to="/sessions" className="text-sm text-stitch-muted hover:text-white transition-colors">
+                ← All sessions
+            </Link>
+
+            {loading ? (
+                <div className="glass-panel p-6 rounded-xl py-12 text-center text-stitch-muted">Loading session...</div>
+            ) : error || !recording ? (
+                <div className="glass-panel p-6 rounded-xl py-12 text-center text-red-400">
+                    {error ?? 'Session not found'}
+                </div>
+            ) : (
+                <>
+                    <div>
+                        <h1 className="text-3xl font-display font-bold text-white">
+                            {new Date(recording.session.created_at).toLocaleDateString(undefined, {
+                                weekday: 'long',
+                                month: 'long',
+                                day: 'numeric'
+                            })}
+                        </h1>
+                        <p className="text-stitch-muted">
+                            {new Date(recording.session.created_at).toLocaleTimeString()}
+                        </p>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-6">
+                        <div className="glass-panel p-6 rounded-xl">
+                            <h3 className="text-stitch-muted text-sm font-medium uppercase tracking-wider mb-2">Laughs</h3>
+                            <p className="text-3xl font-display font-bold text-white">{recording.session.laugh_count}</p>
+                        </div>
+                        <div className="glass-panel p-6 rounded-xl">
+                            <h3 className="text-stitch-muted text-sm font-medium uppercase tracking-wider mb-2">Duration</h3>
+                            <p className="text-3xl font-display font-bold text-stitch-primary">
+                                {formatDuration(recording.session.duration)}
+                            </p>
+                        </div>
+                        <div className="glass-panel p-6 rounded-xl">
+                            <h3 className="text-stitch-muted text-sm font-medium uppercase tracking-wider mb-2">Wall Clock</h3>
+                            <p className="text-3xl font-display font-bold text-stitch-secondary">
+                                {recording.session.wall_clock_duration !== null
+                                    ? formatDuration(recording.session.wall_clock_duration)
+                                    : '—'}
+                            </p>
+                        </div>
+                    </div>
+
+                    <div className="glass-panel p-6 rounded-xl">
+                        <h2 className="text-xl font-display font-bold text-white mb-6">Recording</h2>
+                        {recording.audioUrl ? (
+                            <SessionPlayback
+                                audioUrl={recording.audioUrl}
+                                audioBlob={recording.audioBlob}
+                                laughEvents={recording.laughEvents}
+                                fallbackDuration={recording.session.duration}
+                            />
+                        ) : (
+                            <p className="text-stitch-muted text-sm">The recording for this session is no longer available.</p>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
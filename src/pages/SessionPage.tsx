@@ -4,6 +4,7 @@ import { useAuth } from '../context/AuthContext';
 import { SessionRecorder } from '../components/session/SessionRecorder';
 import { LaughStarterModal } from '../components/onboarding/LaughStarterModal';
 import { ShareLaughDialog } from '../components/session/ShareLaughDialog';
+import type { LaughEvent } from '../types';
 
 export function SessionPage() {
     const { user } = useAuth();
@@ -15,7 +16,7 @@ export function SessionPage() {
     const [showShareDialog, setShowShareDialog] = useState(false);
     const [shareDialogData, setShareDialogData] = useState<{
         sessionBlob: Blob | null;
-        laughTimestamps: Array<{ time: number; duration: number }>;
+        laughTimestamps: LaughEvent[];
         sessionId: string;
         laughCount: number;
         yamnetScore?: number;
@@ -42,7 +43,7 @@ export function SessionPage() {
     // Callback from SessionRecorder when session ends
     const handleSessionComplete = (data: {
         sessionBlob: Blob | null;
-        laughTimestamps: Array<{ time: number; duration: number }>;
+        laughTimestamps: LaughEvent[];
         sessionId: string;
         laughCount: number;
         yamnetScore?: number;
@@ -78,6 +79,7 @@ export function SessionPage() {
             {/* Post-Session: Share Laugh Dialog */}
             {shareDialogData && (
                 <ShareLaughDialog
+                    key={shareDialogData.sessionId}
                     isOpen={showShareDialog}
                     onClose={() => setShowShareDialog(false)}
                     sessionBlob={shareDialogData.sessionBlob}
@@ -0,0 +1,57 @@
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { useSessionHistory } from '../hooks/useSessionHistory';
+
+export function SessionsPage() {
+    const { user } = useAuth();
+    const { sessions, loading, error } = useSessionHistory(user?.id);
+
+    const formatDuration = (seconds: number) => {
+        const mins = Math.floor(seconds / 60);
+        const secs = Math.floor(seconds % 60);
+        return `${mins}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    return (
+        <div className="max-w-3xl mx-auto space-y-8 pt-8 pb-12">
+            <h1 className="text-3xl font-display font-bold text-white">Session History</h1>
+
+            <div className="glass-panel p-6 rounded-xl">
+                {loading ? (
+                    <div className="py-12 text-center text-stitch-muted">Loading sessions...</div>
+                ) : error ? (
+                    <div className="py-12 text-center text-red-400">{error}</div>
+                ) : sessions.length === 0 ? (
+                    <div className="py-12 text-center text-stitch-muted space-y-4">
+                        <p>No sessions yet.</p>
+                        <Link to="/session" className="btn-primary inline-block">Start a Session</Link>
+                    </div>
+                ) : (
+                    <ul className="divide-y divide-white/5">
+                        {sessions.map(session => (
+                            <li key={session.id}>
+                                <Link
+                                    to={`/sessions/${session.id}`}
+                                    className="py-4 flex items-center justify-between gap-4 hover:bg-white/5 -mx-3 px-3 rounded-lg transition-colors"
+                                >
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium text-stitch-text">
+                                            {new Date(session.created_at).toLocaleString()}
+                                        </p>
+                                        <p className="text-xs text-stitch-muted">
+                                            {formatDuration(session.duration)}
+                                            {session.isLocal && ' • on this device'}
+                                        </p>
+                                    </div>
+                                    <span className="text-stitch-accent font-bold flex-shrink-0">
+                                        {session.laugh_count} 😂
+                                    </span>
+                                </Link>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
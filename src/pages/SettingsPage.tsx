@@ -1,8 +1,15 @@
+import { useState } from 'react';
 import { useSettings } from '../context/SettingsContext';
+import { CalibrationWizard } from '../components/settings/CalibrationWizard';
+import { useAudioDevices } from '../hooks/useAudioDevices';
+import { DEFAULT_INPUT_DEVICE_ID } from '../lib/audioInput';
+import type { AudioCalibration } from '../types';
 import { APP_VERSION, BUILD_DATE, GIT_COMMIT } from '../version';
 
 export function SettingsPage() {
     const { settings, updateSettings, loading } = useSettings();
+    const [isCalibrating, setIsCalibrating] = useState(false);
+    const { devices, hasLabels, error: deviceError, requestAccess } = useAudioDevices();
 
     if (loading) {
         return <div className="p-8 text-center text-stitch-muted">Loading settings...</div>;
@@ -21,6 +28,46 @@ export function SettingsPage() {
         });
     };
 
+    // Saved device unplugged - recording falls back to the default mic
+    const isSavedDeviceMissing = settings.audio.inputDeviceId !== DEFAULT_INPUT_DEVICE_ID
+        && devices.length > 0
+        && !devices.some(device => device.deviceId === settings.audio.inputDeviceId);
+
+    const deviceCalibration = settings.audio.calibrations?.[settings.audio.inputDeviceId];
+
+    const handleCalibrationSave = (calibration: AudioCalibration) => {
+        updateSettings({
+            audio: {
+                ...settings.audio,
+                calibrations: {
+                    ...settings.audio.calibrations,
+                    [settings.audio.inputDeviceId]: calibration
+                }
+            }
+        });
+        setIsCalibrating(false);
+    };
+
+    const handleCalibrationClear = () => {
+        const calibrations = { ...settings.audio.calibrations };
+        delete calibrations[settings.audio.inputDeviceId];
+        updateSettings({
+            audio: {
+                ...settings.audio,
+                calibrations
+            }
+        });
+    };
+
+    const handleLaughAlongChange = <K extends keyof typeof settings.laughAlong>(key: K, value: typeof settings.laughAlong[K]) => {
+        updateSettings({
+            laughAlong: {
+                ...settings.laughAlong,
+                [key]: value
+            }
+        });
+    };
+
     const handlePrivacyChange = (key: keyof typeof settings.privacy, value: any) => {
         updateSettings({
             privacy: {
@@ -67,6 +114,84 @@ export function SettingsPage() {
             <div className="glass-panel p-6 rounded-xl">
                 <h2 className="text-xl font-display font-bold text-white mb-6">Audio Calibration</h2>
                 <div className="space-y-8">
+                    <div>
+                        <div className="flex justify-between mb-2">
+                            <label htmlFor="input-device" className="block text-sm font-medium text-stitch-text">
+                                Microphone
+                            </label>
+                            {!hasLabels && (
+                                <button
+                                    onClick={requestAccess}
+                                    className="text-xs text-stitch-accent hover:text-stitch-primary underline"
+                                >
+                                    Show microphone names
+                                </button>
+                            )}
+                        </div>
+                        <select
+                            id="input-device"
+                            value={isSavedDeviceMissing ? DEFAULT_INPUT_DEVICE_ID : settings.audio.inputDeviceId}
+                            onChange={(e) => {
+                                setIsCalibrating(false);
+                                handleAudioChange('inputDeviceId', e.target.value);
+                            }}
+                            className="w-full rounded-lg bg-stitch-surface border border-white/10 px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-stitch-primary"
+                        >
+                            <option value={DEFAULT_INPUT_DEVICE_ID}>System default</option>
+                            {devices
+                                .filter(device => device.deviceId && device.deviceId !== DEFAULT_INPUT_DEVICE_ID)
+                                .map((device, index) => (
+                                    <option key={device.deviceId} value={device.deviceId}>
+                                        {device.label || `Microphone ${index + 1}`}
+                                    </option>
+                                ))}
+                        </select>
+                        {isSavedDeviceMissing && (
+                            <p className="mt-2 text-xs text-yellow-300">
+                                Your saved microphone isn't connected. Sessions will use the system default until it's back.
+                            </p>
+                        )}
+                        {deviceError && <p className="mt-2 text-xs text-red-400">{deviceError}</p>}
+                    </div>
+
+                    <div>
+                        <div className="flex items-center justify-between mb-2">
+                            <span className="flex flex-col">
+                                <span className="text-sm font-medium text-stitch-text">Laugh Detector Calibration</span>
+                                <span className="text-sm text-stitch-muted">
+                                    {deviceCalibration
+                                        ? `Calibrated ${new Date(deviceCalibration.calibratedAt).toLocaleDateString()} for this microphone`
+                                        : 'Tune laugh detection to your voice, room and microphone'}
+                                </span>
+                            </span>
+                            {!isCalibrating && (
+                                <div className="flex items-center gap-3">
+                                    {deviceCalibration && (
+                                        <button
+                                            onClick={handleCalibrationClear}
+                                            className="text-xs text-stitch-muted hover:text-white underline"
+                                        >
+                                            Reset
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => setIsCalibrating(true)}
+                                        className="px-4 py-2 rounded-lg font-medium text-sm bg-stitch-primary text-white hover:bg-stitch-primary/80 transition-all"
+                                    >
+                                        {deviceCalibration ? 'Recalibrate' : 'Calibrate'}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                        {isCalibrating && (
+                            <CalibrationWizard
+                                audioSettings={settings.audio}
+                                onSave={handleCalibrationSave}
+                                onCancel={() => setIsCalibrating(false)}
+                            />
+                        )}
+                    </div>
+
                     <div>
                         <div className="flex justify-between mb-2">
                             <label className="block text-sm font-medium text-stitch-text">
@@ -80,10 +205,13 @@ export function SettingsPage() {
                             max="100"
                             value={settings.audio.threshold}
                             onChange={(e) => handleAudioChange('threshold', parseInt(e.target.value))}
-                            className="w-full h-2 bg-stitch-surface rounded-lg appearance-none cursor-pointer accent-stitch-primary"
+                            disabled={!!deviceCalibration}
+                            className="w-full disabled:opacity-50 h-2 bg-stitch-surface rounded-lg appearance-none cursor-pointer accent-stitch-primary"
                         />
                         <p className="mt-2 text-xs text-stitch-muted">
-                            Lower = More Sensitive (Detects quiet laughs). Higher = Less Sensitive (Ignores noise).
+                            {deviceCalibration
+                                ? `Using the calibrated threshold (${deviceCalibration.volumeThreshold}%) for this microphone. Reset calibration to adjust manually.`
+                                : 'Lower = More Sensitive (Detects quiet laughs). Higher = Less Sensitive (Ignores noise).'}
                         </p>
                     </div>
 
@@ -107,6 +235,50 @@ export function SettingsPage() {
                 </div>
             </div>
 
+            <div className="glass-panel p-6 rounded-xl">
+                <h2 className="text-xl font-display font-bold text-white mb-6">Laugh Along</h2>
+                <div className="space-y-6">
+                    <div className="flex items-center justify-between">
+                        <span className="flex-grow flex flex-col">
+                            <span className="text-sm font-medium text-stitch-text">Background Laughs</span>
+                            <span className="text-sm text-stitch-muted">Quietly loop community laughs while you record. They never count toward your laughs.</span>
+                        </span>
+                        <button
+                            onClick={() => handleLaughAlongChange('enabled', !settings.laughAlong.enabled)}
+                            className={`${settings.laughAlong.enabled ? 'bg-stitch-primary' : 'bg-stitch-surface'
+                                } relative inline-flex flex-shrink-0 h-6 w-11 border-2 border-transparent rounded-full cursor-pointer transition-colors ease-in-out duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-stitch-primary`}
+                        >
+                            <span
+                                aria-hidden="true"
+                                className={`${settings.laughAlong.enabled ? 'translate-x-5' : 'translate-x-0'
+                                    } pointer-events-none inline-block h-5 w-5 rounded-full bg-white shadow transform ring-0 transition ease-in-out duration-200`}
+                            />
+                        </button>
+                    </div>
+
+                    <div>
+                        <div className="flex justify-between mb-2">
+                            <label className="block text-sm font-medium text-stitch-text">
+                                Laugh Along Volume
+                            </label>
+                            <span className="text-stitch-accent font-mono text-sm">{Math.round(settings.laughAlong.volume * 100)}%</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="0"
+                            max="50"
+                            value={Math.round(settings.laughAlong.volume * 100)}
+                            onChange={(e) => handleLaughAlongChange('volume', parseInt(e.target.value) / 100)}
+                            disabled={!settings.laughAlong.enabled}
+                            className="w-full disabled:opacity-50 h-2 bg-stitch-surface rounded-lg appearance-none cursor-pointer accent-stitch-primary"
+                        />
+                        <p className="mt-2 text-xs text-stitch-muted">
+                            Headphones work best. On speakers, keep it low so your own laughs stand out.
+                        </p>
+                    </div>
+                </div>
+            </div>
+
             <div className="glass-panel p-6 rounded-xl">
                 <h2 className="text-xl font-display font-bold text-white mb-6">Privacy</h2>
                 <div className="flex items-center justify-between">
@@ -0,0 +1,429 @@
+import { decodeAudio } from '../../lib/waveform';
+
+/**
+ * ClipQueuePlayer
+ *
+ * Web Audio player for a queue of short clips (Laugh Starter):
+ * - Every clip is fetched and decoded up front, so transitions never wait
+ *   on the network
+ * - Each next clip is scheduled on the audio clock while the current one
+ *   plays - sample-accurate gaps, or overlapping equal-length fades
+ * - Output runs through an AnalyserNode for live level displays
+ * - Optional looping, wrapping from the last clip back to the first
+ *
+ * State changes are published for `useSyncExternalStore` (`subscribe` /
+ * `getState`); each change produces a new state object.
+ */
+
+export interface TransitionOptions {
+    gapMs: number;          // Silence between clips (ignored while crossfading)
+    crossfadeMs: number;    // Overlap with fade out/in; 0 = gapped playback
+}
+
+export const DEFAULT_TRANSITION: TransitionOptions = { gapMs: 1000, crossfadeMs: 0 };
+
+export type PlayerStatus = 'idle' | 'loading' | 'ready' | 'playing' | 'paused' | 'ended';
+
+export interface PlayerState {
+    status: PlayerStatus;
+    index: number;          // Current clip in the queue
+    position: number;       // seconds into the current clip
+    duration: number;       // seconds, current clip (0 until decoded)
+    count: number;          // Clips in the queue
+    failed: number[];       // Clips that couldn't be fetched or decoded (skipped)
+}
+
+// One scheduled clip on the audio graph
+interface Voice {
+    index: number;
+    source: AudioBufferSourceNode;
+    gain: GainNode;
+    audibleAt: number;      // Context time the clip becomes audible
+    clipZero: number;       // Context time of the clip's 0s mark (audibleAt - start offset)
+    endsAt: number;
+    nextScheduled: boolean;
+}
+
+const START_LEAD_S = 0.02;          // Schedule slightly ahead so the first samples aren't cut
+const TICK_MS = 50;
+const RESTART_THRESHOLD_S = 2;      // previous() restarts the clip when further in than this
+
+/**
+ * When the clip after one starting at `clipZero` should start, and how
+ * long the two overlap (crossfades are capped at half of either clip)
+ */
+export function planTransition(
+    clipZero: number,
+    duration: number,
+    nextDuration: number,
+    transition: TransitionOptions
+): { nextStart: number; crossfade: number } {
+    const crossfade = Math.max(0, Math.min(transition.crossfadeMs / 1000, duration / 2, nextDuration / 2));
+    const end = clipZero + duration;
+
+    return crossfade > 0
+        ? { nextStart: end - crossfade, crossfade }
+        : { nextStart: end + Math.max(0, transition.gapMs) / 1000, crossfade: 0 };
+}
+
+export class ClipQueuePlayer {
+    private context: AudioContext | null = null;
+    private master: GainNode | null = null;
+    private analyser: AnalyserNode | null = null;
+    private buffers: Array<AudioBuffer | null> = [];
+    private voices: Voice[] = [];
+    private listeners = new Set<() => void>();
+    private timer: number | null = null;
+    private loadId = 0;
+    private transition: TransitionOptions;
+    private volume: number;
+    private loop = false;
+    private state: PlayerState = { status: 'idle', index: 0, position: 0, duration: 0, count: 0, failed: [] };
+
+    constructor(transition: TransitionOptions = DEFAULT_TRANSITION, volume: number = 0.8) {
+        this.transition = transition;
+        this.volume = volume;
+    }
+
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    getState = (): PlayerState => this.state;
+
+    /**
+     * Output analyser (null until playback first starts)
+     */
+    getAnalyser = (): AnalyserNode | null => this.analyser;
+
+    /**
+     * Replace the queue and decode every clip
+     * Clips that fail are marked in `failed` and skipped during playback
+     */
+    async load(urls: string[]): Promise<void> {
+        const loadId = ++this.loadId;
+        this.stopVoices();
+        this.buffers = [];
+        this.setState({ status: 'loading', index: 0, position: 0, duration: 0, count: urls.length, failed: [] });
+
+        const results = await Promise.allSettled(urls.map(url => decodeAudio(url)));
+        if (loadId !== this.loadId) return; // Superseded by a newer queue
+
+        this.buffers = results.map(result => result.status === 'fulfilled' ? result.value : null);
+        const failed = results.flatMap((result, i) => result.status === 'rejected' ? [i] : []);
+        failed.forEach(i => console.warn(`⚠️ Could not decode clip ${i + 1}:`, (results[i] as PromiseRejectedResult).reason));
+
+        const first = this.findPlayable(0, 1);
+        this.setState({
+            status: first === null ? 'ended' : 'ready',
+            index: first ?? 0,
+            position: 0,
+            duration: first === null ? 0 : this.buffers[first]!.duration,
+            failed
+        });
+    }
+
+    /**
+     * Start or resume. Resolves false if the browser blocked audio
+     * (autoplay without a user gesture) - call again from a click.
+     */
+    async play(): Promise<boolean> {
+        const { status, index, position } = this.state;
+        if (status === 'idle' || status === 'loading' || status === 'playing') return status === 'playing';
+
+        const context = this.ensureContext();
+        if (context.state !== 'running') {
+            try {
+                await context.resume();
+            } catch (err) {
+                console.warn('⚠️ Audio playback blocked:', err);
+            }
+            // resume() changes state; TS still has it narrowed from above
+            if ((context.state as AudioContextState) !== 'running') return false;
+        }
+
+        if (status === 'ended') {
+            const first = this.findPlayable(0, 1);
+            if (first === null) return false;
+            this.startAt(first, 0);
+        } else {
+            this.startAt(index, position);
+        }
+        return true;
+    }
+
+    pause(): void {
+        if (this.state.status !== 'playing') return;
+        const position = this.currentPosition();
+        this.stopVoices();
+        this.setState({ status: 'paused', position });
+    }
+
+    /**
+     * Move within the current clip
+     */
+    seek(seconds: number): void {
+        const position = Math.max(0, Math.min(seconds, this.state.duration));
+        if (this.state.status === 'playing') {
+            this.startAt(this.state.index, position);
+        } else {
+            this.setState({ position });
+        }
+    }
+
+    /**
+     * Jump to a clip (keeps playing if playing)
+     */
+    jumpTo(index: number): void {
+        const target = this.findNext(index);
+        if (target === null) {
+            this.finish();
+            return;
+        }
+
+        if (this.state.status === 'playing') {
+            this.startAt(target, 0);
+        } else {
+            this.setState({
+                status: this.state.status === 'ended' ? 'paused' : this.state.status,
+                index: target,
+                position: 0,
+                duration: this.buffers[target]!.duration
+            });
+        }
+    }
+
+    next(): void {
+        this.jumpTo(this.state.index + 1);
+    }
+
+    /**
+     * Restart the current clip, or go back one if it only just started
+     */
+    previous(): void {
+        const position = this.state.status === 'playing' ? this.currentPosition() : this.state.position;
+        const target = position > RESTART_THRESHOLD_S ? null : this.findPlayable(this.state.index - 1, -1);
+        this.jumpTo(target ?? this.state.index);
+    }
+
+    setVolume(volume: number): void {
+        this.volume = volume;
+        if (this.master && this.context) {
+            this.master.gain.setTargetAtTime(volume, this.context.currentTime, 0.02);
+        }
+    }
+
+    /**
+     * Keep playing from the first clip after the last instead of ending
+     */
+    setLoop(loop: boolean): void {
+        if (loop === this.loop) return;
+        this.loop = loop;
+
+        // The last clip may already be playing with nothing queued after it
+        const current = this.context ? this.currentVoice(this.context.currentTime) : undefined;
+        if (loop && current && this.voices[this.voices.length - 1] === current) {
+            current.nextScheduled = false;
+            this.scheduleNext(current);
+        }
+    }
+
+    /**
+     * Change gaps/crossfades; applies from the next transition not yet under way
+     */
+    setTransition(transition: TransitionOptions): void {
+        if (transition.gapMs === this.transition.gapMs && transition.crossfadeMs === this.transition.crossfadeMs) return;
+        this.transition = transition;
+        if (this.state.status !== 'playing' || !this.context) return;
+
+        // Re-plan a queued next clip that hasn't become audible yet
+        const now = this.context.currentTime;
+        const current = this.currentVoice(now);
+        const queued = this.voices.filter(voice => voice.audibleAt > now);
+        if (!current || queued.length === 0) return;
+
+        queued.forEach(voice => this.stopVoice(voice));
+        this.voices = this.voices.filter(voice => !queued.includes(voice));
+        current.gain.gain.cancelScheduledValues(now);
+        current.gain.gain.setValueAtTime(1, now);
+        current.nextScheduled = false;
+        this.scheduleNext(current);
+    }
+
+    /**
+     * Stop playback and release the audio device
+     * The decoded queue is kept, so play() works again afterwards
+     */
+    dispose(): void {
+        if (this.state.status === 'playing') this.pause();
+        this.stopVoices();
+        this.context?.close().catch(() => { });
+        this.context = null;
+        this.master = null;
+        this.analyser = null;
+    }
+
+    private ensureContext(): AudioContext {
+        if (!this.context) {
+            this.context = new AudioContext();
+            this.master = this.context.createGain();
+            this.master.gain.value = this.volume;
+            this.analyser = this.context.createAnalyser();
+            this.analyser.fftSize = 256;
+            this.analyser.smoothingTimeConstant = 0.7;
+            this.master.connect(this.analyser);
+            this.analyser.connect(this.context.destination);
+        }
+        return this.context;
+    }
+
+    private startAt(index: number, offset: number): void {
+        const context = this.ensureContext();
+        this.stopVoices();
+
+        const voice = this.createVoice(index, context.currentTime + START_LEAD_S, offset, 0);
+        this.voices = [voice];
+        this.scheduleNext(voice);
+
+        this.setState({ status: 'playing', index, position: offset, duration: this.buffers[index]!.duration });
+        this.startTimer();
+    }
+
+    private createVoice(index: number, when: number, offset: number, fadeIn: number): Voice {
+        const context = this.context!;
+        const buffer = this.buffers[index]!;
+
+        const source = context.createBufferSource();
+        source.buffer = buffer;
+        const gain = context.createGain();
+        source.connect(gain);
+        gain.connect(this.master!);
+
+        if (fadeIn > 0) {
+            gain.gain.setValueAtTime(0, when);
+            gain.gain.linearRampToValueAtTime(1, when + fadeIn);
+        }
+
+        source.start(when, offset);
+        return {
+            index,
+            source,
+            gain,
+            audibleAt: when,
+            clipZero: when - offset,
+            endsAt: when + buffer.duration - offset,
+            nextScheduled: false
+        };
+    }
+
+    // Queue the following clip on the audio clock, fading both if crossfading
+    private scheduleNext(voice: Voice): void {
+        if (voice.nextScheduled) return;
+        voice.nextScheduled = true;
+
+        const nextIndex = this.findNext(voice.index + 1);
+        if (nextIndex === null) return;
+
+        const { nextStart, crossfade } = planTransition(
+            voice.clipZero,
+            this.buffers[voice.index]!.duration,
+            this.buffers[nextIndex]!.duration,
+            this.transition
+        );
+        const start = Math.max(nextStart, this.context!.currentTime + START_LEAD_S);
+
+        if (crossfade > 0) {
+            voice.gain.gain.setValueAtTime(1, start);
+            voice.gain.gain.linearRampToValueAtTime(0, start + crossfade);
+        }
+        this.voices.push(this.createVoice(nextIndex, start, 0, crossfade));
+    }
+
+    // Follow the audio clock: advance the index, queue the next clip, detect the end
+    private tick = (): void => {
+        if (!this.context || this.state.status !== 'playing') return;
+        const now = this.context.currentTime;
+
+        // Forget clips that have finished
+        const finished = this.voices.filter(voice => voice.endsAt <= now);
+        if (finished.length === this.voices.length) {
+            this.finish();
+            return;
+        }
+        this.voices = this.voices.filter(voice => !finished.includes(voice));
+
+        const current = this.currentVoice(now) ?? this.voices[0];
+        this.scheduleNext(current);
+
+        this.setState({
+            index: current.index,
+            position: Math.max(0, Math.min(now - current.clipZero, this.buffers[current.index]!.duration)),
+            duration: this.buffers[current.index]!.duration
+        });
+    };
+
+    // Latest clip already audible
+    private currentVoice(now: number): Voice | undefined {
+        return [...this.voices].reverse().find(voice => voice.audibleAt <= now);
+    }
+
+    private currentPosition(): number {
+        const current = this.context ? this.currentVoice(this.context.currentTime) : undefined;
+        if (!current || !this.context) return this.state.position;
+        return Math.max(0, Math.min(this.context.currentTime - current.clipZero, this.buffers[current.index]!.duration));
+    }
+
+    private finish(): void {
+        this.stopVoices();
+        this.setState({ status: 'ended', position: this.state.duration });
+    }
+
+    private findPlayable(from: number, step: 1 | -1): number | null {
+        for (let i = from; i >= 0 && i < this.buffers.length; i += step) {
+            if (this.buffers[i]) return i;
+        }
+        return null;
+    }
+
+    // Next playable clip from `from` on, wrapping around when looping
+    private findNext(from: number): number | null {
+        return this.findPlayable(from, 1) ?? (this.loop ? this.findPlayable(0, 1) : null);
+    }
+
+    private stopVoice(voice: Voice): void {
+        try {
+            voice.source.stop();
+        } catch {
+            // Never started or already stopped
+        }
+        voice.source.disconnect();
+        voice.gain.disconnect();
+    }
+
+    private stopVoices(): void {
+        this.voices.forEach(voice => this.stopVoice(voice));
+        this.voices = [];
+        this.stopTimer();
+    }
+
+    private startTimer(): void {
+        if (this.timer === null) {
+            this.timer = window.setInterval(this.tick, TICK_MS);
+        }
+    }
+
+    private stopTimer(): void {
+        if (this.timer !== null) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private setState(update: Partial<PlayerState>): void {
+        this.state = { ...this.state, ...update };
+        this.listeners.forEach(listener => listener());
+    }
+}
@@ -1,4 +1,22 @@
-import { YamnetService } from './YamnetService';
+import { YamnetService, YAMNET_FRAME_SAMPLES, YAMNET_SAMPLE_RATE } from './YamnetService';
+import {
+    applyFades,
+    computeEnergyEnvelope,
+    findLaughBoundaries,
+    MAX_CLIP_DURATION_MS,
+    MIN_CLIP_DURATION_MS
+} from './laughSegmentation';
+import { findSilenceBounds, normalizeLoudness, TARGET_LOUDNESS_LUFS, TRUE_PEAK_CEILING_DB } from './loudness';
+import { encodeClip } from './clipEncoder';
+import {
+    findSpeechRegions,
+    randomPitchShift,
+    shiftPitch,
+    suppressRegions,
+    type FrameClassification,
+    type SpeechRegion
+} from './voiceAnonymizer';
+import type { AnonymizationStep } from '../../types';
 
 /**
  * LaughClipExtractor Service
@@ -7,14 +25,18 @@ import { YamnetService } from './YamnetService';
  * suitable for the "Laugh Starter" feature.
  * 
  * Key Features:
- * - Extracts 3-second laugh segments from session audio
+ * - Cuts each laugh at its natural onset/offset (YAMNet frames + energy, max 5s)
  * - Scores clips using YAMNet AI model
- * - Normalizes audio to -3dB peak for consistency
- * - Exports as compressed MP3 for optimal delivery
+ * - Trims leading/trailing silence and normalizes loudness to -16 LUFS
+ *   (EBU R128-style, -1 dBTP true-peak limit), with short edge fades
+ * - Optional voice anonymization: pitch/formant shift and muting of
+ *   speech-classified frames (see voiceAnonymizer)
+ * - Exports as MP3, encoded offline (faster than real time, identical
+ *   output in every browser)
  * 
  * Edge Cases Handled:
  * - No laughs detected in session
- * - Audio shorter than 3 seconds
+ * - Audio shorter than the minimum clip length
  * - Timestamp at edge of recording
  * - Decoding failures (Safari compatibility)
  */
@@ -25,12 +47,35 @@ interface LaughTimestamp {
     volume?: number;   // Optional: peak volume during laugh
 }
 
-interface ExtractedClip {
+export interface ExtractedClip {
     audioBlob: Blob;
+    mimeType: string;        // True type of audioBlob (audio/mpeg, or audio/wav fallback)
+    fileExtension: string;
     duration: number;        // milliseconds
     yamnetScore: number;     // 0-1, quality score
     timestamp: number;       // When laugh occurred in original recording
-    normalizedPeak: number;  // -3dB or actual if lower
+    loudness: number;        // Integrated loudness after normalization (LUFS)
+    truePeak: number;        // After limiting (dBTP)
+    anonymization: AnonymizationStep[]; // Empty when the raw voice is shared
+}
+
+// A scored laugh window the user can preview, trim and choose to share
+export interface LaughClipCandidate {
+    id: string;
+    timestamp: number;       // When the laugh occurred in the recording (ms)
+    startTime: number;       // Where this window starts in the recording (ms)
+    duration: number;        // Segment length (ms), at most MAX_CLIP_DURATION_MS
+    yamnetScore: number;     // 0-1, quality score
+    buffer: AudioBuffer;     // Untrimmed, unnormalized window
+    speechRegions: SpeechRegion[]; // Talking within the window (muted when anonymizing)
+    pitchShift: number;      // Semitones used when anonymizing - fixed per candidate so
+                             // the preview matches the upload, never stored
+}
+
+// Portion of a candidate to keep, in ms from the start of its window
+export interface ClipTrim {
+    start: number;
+    end: number;
 }
 
 export class LaughClipExtractor {
@@ -39,11 +84,14 @@ export class LaughClipExtractor {
     private audioContext: AudioContext | null = null;
 
     // Configuration
-    private readonly CLIP_DURATION_MS = 3000;    // 3 seconds
-    private readonly TARGET_PEAK_DB = -3;        // -3dB normalization target
-    private readonly SAMPLE_RATE = 16000;        // YAMNet expects 16kHz
-    private readonly MP3_BITRATE = 128;          // 128kbps for size/quality balance
+    private readonly SEARCH_BEFORE_MS = 3500;    // Detection fires mid-laugh, so look further back...
+    private readonly SEARCH_AFTER_MS = 3000;     // ...than ahead for the boundaries
+    private readonly FRAME_HOP_MS = 500;         // YAMNet frame spacing when scoring the search window
+    private readonly FADE_IN_MS = 15;
+    private readonly FADE_OUT_MS = 50;
+    private readonly SAMPLE_RATE = YAMNET_SAMPLE_RATE; // YAMNet expects 16kHz
     private readonly MIN_YAMNET_SCORE = 0.4;     // Minimum acceptable quality
+    private readonly MAX_CANDIDATE_OVERLAP = 0.5; // Skip windows mostly covering a better one
 
     private constructor() {
         this.yamnetService = YamnetService.getInstance();
@@ -68,80 +116,227 @@ export class LaughClipExtractor {
         laughTimestamps: LaughTimestamp[]
     ): Promise<ExtractedClip | null> {
         try {
-            // Edge Case 1: No laughs detected
-            if (!laughTimestamps || laughTimestamps.length === 0) {
-                console.warn('⚠️ No laugh timestamps provided');
-                return null;
-            }
+            const [bestClip] = await this.extractCandidates(sessionBlob, laughTimestamps, 1);
+            if (!bestClip) return null;
 
-            // Initialize AudioContext if needed
-            if (!this.audioContext || this.audioContext.state === 'closed') {
-                this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-            }
+            return await this.renderClip(bestClip);
 
-            // Step 1: Decode the session audio blob to AudioBuffer
-            const audioBuffer = await this.decodeAudioBlob(sessionBlob);
+        } catch (error) {
+            console.error('❌ Failed to extract laugh clip:', error);
+            return null;
+        }
+    }
 
-            // Edge Case 2: Audio too short
-            const durationMs = (audioBuffer.duration * 1000);
-            if (durationMs < this.CLIP_DURATION_MS) {
-                console.warn(`⚠️ Session too short: ${durationMs}ms < ${this.CLIP_DURATION_MS}ms`);
-                return null;
-            }
+    /**
+     * Score every laugh in a session and return the best N windows
+     *
+     * Windows that mostly overlap a higher-scoring one are skipped, so
+     * back-to-back laughs don't produce near-identical candidates.
+     *
+     * @param sessionBlob - The full session audio recording
+     * @param laughTimestamps - Array of detected laugh events (from useAudioRecorder)
+     * @param limit - Maximum number of candidates to return
+     * @returns Candidates sorted by YAMNet score, best first (empty if none qualify)
+     */
+    async extractCandidates(
+        sessionBlob: Blob,
+        laughTimestamps: LaughTimestamp[],
+        limit: number = 3
+    ): Promise<LaughClipCandidate[]> {
+        // Edge Case 1: No laughs detected
+        if (!laughTimestamps || laughTimestamps.length === 0) {
+            console.warn('⚠️ No laugh timestamps provided');
+            return [];
+        }
 
-            // Step 2: Extract candidate clips for each laugh timestamp
-            const candidates: Array<{
-                buffer: AudioBuffer;
-                timestamp: number;
-                score: number;
-            }> = [];
-
-            for (const laugh of laughTimestamps) {
-                const clipBuffer = this.extractClipSegment(audioBuffer, laugh.time);
-                if (!clipBuffer) continue;
-
-                // Step 3: Score each clip using YAMNet
-                const score = await this.scoreClip(clipBuffer);
-
-                if (score >= this.MIN_YAMNET_SCORE) {
-                    candidates.push({
-                        buffer: clipBuffer,
-                        timestamp: laugh.time,
-                        score
-                    });
-                }
-            }
+        // Step 1: Decode the session audio blob to AudioBuffer
+        const audioBuffer = await this.decodeAudioBlob(sessionBlob);
 
-            // Edge Case 3: No clips meet quality threshold
-            if (candidates.length === 0) {
-                console.warn('⚠️ No clips met minimum YAMNet score threshold');
-                return null;
+        // Edge Case 2: Audio too short
+        const durationMs = (audioBuffer.duration * 1000);
+        if (durationMs < MIN_CLIP_DURATION_MS) {
+            console.warn(`⚠️ Session too short: ${durationMs}ms < ${MIN_CLIP_DURATION_MS}ms`);
+            return [];
+        }
+
+        // Step 2 + 3: Segment each laugh and score it using YAMNet
+        const scored: LaughClipCandidate[] = [];
+
+        for (const laugh of laughTimestamps) {
+            const segment = await this.extractClipSegment(audioBuffer, laugh.time);
+            if (!segment) continue;
+
+            if (segment.yamnetScore >= this.MIN_YAMNET_SCORE) {
+                scored.push({
+                    id: `${laugh.time}`,
+                    timestamp: laugh.time,
+                    startTime: segment.startTime,
+                    duration: (segment.buffer.length / segment.buffer.sampleRate) * 1000,
+                    yamnetScore: segment.yamnetScore,
+                    buffer: segment.buffer,
+                    speechRegions: segment.speechRegions,
+                    pitchShift: randomPitchShift()
+                });
             }
+        }
 
-            // Step 4: Select the best clip (highest YAMNet score)
-            candidates.sort((a, b) => b.score - a.score);
-            const bestClip = candidates[0];
+        // Edge Case 3: No clips meet quality threshold
+        if (scored.length === 0) {
+            console.warn('⚠️ No clips met minimum YAMNet score threshold');
+            return [];
+        }
 
-            console.log(`✅ Selected clip with score ${bestClip.score.toFixed(2)} from ${candidates.length} candidates`);
+        // Step 4: Keep the best non-overlapping windows
+        scored.sort((a, b) => b.yamnetScore - a.yamnetScore);
+        const candidates: LaughClipCandidate[] = [];
+        for (const candidate of scored) {
+            if (candidates.length >= limit) break;
+            if (candidates.some(chosen => this.getOverlap(chosen, candidate) > this.MAX_CANDIDATE_OVERLAP)) continue;
+            candidates.push(candidate);
+        }
 
-            // Step 5: Normalize audio to -3dB peak
-            const normalizedBuffer = this.normalizeAudio(bestClip.buffer);
+        console.log(`✅ Selected ${candidates.length} clip candidates from ${scored.length} scored laughs`);
+        return candidates;
+    }
 
-            // Step 6: Export as MP3 blob
-            const audioBlob = await this.exportAsMP3(normalizedBuffer);
+    /**
+     * Trimmed + normalized (and optionally anonymized) candidate as WAV, for
+     * previewing exactly what would be shared (before lossy encoding)
+     */
+    renderPreview(candidate: LaughClipCandidate, trim?: ClipTrim, anonymize: boolean = false): Blob {
+        const { buffer } = this.processClip(candidate, trim, anonymize);
+        return encodeClip(this.getChannels(buffer), buffer.sampleRate, 'wav').blob;
+    }
 
-            return {
-                audioBlob,
-                duration: this.CLIP_DURATION_MS,
-                yamnetScore: bestClip.score,
-                timestamp: bestClip.timestamp,
-                normalizedPeak: this.TARGET_PEAK_DB
-            };
+    /**
+     * Final clip for sharing: trimmed, optionally anonymized,
+     * loudness-normalized, faded and encoded
+     */
+    async renderClip(candidate: LaughClipCandidate, trim?: ClipTrim, anonymize: boolean = false): Promise<ExtractedClip> {
+        const processed = this.processClip(candidate, trim, anonymize);
+
+        // Encode as MP3
+        const encoded = encodeClip(this.getChannels(processed.buffer), processed.buffer.sampleRate, 'mp3');
+
+        return {
+            audioBlob: encoded.blob,
+            mimeType: encoded.mimeType,
+            fileExtension: encoded.extension,
+            duration: Math.round(processed.buffer.duration * 1000),
+            yamnetScore: candidate.yamnetScore,
+            timestamp: candidate.timestamp,
+            loudness: processed.loudness,
+            truePeak: processed.truePeak,
+            anonymization: processed.anonymization
+        };
+    }
 
-        } catch (error) {
-            console.error('❌ Failed to extract laugh clip:', error);
-            return null;
+    /**
+     * Shared render path: trim, anonymize, cut silence, normalize loudness,
+     * fade the cut edges
+     */
+    private processClip(
+        candidate: LaughClipCandidate,
+        trim: ClipTrim | undefined,
+        anonymize: boolean
+    ): { buffer: AudioBuffer; loudness: number; truePeak: number; anonymization: AnonymizationStep[] } {
+        let buffer = this.trimBuffer(candidate.buffer, trim);
+        let anonymization: AnonymizationStep[] = [];
+
+        if (anonymize) {
+            // Speech regions are relative to the untrimmed window
+            const offset = trim?.start ?? 0;
+            const regions = candidate.speechRegions
+                .map(region => ({ start: region.start - offset, end: region.end - offset }))
+                .filter(region => region.end > 0 && region.start < buffer.duration * 1000);
+
+            ({ buffer, anonymization } = this.anonymizeVoice(buffer, regions, candidate.pitchShift));
+        }
+
+        const normalized = this.normalizeAudio(buffer);
+        return { ...normalized, buffer: this.fadeEdges(normalized.buffer), anonymization };
+    }
+
+    /**
+     * Mute talking, then shift pitch and formants (on a copy)
+     */
+    private anonymizeVoice(
+        buffer: AudioBuffer,
+        speechRegions: SpeechRegion[],
+        semitones: number
+    ): { buffer: AudioBuffer; anonymization: AnonymizationStep[] } {
+        const anonymized = this.sliceBuffer(buffer, 0, buffer.length);
+        const anonymization: AnonymizationStep[] = [];
+
+        for (const channel of this.getChannels(anonymized)) {
+            suppressRegions(channel, anonymized.sampleRate, speechRegions);
+            channel.set(shiftPitch(channel, anonymized.sampleRate, semitones));
+        }
+
+        if (speechRegions.length > 0) anonymization.push('speech_suppression');
+        anonymization.push('pitch_shift');
+
+        return { buffer: anonymized, anonymization };
+    }
+
+    private getAudioContext(): AudioContext {
+        if (!this.audioContext || this.audioContext.state === 'closed') {
+            this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+        }
+        return this.audioContext;
+    }
+
+    /**
+     * Fraction of the shorter window covered by the other
+     */
+    private getOverlap(a: LaughClipCandidate, b: LaughClipCandidate): number {
+        const overlap = Math.min(a.startTime + a.duration, b.startTime + b.duration) - Math.max(a.startTime, b.startTime);
+        return Math.max(0, overlap) / Math.min(a.duration, b.duration);
+    }
+
+    /**
+     * Copy the trimmed portion of a buffer (whole buffer without a trim)
+     */
+    private trimBuffer(buffer: AudioBuffer, trim?: ClipTrim): AudioBuffer {
+        if (!trim) return buffer;
+
+        const startSample = Math.max(0, Math.floor((trim.start / 1000) * buffer.sampleRate));
+        const endSample = Math.min(buffer.length, Math.ceil((trim.end / 1000) * buffer.sampleRate));
+        if (endSample <= startSample) {
+            throw new Error('Trim range is empty');
+        }
+
+        return this.sliceBuffer(buffer, startSample, endSample);
+    }
+
+    private getChannels(buffer: AudioBuffer): Float32Array[] {
+        return Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+    }
+
+    /**
+     * Copy samples [startSample, endSample) of every channel into a new buffer
+     */
+    private sliceBuffer(buffer: AudioBuffer, startSample: number, endSample: number): AudioBuffer {
+        const slice = this.getAudioContext().createBuffer(
+            buffer.numberOfChannels,
+            endSample - startSample,
+            buffer.sampleRate
+        );
+        for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+            slice.copyToChannel(buffer.getChannelData(channel).subarray(startSample, endSample), channel);
+        }
+
+        return slice;
+    }
+
+    /**
+     * Fade in/out every channel in place (the buffer is always a fresh copy)
+     */
+    private fadeEdges(buffer: AudioBuffer): AudioBuffer {
+        for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+            applyFades(buffer.getChannelData(channel), buffer.sampleRate, this.FADE_IN_MS, this.FADE_OUT_MS);
         }
+        return buffer;
     }
 
     /**
@@ -151,7 +346,7 @@ export class LaughClipExtractor {
     private async decodeAudioBlob(blob: Blob): Promise<AudioBuffer> {
         try {
             const arrayBuffer = await blob.arrayBuffer();
-            return await this.audioContext!.decodeAudioData(arrayBuffer);
+            return await this.getAudioContext().decodeAudioData(arrayBuffer);
         } catch (error) {
             // Safari sometimes fails with certain formats, try again with explicit conversion
             console.warn('⚠️ Initial decode failed, attempting format conversion');
@@ -167,61 +362,91 @@ export class LaughClipExtractor {
 
             // Try decoding again
             const arrayBuffer = await blob.arrayBuffer();
-            const decoded = await this.audioContext!.decodeAudioData(arrayBuffer);
+            const decoded = await this.getAudioContext().decodeAudioData(arrayBuffer);
             URL.revokeObjectURL(url);
             return decoded;
         }
     }
 
     /**
-     * Extract a 3-second clip centered on the laugh timestamp
-     * with bounds checking
+     * Cut the laugh around a timestamp at its natural boundaries
+     *
+     * Scores overlapping YAMNet frames across a search window, then lets
+     * laughSegmentation find the onset/offset from those scores and the
+     * energy envelope. The segment's score is the overlap-weighted mean of
+     * the frames it covers.
      */
-    private extractClipSegment(
+    private async extractClipSegment(
         sourceBuffer: AudioBuffer,
         timestampMs: number
-    ): AudioBuffer | null {
+    ): Promise<{ buffer: AudioBuffer; startTime: number; yamnetScore: number; speechRegions: SpeechRegion[] } | null> {
         try {
             const sampleRate = sourceBuffer.sampleRate;
-            const totalSamples = sourceBuffer.length;
-            const clipDurationSamples = Math.floor((this.CLIP_DURATION_MS / 1000) * sampleRate);
-
-            // Calculate start sample (center the clip on the timestamp)
-            const centerSample = Math.floor((timestampMs / 1000) * sampleRate);
-            let startSample = centerSample - Math.floor(clipDurationSamples / 2);
+            const toSample = (ms: number) => Math.round((ms / 1000) * sampleRate);
 
-            // Bounds checking: Ensure we don't exceed buffer limits
-            if (startSample < 0) {
-                startSample = 0;
-            }
-            if (startSample + clipDurationSamples > totalSamples) {
-                startSample = totalSamples - clipDurationSamples;
-            }
-
-            // Edge case: If still not enough samples, return null
-            if (startSample < 0 || clipDurationSamples > totalSamples) {
+            // Search window around the timestamp, bounded by the recording
+            const windowStart = Math.max(0, toSample(timestampMs - this.SEARCH_BEFORE_MS));
+            const windowEnd = Math.min(sourceBuffer.length, toSample(timestampMs + this.SEARCH_AFTER_MS));
+            if (windowEnd - windowStart < toSample(MIN_CLIP_DURATION_MS)) {
                 console.warn('⚠️ Cannot extract clip: insufficient samples');
                 return null;
             }
+            const windowStartMs = (windowStart / sampleRate) * 1000;
+            const windowMs = ((windowEnd - windowStart) / sampleRate) * 1000;
+
+            // Analyse at 16kHz mono (what YAMNet expects)
+            const searchBuffer = this.sliceBuffer(sourceBuffer, windowStart, windowEnd);
+            const mono = (await this.resampleTo16kMono(searchBuffer)).getChannelData(0);
+            const frames = await this.classifyFrames(mono);
+            const frameScores = frames.map(frame => frame.laughter);
+            const frameDurationMs = (YAMNET_FRAME_SAMPLES / this.SAMPLE_RATE) * 1000;
+
+            const segment = findLaughBoundaries({
+                windowMs,
+                anchorMs: timestampMs - windowStartMs,
+                energy: computeEnergyEnvelope(mono, this.SAMPLE_RATE),
+                frameScores,
+                frameHopMs: this.FRAME_HOP_MS,
+                frameDurationMs
+            });
 
-            // Create new AudioBuffer for the clip
-            const clipBuffer = this.audioContext!.createBuffer(
-                sourceBuffer.numberOfChannels,
-                clipDurationSamples,
-                sampleRate
+            // Weight each frame's score by how much of it falls inside the segment
+            let weightedScore = 0;
+            let totalWeight = 0;
+            frameScores.forEach((score, j) => {
+                const frameStart = j * this.FRAME_HOP_MS;
+                const overlap = Math.min(segment.endMs, frameStart + frameDurationMs) - Math.max(segment.startMs, frameStart);
+                if (overlap > 0) {
+                    weightedScore += score * overlap;
+                    totalWeight += overlap;
+                }
+            });
+
+            // Floor the end so the clip never exceeds the 5s cap by a rounding sample
+            const startSample = windowStart + Math.ceil((segment.startMs / 1000) * sampleRate);
+            const endSample = Math.min(
+                windowStart + Math.floor((segment.endMs / 1000) * sampleRate),
+                startSample + Math.floor((MAX_CLIP_DURATION_MS / 1000) * sampleRate)
             );
 
-            // Copy audio data
-            for (let channel = 0; channel < sourceBuffer.numberOfChannels; channel++) {
-                const sourceData = sourceBuffer.getChannelData(channel);
-                const clipData = clipBuffer.getChannelData(channel);
+            // Talking within the segment, relative to its first sample
+            const segmentStartMs = ((startSample - windowStart) / sampleRate) * 1000;
+            const segmentMs = ((endSample - startSample) / sampleRate) * 1000;
+            const speechRegions = findSpeechRegions(frames, this.FRAME_HOP_MS, frameDurationMs)
+                .map(region => ({
+                    start: Math.max(0, region.start - segmentStartMs),
+                    end: Math.min(segmentMs, region.end - segmentStartMs)
+                }))
+                .filter(region => region.end > region.start);
 
-                for (let i = 0; i < clipDurationSamples; i++) {
-                    clipData[i] = sourceData[startSample + i];
-                }
-            }
+            console.log(`✂️ Laugh at ${timestampMs}ms → ${Math.round(windowStartMs + segment.startMs)}-${Math.round(windowStartMs + segment.endMs)}ms (${segment.source})`);
 
-            return clipBuffer;
+            return {
+                buffer: this.sliceBuffer(sourceBuffer, startSample, endSample),
+                startTime: (startSample / sampleRate) * 1000,
+                yamnetScore: totalWeight > 0 ? weightedScore / totalWeight : 0,
+                speechRegions
+            };
 
         } catch (error) {
             console.error('❌ Failed to extract clip segment:', error);
@@ -230,21 +455,23 @@ export class LaughClipExtractor {
     }
 
     /**
-     * Score a clip using YAMNet model
-     * Resamples to 16kHz if needed
+     * YAMNet laughter and speech scores for each FRAME_HOP_MS-spaced frame
+     * of a 16kHz mono signal (empty if the model isn't ready)
      */
-    private async scoreClip(clipBuffer: AudioBuffer): Promise<number> {
-        try {
-            // YAMNet expects 16kHz mono audio
-            const resampledBuffer = await this.resampleTo16kMono(clipBuffer);
-            const audioData = resampledBuffer.getChannelData(0);
-
-            return await this.yamnetService.predict(audioData);
+    private async classifyFrames(audioData: Float32Array): Promise<FrameClassification[]> {
+        if (this.yamnetService.getStatus() !== 'ready') {
+            return [];
+        }
 
-        } catch (error) {
-            console.error('❌ Failed to score clip:', error);
-            return 0;
+        const hopSamples = Math.round((this.FRAME_HOP_MS / 1000) * this.SAMPLE_RATE);
+        const frames: FrameClassification[] = [];
+        for (let offset = 0; offset === 0 || offset + YAMNET_FRAME_SAMPLES <= audioData.length; offset += hopSamples) {
+            const scores = await this.yamnetService.predictScores(audioData.subarray(offset, offset + YAMNET_FRAME_SAMPLES));
+            frames.push(scores
+                ? { laughter: this.yamnetService.getLaughterScore(scores), speech: this.yamnetService.getSpeechScore(scores) }
+                : { laughter: 0, speech: 0 });
         }
+        return frames;
     }
 
     /**
@@ -270,153 +497,25 @@ export class LaughClipExtractor {
     }
 
     /**
-     * Normalize audio to -3dB peak
-     * Prevents clipping and ensures consistent volume across clips
+     * Trim leading/trailing silence, then normalize integrated loudness to
+     * TARGET_LOUDNESS_LUFS with a true-peak limiter at TRUE_PEAK_CEILING_DB
+     * All channels share one measurement and one gain, so clips played
+     * back-to-back sound equally loud and stereo balance is kept
      */
-    private normalizeAudio(buffer: AudioBuffer): AudioBuffer {
-        const normalizedBuffer = this.audioContext!.createBuffer(
-            buffer.numberOfChannels,
-            buffer.length,
-            buffer.sampleRate
+    private normalizeAudio(buffer: AudioBuffer): { buffer: AudioBuffer; loudness: number; truePeak: number } {
+        // Always a fresh copy - processing below happens in place
+        const { start, end } = findSilenceBounds(this.getChannels(buffer), buffer.sampleRate);
+        const normalizedBuffer = this.sliceBuffer(buffer, start, end);
+
+        const { gainDb, loudness, truePeak } = normalizeLoudness(
+            this.getChannels(normalizedBuffer),
+            normalizedBuffer.sampleRate,
+            TARGET_LOUDNESS_LUFS,
+            TRUE_PEAK_CEILING_DB
         );
 
-        for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
-            const inputData = buffer.getChannelData(channel);
-            const outputData = normalizedBuffer.getChannelData(channel);
-
-            // Find peak amplitude
-            let peak = 0;
-            for (let i = 0; i < inputData.length; i++) {
-                peak = Math.max(peak, Math.abs(inputData[i]));
-            }
-
-            // Calculate normalization factor
-            // -3dB = 0.707 (linear scale)
-            const targetAmplitude = Math.pow(10, this.TARGET_PEAK_DB / 20);
-            const gain = peak > 0 ? Math.min(targetAmplitude / peak, 1.0) : 1.0;
-
-            // Apply gain
-            for (let i = 0; i < inputData.length; i++) {
-                outputData[i] = inputData[i] * gain;
-            }
-        }
-
-        return normalizedBuffer;
-    }
-
-    /**
-     * Export AudioBuffer as MP3 Blob
-     * Uses MediaRecorder if available, fallback to WAV
-     */
-    private async exportAsMP3(buffer: AudioBuffer): Promise<Blob> {
-        try {
-            // Create a MediaStreamSource from the buffer
-            const mediaStreamDestination = this.audioContext!.createMediaStreamDestination();
-            const source = this.audioContext!.createBufferSource();
-            source.buffer = buffer;
-            source.connect(mediaStreamDestination);
-
-            // MediaRecorder with MP3 encoding (if supported)
-            const mimeType = this.getSupportedMimeType();
-            const mediaRecorder = new MediaRecorder(mediaStreamDestination.stream, {
-                mimeType,
-                audioBitsPerSecond: this.MP3_BITRATE * 1000
-            });
-
-            const chunks: Blob[] = [];
-            mediaRecorder.ondataavailable = (event) => {
-                if (event.data.size > 0) {
-                    chunks.push(event.data);
-                }
-            };
-
-            // Start recording and play the buffer
-            mediaRecorder.start();
-            source.start(0);
-
-            // Wait for recording to complete
-            await new Promise<void>((resolve) => {
-                source.onended = () => {
-                    mediaRecorder.stop();
-                };
-                mediaRecorder.onstop = () => {
-                    resolve();
-                };
-            });
-
-            return new Blob(chunks, { type: mimeType });
-
-        } catch (error) {
-            console.error('❌ MP3 export failed, falling back to WAV:', error);
-            return this.exportAsWAV(buffer);
-        }
-    }
-
-    /**
-     * Get supported MIME type for MediaRecorder
-     * Prefers MP3, falls back to WebM/Opus or WAV
-     */
-    private getSupportedMimeType(): string {
-        const types = [
-            'audio/mpeg',              // MP3 (ideal)
-            'audio/mp4',               // M4A (Safari)
-            'audio/webm;codecs=opus',  // WebM (Chrome/Firefox)
-            'audio/ogg;codecs=opus',   // OGG
-        ];
-
-        for (const type of types) {
-            if (MediaRecorder.isTypeSupported(type)) {
-                return type;
-            }
-        }
-
-        return 'audio/wav'; // Worst-case fallback
-    }
-
-    /**
-     * Fallback: Export as WAV (uncompressed, larger file size)
-     */
-    private exportAsWAV(buffer: AudioBuffer): Blob {
-        const numberOfChannels = buffer.numberOfChannels;
-        const sampleRate = buffer.sampleRate;
-        const length = buffer.length * numberOfChannels * 2;
-
-        const arrayBuffer = new ArrayBuffer(44 + length);
-        const view = new DataView(arrayBuffer);
-
-        // WAV header
-        const writeString = (offset: number, string: string) => {
-            for (let i = 0; i < string.length; i++) {
-                view.setUint8(offset + i, string.charCodeAt(i));
-            }
-        };
-
-        writeString(0, 'RIFF');
-        view.setUint32(4, 36 + length, true);
-        writeString(8, 'WAVE');
-        writeString(12, 'fmt ');
-        view.setUint32(16, 16, true);
-        view.setUint16(20, 1, true);
-        view.setUint16(22, numberOfChannels, true);
-        view.setUint32(24, sampleRate, true);
-        view.setUint32(28, sampleRate * numberOfChannels * 2, true);
-        view.setUint16(32, numberOfChannels * 2, true);
-        view.setUint16(34, 16, true);
-        writeString(36, 'data');
-        view.setUint32(40, length, true);
-
-        // Write audio data
-        let offset = 44;
-        for (let i = 0; i < buffer.length; i++) {
-            for (let channel = 0; channel < numberOfChannels; channel++) {
-                const sample = buffer.getChannelData(channel)[i];
-                const intSample = Math.max(-1, Math.min(1, sample)) * 0x7FFF;
-                view.setInt16(offset, intSample, true);
-                offset += 2;
-            }
-        }
-
-        return new Blob([arrayBuffer], { type: 'audio/wav' });
+        console.log(`🔊 Normalized clip: ${gainDb.toFixed(1)}dB gain → ${loudness.toFixed(1)} LUFS, ${truePeak.toFixed(1)} dBTP`);
+        return { buffer: normalizedBuffer, loudness, truePeak };
     }
 
     /**
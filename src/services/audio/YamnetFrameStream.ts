@@ -0,0 +1,118 @@
+import captureWorkletUrl from './yamnetCapture.worklet.ts?worker&url';
+import { YamnetService, YAMNET_SAMPLE_RATE, YAMNET_FRAME_SAMPLES, type YamnetPrediction } from './YamnetService';
+import type { YamnetCaptureFrameMessage, YamnetCaptureOptions } from './yamnetCapture.worklet';
+
+/**
+ * YamnetFrameStream
+ *
+ * Streams live microphone audio into YAMNet the way the model was trained:
+ * 16 kHz mono in 0.975 s windows. Capture, resampling and windowing run in
+ * an AudioWorklet (audio thread); each window is scored as it arrives and
+ * the per-frame class scores are handed back to the caller.
+ *
+ * If inference falls behind, intermediate windows are dropped so results
+ * always describe the most recent audio.
+ */
+
+export interface YamnetFrameResult extends YamnetPrediction {
+    time: number;           // ms since the stream started, at the end of the window
+}
+
+// YAMNet's own patch hop (0.48 s) - consecutive windows overlap by ~50%
+const HOP_SAMPLES = 7680;
+
+// addModule() only needs to run once per AudioContext
+const contextsWithModule = new WeakSet<BaseAudioContext>();
+
+export class YamnetFrameStream {
+    private node: AudioWorkletNode | null = null;
+    private pendingFrame: YamnetCaptureFrameMessage | null = null;
+    private isInferring = false;
+    private readonly yamnetService = YamnetService.getInstance();
+    private readonly onFrame: (frame: YamnetFrameResult) => void;
+
+    constructor(onFrame: (frame: YamnetFrameResult) => void) {
+        this.onFrame = onFrame;
+    }
+
+    static isSupported(): boolean {
+        return typeof AudioWorkletNode !== 'undefined';
+    }
+
+    /**
+     * Attach the capture worklet to a source node (e.g. the mic stream source)
+     */
+    async start(audioContext: AudioContext, source: AudioNode): Promise<void> {
+        if (this.node) return;
+
+        if (!contextsWithModule.has(audioContext)) {
+            await audioContext.audioWorklet.addModule(captureWorkletUrl);
+            contextsWithModule.add(audioContext);
+        }
+
+        const processorOptions: YamnetCaptureOptions = {
+            targetSampleRate: YAMNET_SAMPLE_RATE,
+            frameSize: YAMNET_FRAME_SAMPLES,
+            hopSize: HOP_SAMPLES,
+        };
+
+        const node = new AudioWorkletNode(audioContext, 'yamnet-capture', {
+            numberOfInputs: 1,
+            numberOfOutputs: 1,
+            outputChannelCount: [1],
+            processorOptions,
+        });
+
+        node.port.onmessage = (event: MessageEvent<YamnetCaptureFrameMessage>) => {
+            if (event.data.type === 'frame') {
+                this.handleFrame(event.data);
+            }
+        };
+
+        source.connect(node);
+        // The processor writes silence; connecting it keeps the graph pulling it
+        node.connect(audioContext.destination);
+        this.node = node;
+
+        console.log('🎛️ YAMNet frame stream started (16 kHz, 0.975 s windows)');
+    }
+
+    /**
+     * Detach the worklet and drop any window still waiting for inference
+     */
+    stop(): void {
+        if (!this.node) return;
+
+        this.node.port.onmessage = null;
+        this.node.port.close();
+        this.node.disconnect();
+        this.node = null;
+        this.pendingFrame = null;
+    }
+
+    private handleFrame(frame: YamnetCaptureFrameMessage): void {
+        // Only the newest window matters if we're behind
+        this.pendingFrame = frame;
+        if (!this.isInferring) {
+            this.processPendingFrames();
+        }
+    }
+
+    private async processPendingFrames(): Promise<void> {
+        this.isInferring = true;
+
+        try {
+            while (this.pendingFrame && this.node) {
+                const frame = this.pendingFrame;
+                this.pendingFrame = null;
+
+                const prediction = await this.yamnetService.classify(frame.samples);
+                if (!prediction || !this.node) continue;
+
+                this.onFrame({ ...prediction, time: frame.endTime * 1000 });
+            }
+        } finally {
+            this.isInferring = false;
+        }
+    }
+}
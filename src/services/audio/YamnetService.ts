@@ -1,17 +1,79 @@
-import * as tf from '@tensorflow/tfjs';
+import YamnetWorker from './yamnet.worker.ts?worker';
+import type {
+    YamnetModelSource,
+    YamnetModelStatus,
+    YamnetWorkerRequestMap,
+    YamnetWorkerRequestType,
+    YamnetWorkerResponse,
+    YamnetWorkerResponseMap
+} from './yamnetWorkerProtocol';
+import {
+    BUILTIN_CLASS_MAP,
+    DEFAULT_LAUGHTER_CLASSES,
+    evaluateLaughter,
+    parseClassMap,
+    resolveClassSelectors,
+    resolveLaughterClasses,
+    SPEECH_CLASSES,
+    type LaughterClassConfig,
+    type LaughterEvaluation,
+    type ResolvedLaughterClasses,
+    type YamnetClass
+} from './yamnetClasses';
 
-// "Laughter" is index 16 in the official AudioSet ontology used by YAMNet.
-const LAUGHTER_INDEX = 16;
-const BABY_LAUGHTER_INDEX = 17;
-const GIGGLE_INDEX = 18;
-const SNICKER_INDEX = 19;
-const BELLY_LAUGH_INDEX = 20;
-const CHUCKLE_INDEX = 21;
+// YAMNet input format: 16 kHz mono, 0.975 s windows
+export const YAMNET_SAMPLE_RATE = 16000;
+export const YAMNET_FRAME_SAMPLES = 15600;
 
+// Model location - served from our own origin (see scripts/fetch-yamnet-model.js).
+// Override with VITE_YAMNET_MODEL_URL, or configure() in tests to use a fixture model.
+export const YAMNET_MODEL_VERSION: string = import.meta.env.VITE_YAMNET_MODEL_VERSION || '1.0';
+const DEFAULT_MODEL_URL: string = import.meta.env.VITE_YAMNET_MODEL_URL || `/models/yamnet/${YAMNET_MODEL_VERSION}/model.json`;
+const DEFAULT_CLASS_MAP_URL = `/models/yamnet/${YAMNET_MODEL_VERSION}/yamnet_class_map.csv`;
+const TFHUB_MODEL_URL = 'https://tfhub.dev/google/tfjs-model/yamnet/tfjs/1';
+
+export interface YamnetModelConfig {
+    modelUrl: string;
+    fallbackUrl: string | null; // null disables the TF Hub fallback
+    classMapUrl: string;        // yamnet_class_map.csv - built-in subset used if missing
+    version: string;            // Stored as laugh_clips.yamnet_version
+}
+
+// Full result for one frame: raw scores plus the laughter evaluation
+export interface YamnetPrediction extends LaughterEvaluation {
+    scores: Float32Array;
+}
+
+interface PendingRequest {
+    resolve: (value: never) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * YamnetService
+ *
+ * Main-thread facade for the YAMNet worker (yamnet.worker.ts).
+ * Model loading and inference run in the worker; this class keeps the
+ * original singleton API and turns worker messages into promises.
+ */
 export class YamnetService {
     private static instance: YamnetService;
-    private model: tf.GraphModel | null = null;
-    private isLoading: boolean = false;
+    private worker: Worker | null = null;
+    private nextRequestId = 1;
+    private pending = new Map<number, PendingRequest>();
+    private loadPromise: Promise<void> | null = null;
+    private status: YamnetModelStatus = 'idle';
+    private modelSource: YamnetModelSource | null = null;
+    private config: YamnetModelConfig = {
+        modelUrl: DEFAULT_MODEL_URL,
+        fallbackUrl: TFHUB_MODEL_URL,
+        classMapUrl: DEFAULT_CLASS_MAP_URL,
+        version: YAMNET_MODEL_VERSION,
+    };
+    private classMap: YamnetClass[] = BUILTIN_CLASS_MAP;
+    private laughterClasses: LaughterClassConfig = DEFAULT_LAUGHTER_CLASSES;
+    private resolvedClasses: ResolvedLaughterClasses = resolveLaughterClasses(DEFAULT_LAUGHTER_CLASSES, BUILTIN_CLASS_MAP);
+    private speechClasses: number[] = resolveClassSelectors(SPEECH_CLASSES, BUILTIN_CLASS_MAP);
 
     private constructor() { }
 
@@ -22,49 +84,235 @@ export class YamnetService {
         return YamnetService.instance;
     }
 
+    getStatus(): YamnetModelStatus {
+        return this.status;
+    }
+
+    /**
+     * Override where the model is loaded from
+     * Must be called before loadModel() (or after dispose())
+     */
+    configure(config: Partial<YamnetModelConfig>): void {
+        if (this.status !== 'idle' && this.status !== 'error') {
+            console.warn('⚠️ YamnetService.configure() called after load - dispose() first for it to take effect');
+        }
+        this.config = { ...this.config, ...config };
+    }
+
+    /**
+     * Version tag of the configured model (for laugh_clips.yamnet_version)
+     */
+    getModelVersion(): string {
+        return this.config.version;
+    }
+
+    /**
+     * Where the current model was loaded from, null until loaded
+     */
+    getModelSource(): YamnetModelSource | null {
+        return this.modelSource;
+    }
+
+    /**
+     * AudioSet class map for the model (built-in subset until the full map loads)
+     */
+    getClassMap(): YamnetClass[] {
+        return this.classMap;
+    }
+
+    getLaughterClasses(): LaughterClassConfig {
+        return this.laughterClasses;
+    }
+
+    /**
+     * Choose which classes count as laughter and which veto it
+     * Selectors can be AudioSet MIDs, display names or indices
+     */
+    setLaughterClasses(config: Partial<LaughterClassConfig>): void {
+        this.laughterClasses = { ...this.laughterClasses, ...config };
+        this.resolvedClasses = resolveLaughterClasses(this.laughterClasses, this.classMap);
+    }
+
     async loadModel(): Promise<void> {
-        if (this.model || this.isLoading) return;
+        if (this.status === 'ready') return;
 
-        try {
-            this.isLoading = true;
-            console.log('🧠 Loading YAMNet model...');
+        // Concurrent callers share the same load
+        if (!this.loadPromise) {
+            this.status = 'loading';
+            console.log('🧠 Loading YAMNet model in worker...');
 
-            this.model = await tf.loadGraphModel('https://tfhub.dev/google/tfjs-model/yamnet/tfjs/1', { fromTFHub: true });
-            console.log('✅ YAMNet model loaded successfully');
-        } catch (error) {
-            console.error('❌ Failed to load YAMNet model:', error);
-            throw error;
-        } finally {
-            this.isLoading = false;
+            const classMapPromise = this.loadClassMap();
+            this.loadPromise = this.request('load', {
+                modelUrl: this.config.modelUrl,
+                fallbackUrl: this.config.fallbackUrl,
+                version: this.config.version
+            })
+                .then(async ({ source, version }) => {
+                    await classMapPromise;
+                    this.status = 'ready';
+                    this.modelSource = source;
+                    console.log(`✅ YAMNet model ${version} loaded successfully (${source})`);
+                })
+                .catch((error: Error) => {
+                    this.status = 'error';
+                    this.loadPromise = null;
+                    console.error('❌ Failed to load YAMNet model:', error);
+                    throw error;
+                });
         }
+
+        return this.loadPromise;
     }
 
+    /**
+     * Laughter score for a 16 kHz mono waveform (0 if the model isn't ready)
+     * Ignores veto classes - use classify() when false positives matter
+     */
     async predict(audioData: Float32Array): Promise<number> {
-        if (!this.model) {
-            return 0;
+        const scores = await this.predictScores(audioData);
+        return scores ? this.getLaughterScore(scores) : 0;
+    }
+
+    /**
+     * Full prediction: raw scores, top-N labelled classes, laughter score and veto
+     */
+    async classify(audioData: Float32Array, topN: number = 5): Promise<YamnetPrediction | null> {
+        const scores = await this.predictScores(audioData);
+        if (!scores) return null;
+
+        return { scores, ...this.evaluate(scores, topN) };
+    }
+
+    /**
+     * Evaluate already-computed class scores against the laughter class set
+     */
+    evaluate(scores: Float32Array, topN: number = 5): LaughterEvaluation {
+        return evaluateLaughter(scores, this.resolvedClasses, this.classMap, topN);
+    }
+
+    /**
+     * Run YAMNet on a 16 kHz mono waveform
+     * Returns the 521 AudioSet class scores averaged over the model's patches,
+     * or null if the model isn't loaded or inference failed
+     */
+    async predictScores(audioData: Float32Array): Promise<Float32Array | null> {
+        if (this.status !== 'ready') {
+            return null;
         }
 
         try {
-            return tf.tidy(() => {
-                const waveform = tf.tensor1d(audioData);
-
-                const [scores] = this.model!.predict(waveform) as tf.Tensor[];
-                const meanScores = scores.mean(0);
-                const scoreValues = meanScores.dataSync();
-
-                const laughterScore =
-                    scoreValues[LAUGHTER_INDEX] +
-                    scoreValues[BABY_LAUGHTER_INDEX] +
-                    scoreValues[GIGGLE_INDEX] +
-                    scoreValues[SNICKER_INDEX] +
-                    scoreValues[BELLY_LAUGH_INDEX] +
-                    scoreValues[CHUCKLE_INDEX];
-
-                return laughterScore;
-            });
+            // Copy so the caller's buffer survives the transfer to the worker
+            const samples = audioData.slice();
+            const { scores } = await this.request('predict', { samples }, [samples.buffer]);
+            return scores;
         } catch (error) {
             console.error('❌ Prediction failed:', error);
-            return 0;
+            return null;
         }
     }
+
+    /**
+     * Sum of the configured laughter class scores (capped at 1)
+     */
+    getLaughterScore(scores: Float32Array): number {
+        return this.evaluate(scores, 0).laughterScore;
+    }
+
+    /**
+     * Sum of the speech class scores (capped at 1)
+     */
+    getSpeechScore(scores: Float32Array): number {
+        return Math.min(1, this.speechClasses.reduce((sum, index) => sum + (scores[index] ?? 0), 0));
+    }
+
+    /**
+     * Ask the worker for its model status and TF.js backend (debugging)
+     */
+    async queryWorkerStatus(): Promise<YamnetWorkerResponseMap['status']> {
+        return this.request('status', {});
+    }
+
+    /**
+     * Free the model and shut the worker down
+     * The next loadModel() starts a fresh worker
+     */
+    async dispose(): Promise<void> {
+        if (!this.worker) return;
+
+        try {
+            await this.request('dispose', {});
+        } finally {
+            this.terminateWorker(new Error('YAMNet worker disposed'));
+            this.status = 'idle';
+            this.modelSource = null;
+        }
+    }
+
+    /**
+     * Fetch the full 521-class map; keeps the built-in subset on failure
+     */
+    private async loadClassMap(): Promise<void> {
+        try {
+            const response = await fetch(this.config.classMapUrl);
+            if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+
+            const classMap = parseClassMap(await response.text());
+            if (classMap.length === 0) throw new Error('Empty class map');
+
+            this.classMap = classMap;
+            this.resolvedClasses = resolveLaughterClasses(this.laughterClasses, classMap);
+        } catch (error) {
+            console.warn('⚠️ YAMNet class map unavailable, using built-in subset:', error);
+        }
+    }
+
+    private getWorker(): Worker {
+        if (!this.worker) {
+            const worker = new YamnetWorker();
+            worker.onmessage = (event: MessageEvent<YamnetWorkerResponse>) => this.handleResponse(event.data);
+            worker.onerror = (event: ErrorEvent) => {
+                console.error('❌ YAMNet worker crashed:', event.message);
+                this.status = 'error';
+                this.loadPromise = null;
+                this.terminateWorker(new Error(event.message || 'YAMNet worker crashed'));
+            };
+            this.worker = worker;
+        }
+        return this.worker;
+    }
+
+    private request<K extends YamnetWorkerRequestType>(
+        type: K,
+        payload: YamnetWorkerRequestMap[K],
+        transfer: Transferable[] = []
+    ): Promise<YamnetWorkerResponseMap[K]> {
+        const worker = this.getWorker();
+        const id = this.nextRequestId++;
+
+        return new Promise<YamnetWorkerResponseMap[K]>((resolve, reject) => {
+            this.pending.set(id, { resolve: resolve as (value: never) => void, reject });
+            worker.postMessage({ id, type, ...payload }, transfer);
+        });
+    }
+
+    private handleResponse(response: YamnetWorkerResponse): void {
+        const pending = this.pending.get(response.id);
+        if (!pending) return;
+        this.pending.delete(response.id);
+
+        if (response.ok) {
+            pending.resolve(response as never);
+        } else {
+            pending.reject(new Error(response.error));
+        }
+    }
+
+    private terminateWorker(reason: Error): void {
+        this.worker?.terminate();
+        this.worker = null;
+        this.loadPromise = null;
+
+        this.pending.forEach(({ reject }) => reject(reason));
+        this.pending.clear();
+    }
 }
@@ -0,0 +1,158 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+
+/**
+ * Clip Encoder
+ *
+ * Offline encoding of processed clip audio - runs as fast as the CPU
+ * allows (no real-time playback through MediaRecorder) and produces the
+ * same format in every browser, so the declared MIME type is always true.
+ *
+ * - MP3 via lamejs (pure JS LAME port), for sharing
+ * - 16-bit PCM WAV, for lossless previews and as the fallback
+ *
+ * Works on plain Float32Array channel data, so it runs in Node for tests.
+ */
+
+export type ClipFormat = 'mp3' | 'wav';
+
+export interface EncodedClip {
+    blob: Blob;
+    format: ClipFormat;
+    mimeType: string;       // Matches the bytes - use as the upload content type
+    extension: string;
+}
+
+export const CLIP_FORMATS: Record<ClipFormat, { mimeType: string; extension: string }> = {
+    mp3: { mimeType: 'audio/mpeg', extension: 'mp3' },
+    wav: { mimeType: 'audio/wav', extension: 'wav' },
+};
+
+export const DEFAULT_MP3_BITRATE = 128;    // kbps, size/quality balance for 5s clips
+
+// Sample rates an MPEG-1/2/2.5 Layer III stream can carry
+export const MP3_SAMPLE_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000];
+
+const MP3_FRAME_SAMPLES = 1152;
+
+/**
+ * Float samples (-1..1) to 16-bit PCM, clipping out-of-range values
+ */
+export function floatTo16BitPCM(samples: Float32Array): Int16Array {
+    const pcm = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+        const sample = Math.max(-1, Math.min(1, samples[i]));
+        pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
+    }
+    return pcm;
+}
+
+/**
+ * Encode mono or stereo audio as MP3 (extra channels are dropped)
+ * Throws for sample rates MP3 can't carry - see MP3_SAMPLE_RATES
+ */
+export function encodeMp3(channels: Float32Array[], sampleRate: number, kbps: number = DEFAULT_MP3_BITRATE): Uint8Array<ArrayBuffer> {
+    if (!MP3_SAMPLE_RATES.includes(sampleRate)) {
+        throw new Error(`MP3 does not support ${sampleRate}Hz audio`);
+    }
+    if (channels.length === 0) {
+        throw new Error('No audio channels to encode');
+    }
+
+    const pcm = channels.slice(0, 2).map(floatTo16BitPCM);
+    const encoder = new Mp3Encoder(pcm.length, sampleRate, kbps);
+    const chunks: Uint8Array[] = [];
+
+    for (let offset = 0; offset < pcm[0].length; offset += MP3_FRAME_SAMPLES) {
+        const left = pcm[0].subarray(offset, offset + MP3_FRAME_SAMPLES);
+        const right = pcm[1]?.subarray(offset, offset + MP3_FRAME_SAMPLES);
+        const chunk = encoder.encodeBuffer(left, right);
+        if (chunk.length > 0) chunks.push(chunk);
+    }
+
+    const tail = encoder.flush();
+    if (tail.length > 0) chunks.push(tail);
+
+    return concatBytes(chunks);
+}
+
+/**
+ * Encode audio as 16-bit PCM WAV (any channel count or sample rate)
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number): Uint8Array<ArrayBuffer> {
+    const numberOfChannels = channels.length;
+    const frames = channels[0]?.length ?? 0;
+    const dataLength = frames * numberOfChannels * 2;
+
+    const bytes = new Uint8Array(44 + dataLength);
+    const view = new DataView(bytes.buffer);
+
+    const writeString = (offset: number, string: string) => {
+        for (let i = 0; i < string.length; i++) {
+            view.setUint8(offset + i, string.charCodeAt(i));
+        }
+    };
+
+    // RIFF header + PCM fmt chunk
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + dataLength, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);
+    view.setUint16(22, numberOfChannels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * numberOfChannels * 2, true);
+    view.setUint16(32, numberOfChannels * 2, true);
+    view.setUint16(34, 16, true);
+    writeString(36, 'data');
+    view.setUint32(40, dataLength, true);
+
+    // Interleaved samples
+    const pcm = channels.map(floatTo16BitPCM);
+    let offset = 44;
+    for (let i = 0; i < frames; i++) {
+        for (let channel = 0; channel < numberOfChannels; channel++) {
+            view.setInt16(offset, pcm[channel][i], true);
+            offset += 2;
+        }
+    }
+
+    return bytes;
+}
+
+/**
+ * Encode to the requested format, labelled with its true MIME type
+ * MP3 falls back to WAV when the sample rate can't be carried as MP3
+ */
+export function encodeClip(channels: Float32Array[], sampleRate: number, format: ClipFormat = 'mp3'): EncodedClip {
+    let encodedFormat = format;
+    let bytes: Uint8Array<ArrayBuffer>;
+
+    if (format === 'mp3' && MP3_SAMPLE_RATES.includes(sampleRate)) {
+        bytes = encodeMp3(channels, sampleRate);
+    } else {
+        if (format === 'mp3') {
+            console.warn(`⚠️ ${sampleRate}Hz can't be encoded as MP3, exporting WAV instead`);
+        }
+        encodedFormat = 'wav';
+        bytes = encodeWav(channels, sampleRate);
+    }
+
+    const { mimeType, extension } = CLIP_FORMATS[encodedFormat];
+    return {
+        blob: new Blob([bytes], { type: mimeType }),
+        format: encodedFormat,
+        mimeType,
+        extension
+    };
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
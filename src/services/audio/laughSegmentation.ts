@@ -0,0 +1,213 @@
+/**
+ * Laugh Segmentation
+ *
+ * Finds where a laugh actually starts and stops around a detection
+ * timestamp, so shared clips follow the laugh instead of a fixed window.
+ *
+ * Two signals are combined:
+ * - YAMNet laughter scores on overlapping ~1s frames bound the region
+ *   that sounds like laughter (coarse, but robust to other noises)
+ * - A short-hop energy envelope finds the exact onset/offset inside it
+ *   (fine-grained, bridging the short gaps between "ha"s)
+ *
+ * Pure functions over plain arrays - all times are ms relative to the
+ * start of the analysed window.
+ */
+
+import { percentile } from '../../lib/calibration';
+
+export const MAX_CLIP_DURATION_MS = 5000;  // laugh_clips CHECK (duration <= 5000)
+export const MIN_CLIP_DURATION_MS = 1000;
+export const ENERGY_HOP_MS = 10;
+
+export interface SegmentationOptions {
+    scoreThreshold: number;     // YAMNet frames at/above this count as laughter
+    energyGateRatio: number;    // Gate between noise floor (0) and peak (1), in dB
+    minContrastDb: number;      // Below this peak-to-floor contrast, energy is ignored
+    maxGapMs: number;           // Quieter gaps bridged inside one laugh
+    preRollMs: number;          // Kept before the onset
+    postRollMs: number;         // Kept after the offset (laugh tails decay slowly)
+    minDurationMs: number;
+    maxDurationMs: number;
+}
+
+export const DEFAULT_SEGMENTATION_OPTIONS: SegmentationOptions = {
+    scoreThreshold: 0.3,
+    energyGateRatio: 0.35,
+    minContrastDb: 6,
+    maxGapMs: 300,
+    preRollMs: 100,
+    postRollMs: 200,
+    minDurationMs: MIN_CLIP_DURATION_MS,
+    maxDurationMs: MAX_CLIP_DURATION_MS,
+};
+
+export interface SegmentationInput {
+    windowMs: number;           // Length of the analysed window
+    anchorMs: number;           // Detection timestamp within the window
+    energy: Float32Array;       // dB per ENERGY_HOP_MS hop (see computeEnergyEnvelope)
+    frameScores: number[];      // YAMNet laughter score per frame (may be empty)
+    frameHopMs: number;         // Frame j starts at j * frameHopMs
+    frameDurationMs: number;
+}
+
+export interface LaughSegment {
+    startMs: number;
+    endMs: number;
+    peakMs: number;             // Loudest point of the laugh
+    source: 'yamnet' | 'energy'; // What bounded the search
+}
+
+/**
+ * RMS level in dBFS for each ENERGY_HOP_MS hop of a mono signal
+ */
+export function computeEnergyEnvelope(samples: Float32Array, sampleRate: number): Float32Array {
+    const hopSamples = Math.max(1, Math.round((ENERGY_HOP_MS / 1000) * sampleRate));
+    const envelope = new Float32Array(Math.ceil(samples.length / hopSamples));
+
+    for (let hop = 0; hop < envelope.length; hop++) {
+        const start = hop * hopSamples;
+        const end = Math.min(samples.length, start + hopSamples);
+        let sum = 0;
+        for (let i = start; i < end; i++) {
+            sum += samples[i] * samples[i];
+        }
+        const rms = Math.sqrt(sum / (end - start));
+        envelope[hop] = 20 * Math.log10(Math.max(rms, 1e-6)); // floor at -120 dB
+    }
+
+    return envelope;
+}
+
+/**
+ * Region the YAMNet frames call laughter: the best frame covering the
+ * anchor, grown over neighbouring frames above the threshold
+ */
+function findScoredRegion(input: SegmentationInput, threshold: number): { start: number; end: number } | null {
+    const { frameScores, frameHopMs, frameDurationMs, anchorMs } = input;
+
+    let seed = -1;
+    for (let j = 0; j < frameScores.length; j++) {
+        const start = j * frameHopMs;
+        const coversAnchor = start <= anchorMs && anchorMs < start + frameDurationMs;
+        if (coversAnchor && frameScores[j] >= threshold && (seed < 0 || frameScores[j] > frameScores[seed])) {
+            seed = j;
+        }
+    }
+    if (seed < 0) return null;
+
+    let first = seed;
+    let last = seed;
+    while (first > 0 && frameScores[first - 1] >= threshold) first--;
+    while (last < frameScores.length - 1 && frameScores[last + 1] >= threshold) last++;
+
+    return { start: first * frameHopMs, end: last * frameHopMs + frameDurationMs };
+}
+
+/**
+ * Onset/offset of the laugh around `anchorMs`, padded and clamped to
+ * [minDurationMs, maxDurationMs]
+ */
+export function findLaughBoundaries(
+    input: SegmentationInput,
+    options: SegmentationOptions = DEFAULT_SEGMENTATION_OPTIONS
+): LaughSegment {
+    const { windowMs, anchorMs, energy } = input;
+    const clampToWindow = (ms: number) => Math.max(0, Math.min(windowMs, ms));
+
+    // Step 1: Bound the search - YAMNet region, or the whole window when the
+    // model had nothing to say (not loaded, or the laugh scored low)
+    const scored = findScoredRegion(input, options.scoreThreshold);
+    const bounds = scored ?? { start: 0, end: windowMs };
+    const firstHop = Math.floor(clampToWindow(bounds.start) / ENERGY_HOP_MS);
+    const lastHop = Math.min(energy.length, Math.ceil(clampToWindow(bounds.end) / ENERGY_HOP_MS)) - 1;
+
+    // Step 2: Gate the energy envelope between the window's noise floor and
+    // the laugh's peak
+    const noiseFloor = percentile(Array.from(energy), 10);
+
+    // The detection fires somewhere in the laugh - its loudest point is the
+    // better seed (searched near the anchor when YAMNet gave no region)
+    const peakSearch = scored
+        ? { first: firstHop, last: lastHop }
+        : {
+            first: Math.max(firstHop, Math.floor((anchorMs - options.minDurationMs / 2) / ENERGY_HOP_MS)),
+            last: Math.min(lastHop, Math.ceil((anchorMs + options.minDurationMs / 2) / ENERGY_HOP_MS))
+        };
+    let peakHop = peakSearch.first;
+    for (let hop = peakSearch.first; hop <= peakSearch.last; hop++) {
+        if (energy[hop] > energy[peakHop]) peakHop = hop;
+    }
+    const contrast = (energy[peakHop] ?? noiseFloor) - noiseFloor;
+
+    let startMs: number;
+    let endMs: number;
+    if (contrast >= options.minContrastDb) {
+        // Step 3: Grow from the peak across hops above the gate, bridging short gaps
+        const gate = noiseFloor + options.energyGateRatio * contrast;
+        const maxGapHops = Math.round(options.maxGapMs / ENERGY_HOP_MS);
+
+        let onset = peakHop;
+        for (let hop = peakHop - 1, gap = 0; hop >= firstHop && gap <= maxGapHops; hop--) {
+            if (energy[hop] >= gate) {
+                onset = hop;
+                gap = 0;
+            } else {
+                gap++;
+            }
+        }
+
+        let offset = peakHop;
+        for (let hop = peakHop + 1, gap = 0; hop <= lastHop && gap <= maxGapHops; hop++) {
+            if (energy[hop] >= gate) {
+                offset = hop;
+                gap = 0;
+            } else {
+                gap++;
+            }
+        }
+
+        startMs = onset * ENERGY_HOP_MS - options.preRollMs;
+        endMs = (offset + 1) * ENERGY_HOP_MS + options.postRollMs;
+    } else if (scored) {
+        // Flat energy (e.g. heavy background noise) - trust YAMNet's region
+        startMs = scored.start;
+        endMs = scored.end;
+    } else {
+        startMs = anchorMs - options.minDurationMs / 2;
+        endMs = anchorMs + options.minDurationMs / 2;
+    }
+
+    const peakMs = (peakHop + 0.5) * ENERGY_HOP_MS;
+    startMs = clampToWindow(startMs);
+    endMs = clampToWindow(endMs);
+
+    // Step 4: Enforce duration limits around the peak
+    if (endMs - startMs > options.maxDurationMs) {
+        const centered = Math.max(startMs, Math.min(endMs - options.maxDurationMs, peakMs - options.maxDurationMs / 2));
+        startMs = centered;
+        endMs = centered + options.maxDurationMs;
+    } else if (endMs - startMs < options.minDurationMs) {
+        const minDuration = Math.min(options.minDurationMs, windowMs);
+        const center = (startMs + endMs) / 2;
+        startMs = Math.max(0, Math.min(windowMs - minDuration, center - minDuration / 2));
+        endMs = startMs + minDuration;
+    }
+
+    return { startMs, endMs, peakMs, source: scored ? 'yamnet' : 'energy' };
+}
+
+/**
+ * Linear fade in/out, in place, so cut edges don't click
+ */
+export function applyFades(data: Float32Array, sampleRate: number, fadeInMs: number, fadeOutMs: number): void {
+    const fadeInSamples = Math.min(data.length, Math.round((fadeInMs / 1000) * sampleRate));
+    const fadeOutSamples = Math.min(data.length, Math.round((fadeOutMs / 1000) * sampleRate));
+
+    for (let i = 0; i < fadeInSamples; i++) {
+        data[i] *= i / fadeInSamples;
+    }
+    for (let i = 0; i < fadeOutSamples; i++) {
+        data[data.length - 1 - i] *= i / fadeOutSamples;
+    }
+}
@@ -0,0 +1,330 @@
+/**
+ * Loudness Measurement & Normalization
+ *
+ * ITU-R BS.1770 / EBU R128-style processing for starter clips, so clips
+ * played back-to-back sound equally loud:
+ * - Integrated loudness (K-weighted, 400ms blocks, -70 LUFS absolute and
+ *   -10 LU relative gates)
+ * - True peak via 4x oversampling
+ * - Look-ahead true-peak limiter
+ * - Leading/trailing silence detection
+ *
+ * Channels are always processed linked: one measurement over all channels
+ * and one gain applied to all of them, so the stereo image is preserved.
+ *
+ * Pure functions over Float32Array channel data; gain/limiting is in place.
+ */
+
+export const TARGET_LOUDNESS_LUFS = -16;   // Streaming/mobile loudness target
+export const TRUE_PEAK_CEILING_DB = -1;    // EBU R128 max true peak
+export const MAX_NORMALIZATION_GAIN_DB = 20; // Don't drag quiet noise up to the target
+
+const BLOCK_MS = 400;
+const BLOCK_OVERLAP = 0.75;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+const OVERSAMPLING = 4;
+const INTERPOLATION_TAPS = 8;       // Taps on each side of the interpolated point
+
+const LIMITER_LOOKAHEAD_MS = 1.5;
+const LIMITER_RELEASE_MS = 50;
+
+export interface LoudnessNormalization {
+    gainDb: number;         // Gain applied before limiting
+    loudness: number;       // Integrated loudness after processing (LUFS)
+    truePeak: number;       // True peak after processing (dBTP)
+}
+
+export interface SilenceOptions {
+    absoluteThresholdDb: number;    // Always silence below this
+    relativeThresholdDb: number;    // ...or this far below the loudest window
+    padMs: number;                  // Kept on each side of the detected sound
+}
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceOptions = {
+    absoluteThresholdDb: -60,
+    relativeThresholdDb: -35,
+    padMs: 40,
+};
+
+const toDb = (linear: number) => 20 * Math.log10(linear);
+const fromDb = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * Second-order IIR filter (direct form I)
+ */
+function biquad(input: Float32Array, b: number[], a: number[]): Float32Array {
+    const output = new Float32Array(input.length);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+
+    for (let i = 0; i < input.length; i++) {
+        const x = input[i];
+        const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[1] * y1 - a[2] * y2;
+        x2 = x1;
+        x1 = x;
+        y2 = y1;
+        y1 = y;
+        output[i] = y;
+    }
+
+    return output;
+}
+
+/**
+ * BS.1770 K-weighting (high shelf + high pass), coefficients derived for
+ * any sample rate
+ */
+function kWeight(channel: Float32Array, sampleRate: number): Float32Array {
+    // Stage 1: high shelf (+4dB above ~1.7kHz, models the head)
+    let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+    let Q = 0.7071752369554196;
+    const Vh = Math.pow(10, 3.999843853973347 / 20);
+    const Vb = Math.pow(Vh, 0.4996667741545416);
+    let a0 = 1 + K / Q + K * K;
+    const shelved = biquad(
+        channel,
+        [(Vh + (Vb * K) / Q + K * K) / a0, (2 * (K * K - Vh)) / a0, (Vh - (Vb * K) / Q + K * K) / a0],
+        [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0]
+    );
+
+    // Stage 2: high pass (RLB, ~38Hz)
+    K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+    Q = 0.5003270373238773;
+    a0 = 1 + K / Q + K * K;
+    return biquad(shelved, [1, -2, 1], [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0]);
+}
+
+/**
+ * Integrated loudness in LUFS (-Infinity for silence)
+ */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): number {
+    const weighted = channels.map(channel => kWeight(channel, sampleRate));
+    const length = channels[0]?.length ?? 0;
+
+    // Clips shorter than one block are measured as a single block
+    const blockSize = Math.min(length, Math.round((BLOCK_MS / 1000) * sampleRate));
+    const hop = Math.max(1, Math.round(blockSize * (1 - BLOCK_OVERLAP)));
+    if (blockSize === 0) return -Infinity;
+
+    const blockPowers: number[] = [];
+    for (let start = 0; start + blockSize <= length; start += hop) {
+        let power = 0;
+        for (const channel of weighted) {
+            let sum = 0;
+            for (let i = start; i < start + blockSize; i++) {
+                sum += channel[i] * channel[i];
+            }
+            power += sum / blockSize;   // Channel weight 1.0 (L/R/mono)
+        }
+        blockPowers.push(power);
+    }
+
+    const blockLoudness = (power: number) => -0.691 + 10 * Math.log10(power);
+    const gatedMean = (threshold: number) => {
+        const kept = blockPowers.filter(power => blockLoudness(power) > threshold);
+        return kept.length > 0 ? kept.reduce((sum, power) => sum + power, 0) / kept.length : 0;
+    };
+
+    const absoluteMean = gatedMean(ABSOLUTE_GATE_LUFS);
+    if (absoluteMean === 0) return -Infinity;
+
+    const relativeMean = gatedMean(blockLoudness(absoluteMean) + RELATIVE_GATE_LU);
+    return relativeMean > 0 ? blockLoudness(relativeMean) : -Infinity;
+}
+
+// Hann-windowed sinc kernels for the OVERSAMPLING - 1 in-between phases
+const INTERPOLATION_KERNELS: number[][] = Array.from({ length: OVERSAMPLING - 1 }, (_, p) => {
+    const phase = (p + 1) / OVERSAMPLING;
+    const kernel: number[] = [];
+    for (let k = -INTERPOLATION_TAPS + 1; k <= INTERPOLATION_TAPS; k++) {
+        const t = phase - k;
+        const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+        const window = 0.5 * (1 + Math.cos((Math.PI * t) / INTERPOLATION_TAPS));
+        kernel.push(sinc * window);
+    }
+    return kernel;
+});
+
+/**
+ * Largest absolute value between each sample and the next, including the
+ * oversampled in-between points
+ */
+function oversampledPeaks(channel: Float32Array): Float32Array {
+    const peaks = new Float32Array(channel.length);
+
+    for (let n = 0; n < channel.length; n++) {
+        let peak = Math.abs(channel[n]);
+        for (const kernel of INTERPOLATION_KERNELS) {
+            let value = 0;
+            for (let j = 0; j < kernel.length; j++) {
+                const index = n + j - INTERPOLATION_TAPS + 1;
+                if (index >= 0 && index < channel.length) {
+                    value += channel[index] * kernel[j];
+                }
+            }
+            peak = Math.max(peak, Math.abs(value));
+        }
+        peaks[n] = peak;
+    }
+
+    return peaks;
+}
+
+/**
+ * Linked per-sample true peak across all channels
+ */
+function linkedPeaks(channels: Float32Array[]): Float32Array {
+    const peaks = new Float32Array(channels[0]?.length ?? 0);
+    for (const channel of channels) {
+        const channelPeaks = oversampledPeaks(channel);
+        for (let i = 0; i < peaks.length; i++) {
+            peaks[i] = Math.max(peaks[i], channelPeaks[i]);
+        }
+    }
+    return peaks;
+}
+
+/**
+ * True peak in dBTP (-Infinity for silence)
+ */
+export function measureTruePeak(channels: Float32Array[]): number {
+    const peaks = linkedPeaks(channels);
+    let max = 0;
+    for (let i = 0; i < peaks.length; i++) {
+        max = Math.max(max, peaks[i]);
+    }
+    return toDb(max);
+}
+
+/**
+ * Look-ahead limiter keeping the true peak under `ceilingDb`, in place
+ *
+ * The gain needed at each sample is held for the look-ahead window, given
+ * an exponential release, then smoothed over the look-ahead window - the
+ * smoothing only averages values at or below the gain each sample needs,
+ * so the attack is click-free without overshooting.
+ */
+export function limitTruePeak(channels: Float32Array[], sampleRate: number, ceilingDb: number = TRUE_PEAK_CEILING_DB): void {
+    const ceiling = fromDb(ceilingDb);
+    const peaks = linkedPeaks(channels);
+    const length = peaks.length;
+    const lookahead = Math.max(1, Math.round((LIMITER_LOOKAHEAD_MS / 1000) * sampleRate));
+    const releaseCoef = Math.exp(-1 / ((LIMITER_RELEASE_MS / 1000) * sampleRate));
+
+    const required = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+        required[i] = peaks[i] > ceiling ? ceiling / peaks[i] : 1;
+    }
+
+    // Hold: lowest gain needed within the next `lookahead` samples, with release
+    const envelope = new Float32Array(length);
+    let previous = 1;
+    for (let i = 0; i < length; i++) {
+        let held = 1;
+        for (let j = i; j < Math.min(length, i + lookahead + 1); j++) {
+            held = Math.min(held, required[j]);
+        }
+        previous = Math.min(held, 1 - (1 - previous) * releaseCoef);
+        envelope[i] = previous;
+    }
+
+    // Smooth: moving average over the preceding look-ahead window
+    let sum = 0;
+    const gains = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+        sum += envelope[i];
+        if (i > lookahead) sum -= envelope[i - lookahead - 1];
+        gains[i] = sum / Math.min(i + 1, lookahead + 1);
+    }
+
+    for (const channel of channels) {
+        for (let i = 0; i < length; i++) {
+            channel[i] *= gains[i];
+        }
+    }
+
+    // Interpolated peaks between gain steps can still poke through by a hair
+    const overshoot = measureTruePeak(channels) - ceilingDb;
+    if (overshoot > 0) {
+        applyGain(channels, -overshoot);
+    }
+}
+
+export function applyGain(channels: Float32Array[], gainDb: number): void {
+    const gain = fromDb(gainDb);
+    for (const channel of channels) {
+        for (let i = 0; i < channel.length; i++) {
+            channel[i] *= gain;
+        }
+    }
+}
+
+/**
+ * Sample range [start, end) left after cutting leading/trailing silence
+ * (the whole range if everything is silent)
+ */
+export function findSilenceBounds(
+    channels: Float32Array[],
+    sampleRate: number,
+    options: SilenceOptions = DEFAULT_SILENCE_OPTIONS
+): { start: number; end: number } {
+    const length = channels[0]?.length ?? 0;
+    const windowSize = Math.max(1, Math.round(0.01 * sampleRate)); // 10ms
+    const windowCount = Math.ceil(length / windowSize);
+
+    // Loudest channel's RMS per window, in dB
+    const levels: number[] = [];
+    for (let w = 0; w < windowCount; w++) {
+        const start = w * windowSize;
+        const end = Math.min(length, start + windowSize);
+        let level = 0;
+        for (const channel of channels) {
+            let sum = 0;
+            for (let i = start; i < end; i++) {
+                sum += channel[i] * channel[i];
+            }
+            level = Math.max(level, Math.sqrt(sum / (end - start)));
+        }
+        levels.push(level > 0 ? toDb(level) : -Infinity);
+    }
+
+    const loudest = Math.max(-Infinity, ...levels);
+    const threshold = Math.max(options.absoluteThresholdDb, loudest + options.relativeThresholdDb);
+    const first = levels.findIndex(level => level > threshold);
+    if (first < 0) return { start: 0, end: length };
+
+    let last = levels.length - 1;
+    while (levels[last] <= threshold) last--;
+
+    const pad = Math.round((options.padMs / 1000) * sampleRate);
+    return {
+        start: Math.max(0, first * windowSize - pad),
+        end: Math.min(length, (last + 1) * windowSize + pad)
+    };
+}
+
+/**
+ * Bring linked channels to `targetLufs` (gain capped at
+ * MAX_NORMALIZATION_GAIN_DB) and limit the true peak, in place
+ */
+export function normalizeLoudness(
+    channels: Float32Array[],
+    sampleRate: number,
+    targetLufs: number = TARGET_LOUDNESS_LUFS,
+    ceilingDb: number = TRUE_PEAK_CEILING_DB
+): LoudnessNormalization {
+    const measured = measureLoudness(channels, sampleRate);
+    const gainDb = Number.isFinite(measured)
+        ? Math.min(MAX_NORMALIZATION_GAIN_DB, targetLufs - measured)
+        : 0;
+
+    applyGain(channels, gainDb);
+    limitTruePeak(channels, sampleRate, ceilingDb);
+
+    return {
+        gainDb,
+        loudness: measureLoudness(channels, sampleRate),
+        truePeak: measureTruePeak(channels)
+    };
+}
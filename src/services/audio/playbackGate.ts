@@ -0,0 +1,103 @@
+import { percentile } from '../../lib/calibration';
+
+/**
+ * PlaybackGate
+ *
+ * Keeps laughs played through the speakers (the laugh-along track) from
+ * being detected as the user's own. Every monitoring tick compares the
+ * microphone level with the level of what was being played - both are
+ * `computeVolumeLevel` values, which follow decibels, so the echo reaching
+ * the mic sits a roughly constant number of points below the playback:
+ *
+ * - Echo attenuation is learned while playing. The mic always hears at
+ *   least the echo, so playback minus mic is at most the attenuation; a
+ *   high percentile of it over the last few seconds estimates it (and the
+ *   user's own laughs, which only raise the mic, don't disturb it)
+ * - The playback level is held for `tailMs`: output latency and room echo
+ *   reach the mic after the analyser has seen the signal
+ * - Mic levels within `marginDb` of the expected echo are explained by the
+ *   playback and reported as silence to the detector
+ *
+ * Until enough playback has been heard the attenuation is assumed to be 0
+ * (echo as loud as the playback), so nothing slips through while learning.
+ * With headphones the learned attenuation is large and nothing is gated.
+ */
+
+export interface PlaybackGateOptions {
+    tailMs: number;             // How long playback stays relevant after it's measured
+    referenceFloor: number;     // Playback levels below this count as silence
+    marginDb: number;           // Mic must beat the expected echo by this much
+    learningWindowMs: number;   // History used to learn the attenuation
+    learningPercentile: number;
+    minLearningSamples: number; // Below this, assume no attenuation
+}
+
+export const DEFAULT_PLAYBACK_GATE_OPTIONS: PlaybackGateOptions = {
+    tailMs: 400,
+    referenceFloor: 5,
+    marginDb: 4,
+    learningWindowMs: 8000,
+    learningPercentile: 80,
+    minLearningSamples: 10
+};
+
+interface LevelSample {
+    time: number;   // ms
+    value: number;
+}
+
+export class PlaybackGate {
+    private readonly options: PlaybackGateOptions;
+    private references: LevelSample[] = [];
+    private differences: LevelSample[] = [];   // playback - mic, while playing
+
+    constructor(options: Partial<PlaybackGateOptions> = {}) {
+        this.options = { ...DEFAULT_PLAYBACK_GATE_OPTIONS, ...options };
+    }
+
+    /**
+     * Feed one tick; returns the mic level the laugh detector should see
+     * (0 when the sound is explained by the playback)
+     */
+    filter(time: number, micLevel: number, referenceLevel: number): number {
+        const { tailMs, referenceFloor, learningWindowMs } = this.options;
+
+        this.references = this.references.filter(sample => sample.time > time - tailMs);
+        this.differences = this.differences.filter(sample => sample.time > time - learningWindowMs);
+
+        if (referenceLevel >= referenceFloor) {
+            this.references.push({ time, value: referenceLevel });
+            this.differences.push({ time, value: referenceLevel - micLevel });
+        }
+
+        return micLevel > this.expectedEcho() + this.options.marginDb ? micLevel : 0;
+    }
+
+    /**
+     * Mic level the playback alone is expected to produce right now
+     * (0 when nothing was played within the tail)
+     */
+    expectedEcho(): number {
+        if (this.references.length === 0) return 0;
+
+        const held = Math.max(...this.references.map(sample => sample.value));
+        return Math.max(0, held - this.attenuation());
+    }
+
+    /**
+     * How much quieter the playback is at the mic (learned, 0 until known)
+     */
+    attenuation(): number {
+        const { minLearningSamples, learningPercentile } = this.options;
+        if (this.differences.length < minLearningSamples) return 0;
+        return Math.max(0, percentile(this.differences.map(sample => sample.value), learningPercentile));
+    }
+
+    /**
+     * Forget everything (new session)
+     */
+    reset(): void {
+        this.references = [];
+        this.differences = [];
+    }
+}
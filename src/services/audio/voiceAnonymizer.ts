@@ -0,0 +1,130 @@
+/**
+ * Voice Anonymizer
+ *
+ * Makes a shared laugh harder to tie back to the person who laughed:
+ * - Pitch/formant shift: granular resampling moves pitch and formants
+ *   together (a different-sounding vocal tract) while keeping the duration
+ * - Speech suppression: mutes stretches YAMNet classifies as talking, so
+ *   words spoken around the laugh aren't published with it
+ *
+ * Pure functions over Float32Array channel data.
+ */
+
+// Portion of a clip, in ms from its start
+export interface SpeechRegion {
+    start: number;
+    end: number;
+}
+
+export interface FrameClassification {
+    laughter: number;   // YAMNet laughter score (0-1)
+    speech: number;     // YAMNet speech score (0-1)
+}
+
+export const MIN_PITCH_SHIFT_SEMITONES = 3;
+export const MAX_PITCH_SHIFT_SEMITONES = 5;
+export const SPEECH_THRESHOLD = 0.4;
+
+const GRAIN_MS = 40;
+const SUPPRESSION_RAMP_MS = 30;
+const SUPPRESSION_GAIN = 0.01;  // -40dB
+
+/**
+ * Random shift between MIN and MAX semitones, up or down
+ * Never stored with the clip - knowing it would make the shift reversible
+ */
+export function randomPitchShift(random: () => number = Math.random): number {
+    const magnitude = MIN_PITCH_SHIFT_SEMITONES + random() * (MAX_PITCH_SHIFT_SEMITONES - MIN_PITCH_SHIFT_SEMITONES);
+    return random() < 0.5 ? -magnitude : magnitude;
+}
+
+/**
+ * Shift pitch and formants by `semitones`, keeping the length
+ *
+ * Overlapping Hann-windowed grains are each read from the input at the
+ * shifted rate around the same center, so the timeline is unchanged.
+ */
+export function shiftPitch(input: Float32Array, sampleRate: number, semitones: number): Float32Array {
+    const ratio = Math.pow(2, semitones / 12);
+    const grainSize = Math.max(4, Math.round((GRAIN_MS / 1000) * sampleRate) & ~1);
+    const hop = grainSize / 2;  // Periodic Hann at 50% overlap sums to 1
+    const output = new Float32Array(input.length);
+
+    const window = Float32Array.from({ length: grainSize }, (_, i) =>
+        0.5 * (1 - Math.cos((2 * Math.PI * i) / grainSize)));
+
+    const readAt = (position: number) => {
+        const index = Math.floor(position);
+        if (index < 0 || index >= input.length - 1) {
+            return index === input.length - 1 ? input[index] : 0;
+        }
+        const fraction = position - index;
+        return input[index] * (1 - fraction) + input[index + 1] * fraction;
+    };
+
+    for (let grainStart = -hop; grainStart < input.length; grainStart += hop) {
+        // Read around the grain's own center so it stays in place
+        const center = grainStart + grainSize / 2;
+        const readStart = center - (grainSize / 2) * ratio;
+
+        for (let i = 0; i < grainSize; i++) {
+            const outIndex = grainStart + i;
+            if (outIndex < 0 || outIndex >= output.length) continue;
+            output[outIndex] += readAt(readStart + i * ratio) * window[i];
+        }
+    }
+
+    return output;
+}
+
+/**
+ * Regions where YAMNet hears talking rather than laughing
+ *
+ * Frames overlap, so each frame only speaks for the hop-sized slice around
+ * its center; adjacent speech slices are merged.
+ */
+export function findSpeechRegions(
+    frames: FrameClassification[],
+    frameHopMs: number,
+    frameDurationMs: number,
+    threshold: number = SPEECH_THRESHOLD
+): SpeechRegion[] {
+    const regions: SpeechRegion[] = [];
+
+    frames.forEach((frame, j) => {
+        if (frame.speech < threshold || frame.speech <= frame.laughter) return;
+
+        const center = j * frameHopMs + frameDurationMs / 2;
+        const start = Math.max(0, center - frameHopMs / 2);
+        const end = center + frameHopMs / 2;
+
+        const previous = regions[regions.length - 1];
+        if (previous && start <= previous.end) {
+            previous.end = end;
+        } else {
+            regions.push({ start, end });
+        }
+    });
+
+    return regions;
+}
+
+/**
+ * Turn regions down to near silence, in place, with short ramps at the
+ * edges (ramps sit inside the region, so neighbouring laughter is untouched)
+ */
+export function suppressRegions(channel: Float32Array, sampleRate: number, regions: SpeechRegion[]): void {
+    const ramp = Math.round((SUPPRESSION_RAMP_MS / 1000) * sampleRate);
+
+    for (const region of regions) {
+        const start = Math.max(0, Math.round((region.start / 1000) * sampleRate));
+        const end = Math.min(channel.length, Math.round((region.end / 1000) * sampleRate));
+        const rampLength = Math.min(ramp, Math.floor((end - start) / 2));
+
+        for (let i = start; i < end; i++) {
+            const edgeDistance = Math.min(i - start, end - 1 - i);
+            const rampGain = rampLength > 0 && edgeDistance < rampLength ? edgeDistance / rampLength : 1;
+            channel[i] *= 1 - (1 - SUPPRESSION_GAIN) * rampGain;
+        }
+    }
+}
@@ -0,0 +1,140 @@
+import * as tf from '@tensorflow/tfjs';
+import type {
+    YamnetModelSource,
+    YamnetModelStatus,
+    YamnetWorkerRequest,
+    YamnetWorkerResponse
+} from './yamnetWorkerProtocol';
+
+/**
+ * YAMNet Web Worker
+ *
+ * Owns the TensorFlow.js model so loading and inference never block the
+ * main thread (avatar animation, UI). Talks to YamnetService through the
+ * protocol in yamnetWorkerProtocol.ts.
+ *
+ * Model loading order:
+ * 1. IndexedDB copy saved by a previous load (works offline)
+ * 2. The configured model URL (self-hosted under /models/yamnet/)
+ * 3. The fallback URL (TF Hub), if configured
+ * Network loads are saved back to IndexedDB under a version-tagged key.
+ */
+
+const CACHE_KEY_PREFIX = 'indexeddb://lafter-yamnet-';
+
+let model: tf.GraphModel | null = null;
+let status: YamnetModelStatus = 'idle';
+let source: YamnetModelSource = 'network';
+let version = '';
+
+const loadFromUrl = (url: string) =>
+    tf.loadGraphModel(url, { fromTFHub: url.includes('tfhub.dev') });
+
+async function loadModel(modelUrl: string, fallbackUrl: string | null, modelVersion: string): Promise<void> {
+    const cacheKey = `${CACHE_KEY_PREFIX}${modelVersion}`;
+    version = modelVersion;
+
+    // 1. Cached copy
+    try {
+        model = await tf.loadGraphModel(cacheKey);
+        source = 'cache';
+        return;
+    } catch {
+        // Not cached yet (or storage cleared) - fall through to the network
+    }
+
+    // 2. Self-hosted, then 3. fallback
+    try {
+        model = await loadFromUrl(modelUrl);
+        source = 'network';
+    } catch (error) {
+        if (!fallbackUrl || fallbackUrl === modelUrl) throw error;
+        console.warn(`⚠️ YAMNet worker: ${modelUrl} unavailable, trying fallback`, error);
+        model = await loadFromUrl(fallbackUrl);
+        source = 'fallback';
+    }
+
+    // Persist for offline use; a full or blocked IndexedDB only costs us the cache
+    try {
+        await model.save(cacheKey);
+        await pruneOldVersions(cacheKey);
+    } catch (error) {
+        console.warn('⚠️ YAMNet worker: Could not cache model', error);
+    }
+}
+
+/**
+ * Remove cached copies of other model versions
+ */
+async function pruneOldVersions(currentKey: string): Promise<void> {
+    const models = await tf.io.listModels();
+    const staleKeys = Object.keys(models).filter(key => key.startsWith(CACHE_KEY_PREFIX) && key !== currentKey);
+    await Promise.all(staleKeys.map(key => tf.io.removeModel(key)));
+}
+
+const respond = (response: YamnetWorkerResponse, transfer: Transferable[] = []) => {
+    self.postMessage(response, { transfer });
+};
+
+async function handleRequest(request: YamnetWorkerRequest): Promise<void> {
+    switch (request.type) {
+        case 'load': {
+            if (!model) {
+                status = 'loading';
+                try {
+                    await tf.ready();
+                    await loadModel(request.modelUrl, request.fallbackUrl, request.version);
+                    status = 'ready';
+                } catch (error) {
+                    status = 'error';
+                    throw error;
+                }
+            }
+            respond({ id: request.id, type: 'load', ok: true, status, source, version });
+            return;
+        }
+
+        case 'predict': {
+            if (!model) throw new Error('YAMNet model not loaded');
+
+            const meanScores = tf.tidy(() => {
+                const waveform = tf.tensor1d(request.samples);
+                const [scores] = model!.predict(waveform) as tf.Tensor[];
+                return scores.mean(0);
+            });
+
+            try {
+                const scores = await meanScores.data() as Float32Array;
+                respond({ id: request.id, type: 'predict', ok: true, scores }, [scores.buffer]);
+            } finally {
+                meanScores.dispose();
+            }
+            return;
+        }
+
+        case 'dispose': {
+            model?.dispose();
+            model = null;
+            status = 'idle';
+            respond({ id: request.id, type: 'dispose', ok: true, status });
+            return;
+        }
+
+        case 'status': {
+            respond({ id: request.id, type: 'status', ok: true, status, backend: model ? tf.getBackend() : null });
+            return;
+        }
+    }
+}
+
+self.onmessage = (event: MessageEvent<YamnetWorkerRequest>) => {
+    const request = event.data;
+    handleRequest(request).catch((error: unknown) => {
+        respond({
+            id: request.id,
+            type: request.type,
+            ok: false,
+            error: error instanceof Error ? error.message : String(error)
+        });
+    });
+};
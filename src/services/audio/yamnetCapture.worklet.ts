@@ -0,0 +1,122 @@
+/**
+ * YAMNet Capture AudioWorklet
+ *
+ * Runs on the audio rendering thread. Mixes the mic input to mono,
+ * resamples it to 16 kHz, keeps the most recent 0.975 s in a ring buffer
+ * and posts an overlapping window to the main thread every hop.
+ *
+ * Loaded via `audioContext.audioWorklet.addModule()` - see YamnetFrameStream.
+ */
+
+// AudioWorkletGlobalScope is not part of the DOM lib, declare what we use
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+    name: string,
+    processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+
+export interface YamnetCaptureOptions {
+    targetSampleRate: number; // 16000 for YAMNet
+    frameSize: number;        // Samples per window (15600 = 0.975 s)
+    hopSize: number;          // Samples between windows
+}
+
+export interface YamnetCaptureFrameMessage {
+    type: 'frame';
+    samples: Float32Array;    // frameSize samples at targetSampleRate, oldest first
+    endTime: number;          // Seconds of resampled audio captured when this frame ended
+}
+
+class YamnetCaptureProcessor extends AudioWorkletProcessor {
+    private readonly ratio: number;
+    private readonly frameSize: number;
+    private readonly hopSize: number;
+    private readonly targetSampleRate: number;
+
+    // Resampler state (box-filter decimation, supports fractional ratios)
+    private accumulator = 0;
+    private accumulatedCount = 0;
+    private inputPosition = 0;
+    private nextOutputBoundary: number;
+
+    // Ring buffer state
+    private readonly ring: Float32Array;
+    private writeIndex = 0;
+    private totalWritten = 0;
+    private samplesSinceFrame = 0;
+
+    constructor(options: AudioWorkletNodeOptions) {
+        super(options);
+        const { targetSampleRate, frameSize, hopSize } = options.processorOptions as YamnetCaptureOptions;
+
+        this.targetSampleRate = targetSampleRate;
+        this.frameSize = frameSize;
+        this.hopSize = hopSize;
+        this.ratio = sampleRate / targetSampleRate;
+        this.nextOutputBoundary = this.ratio;
+        this.ring = new Float32Array(frameSize);
+    }
+
+    process(inputs: Float32Array[][]): boolean {
+        const channels = inputs[0];
+        if (!channels || channels.length === 0) return true;
+
+        const blockLength = channels[0].length;
+        for (let i = 0; i < blockLength; i++) {
+            // Mono mixdown
+            let sample = 0;
+            for (let c = 0; c < channels.length; c++) {
+                sample += channels[c][i];
+            }
+            sample /= channels.length;
+
+            // Average every `ratio` input samples into one output sample.
+            // Acts as a crude low-pass so we don't alias everything above 8 kHz.
+            this.accumulator += sample;
+            this.accumulatedCount++;
+            this.inputPosition++;
+
+            if (this.inputPosition >= this.nextOutputBoundary) {
+                this.writeSample(this.accumulator / this.accumulatedCount);
+                this.accumulator = 0;
+                this.accumulatedCount = 0;
+                this.nextOutputBoundary += this.ratio;
+            }
+        }
+
+        // Keep the processor alive for the whole session
+        return true;
+    }
+
+    private writeSample(sample: number): void {
+        this.ring[this.writeIndex] = sample;
+        this.writeIndex = (this.writeIndex + 1) % this.frameSize;
+        this.totalWritten++;
+        this.samplesSinceFrame++;
+
+        if (this.totalWritten >= this.frameSize && this.samplesSinceFrame >= this.hopSize) {
+            this.samplesSinceFrame = 0;
+            this.emitFrame();
+        }
+    }
+
+    private emitFrame(): void {
+        // Unroll the ring so the oldest sample comes first
+        const samples = new Float32Array(this.frameSize);
+        samples.set(this.ring.subarray(this.writeIndex), 0);
+        samples.set(this.ring.subarray(0, this.writeIndex), this.frameSize - this.writeIndex);
+
+        const message: YamnetCaptureFrameMessage = {
+            type: 'frame',
+            samples,
+            endTime: this.totalWritten / this.targetSampleRate,
+        };
+        this.port.postMessage(message, [samples.buffer]);
+    }
+}
+
+registerProcessor('yamnet-capture', YamnetCaptureProcessor);
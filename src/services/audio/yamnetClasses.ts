@@ -0,0 +1,196 @@
+/**
+ * YAMNet Class Map & Laughter Class Sets
+ *
+ * YAMNet outputs 521 AudioSet classes. Note its indices are NOT the
+ * 527-class AudioSet `class_labels_indices.csv` indices - YAMNet drops a few
+ * classes, so e.g. "Laughter" is 13 here (16 in AudioSet).
+ *
+ * Class sets are defined by AudioSet MID (stable across model versions),
+ * display name or raw index, and resolved against the loaded class map.
+ */
+
+export interface YamnetClass {
+    index: number;
+    mid: string;   // AudioSet machine id, e.g. /m/01j3sz
+    name: string;  // Display name, e.g. "Laughter"
+}
+
+export interface ScoredClass extends YamnetClass {
+    score: number;
+}
+
+// A class reference: MID, display name or index
+export type ClassSelector = string | number;
+
+export interface LaughterClassConfig {
+    laughter: ClassSelector[];  // Summed into the laughter score
+    veto: ClassSelector[];      // Classes that rule out a laugh when they dominate
+    vetoThreshold: number;      // Minimum veto class score to be considered
+}
+
+export interface ResolvedLaughterClasses {
+    laughter: number[];
+    veto: number[];
+    vetoThreshold: number;
+}
+
+export interface LaughterEvaluation {
+    laughterScore: number;      // Sum of laughter class scores, capped at 1
+    veto: ScoredClass | null;   // Strongest veto class if it beat the laughter score
+    isLaughter: boolean;        // laughterScore > 0 and not vetoed
+    top: ScoredClass[];         // Top-N classes for this frame
+}
+
+export const YAMNET_CLASS_COUNT = 521;
+
+/**
+ * The head of yamnet_class_map.csv (indices 0-18: speech, shouting, laughter)
+ * Enough for the default class sets when the full map can't be fetched.
+ */
+export const BUILTIN_CLASS_MAP: YamnetClass[] = [
+    { index: 0, mid: '/m/09x0r', name: 'Speech' },
+    { index: 1, mid: '/m/0ytgt', name: 'Child speech, kid speaking' },
+    { index: 2, mid: '/m/01h8n0', name: 'Conversation' },
+    { index: 3, mid: '/m/02qldy', name: 'Narration, monologue' },
+    { index: 4, mid: '/m/0261r1', name: 'Babbling' },
+    { index: 5, mid: '/m/0brhx', name: 'Speech synthesizer' },
+    { index: 6, mid: '/m/07p6fty', name: 'Shout' },
+    { index: 7, mid: '/m/07q4ntr', name: 'Bellow' },
+    { index: 8, mid: '/m/07rwj3x', name: 'Whoop' },
+    { index: 9, mid: '/m/07sr1lc', name: 'Yell' },
+    { index: 10, mid: '/m/04gy_2', name: 'Children shouting' },
+    { index: 11, mid: '/m/03qc9zr', name: 'Screaming' },
+    { index: 12, mid: '/m/02rtxlg', name: 'Whispering' },
+    { index: 13, mid: '/m/01j3sz', name: 'Laughter' },
+    { index: 14, mid: '/m/0463cq4', name: 'Baby laughter' },
+    { index: 15, mid: '/m/07qw_06', name: 'Giggle' },
+    { index: 16, mid: '/m/07plz5l', name: 'Snicker' },
+    { index: 17, mid: '/m/015lz1', name: 'Belly laugh' },
+    { index: 18, mid: '/m/02fxyj', name: 'Chuckle, chortle' },
+];
+
+export const DEFAULT_LAUGHTER_CLASSES: LaughterClassConfig = {
+    laughter: [
+        '/m/01j3sz',  // Laughter
+        '/m/0463cq4', // Baby laughter
+        '/m/07qw_06', // Giggle
+        '/m/07plz5l', // Snicker
+        '/m/015lz1',  // Belly laugh
+        '/m/02fxyj',  // Chuckle, chortle
+    ],
+    veto: [
+        '/m/09x0r',   // Speech
+        '/m/07p6fty', // Shout
+        '/m/07sr1lc', // Yell
+        '/m/03qc9zr', // Screaming
+        '/m/01b_21',  // Cough (full class map only)
+        '/m/04rlf',   // Music (full class map only)
+        '/m/07c52',   // Television (full class map only)
+    ],
+    vetoThreshold: 0.3,
+};
+
+// Talking (not shouting) - muted around shared laughs when anonymizing.
+// All within BUILTIN_CLASS_MAP.
+export const SPEECH_CLASSES: ClassSelector[] = [
+    '/m/09x0r',   // Speech
+    '/m/0ytgt',   // Child speech, kid speaking
+    '/m/01h8n0',  // Conversation
+    '/m/02qldy',  // Narration, monologue
+    '/m/02rtxlg', // Whispering
+];
+
+/**
+ * Parse yamnet_class_map.csv (`index,mid,display_name`, names may be quoted)
+ */
+export function parseClassMap(csv: string): YamnetClass[] {
+    const classes: YamnetClass[] = [];
+
+    for (const line of csv.split(/\r?\n/)) {
+        const match = line.match(/^(\d+),([^,]+),(.*)$/);
+        if (!match) continue; // Header or blank line
+
+        const name = match[3].trim().replace(/^"(.*)"$/, '$1').replace(/""/g, '"');
+        classes.push({ index: Number(match[1]), mid: match[2].trim(), name });
+    }
+
+    return classes.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Turn selectors into class indices, skipping any the class map doesn't know
+ */
+export function resolveClassSelectors(selectors: ClassSelector[], classMap: YamnetClass[]): number[] {
+    const indices = new Set<number>();
+
+    for (const selector of selectors) {
+        if (typeof selector === 'number') {
+            if (selector >= 0 && selector < YAMNET_CLASS_COUNT) indices.add(selector);
+            continue;
+        }
+
+        const needle = selector.toLowerCase();
+        const match = classMap.find(c => c.mid === selector || c.name.toLowerCase() === needle);
+        if (match) indices.add(match.index);
+    }
+
+    return [...indices];
+}
+
+export function resolveLaughterClasses(
+    config: LaughterClassConfig,
+    classMap: YamnetClass[]
+): ResolvedLaughterClasses {
+    return {
+        laughter: resolveClassSelectors(config.laughter, classMap),
+        veto: resolveClassSelectors(config.veto, classMap),
+        vetoThreshold: config.vetoThreshold,
+    };
+}
+
+/**
+ * Label a class index, falling back to "Class N" for unknown indices
+ */
+function describeClass(index: number, classMap: YamnetClass[]): YamnetClass {
+    return classMap.find(c => c.index === index) ?? { index, mid: '', name: `Class ${index}` };
+}
+
+/**
+ * Highest scoring N classes, labelled
+ */
+export function getTopClasses(scores: Float32Array, classMap: YamnetClass[], topN: number): ScoredClass[] {
+    return Array.from(scores, (score, index) => ({ index, score }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topN)
+        .map(({ index, score }) => ({ ...describeClass(index, classMap), score }));
+}
+
+/**
+ * Score one frame against a laughter class set
+ *
+ * A frame is vetoed when a veto class scores at least `vetoThreshold`
+ * AND higher than the combined laughter score.
+ */
+export function evaluateLaughter(
+    scores: Float32Array,
+    classes: ResolvedLaughterClasses,
+    classMap: YamnetClass[],
+    topN: number = 5
+): LaughterEvaluation {
+    const laughterScore = Math.min(1, classes.laughter.reduce((sum, index) => sum + (scores[index] ?? 0), 0));
+
+    let veto: ScoredClass | null = null;
+    for (const index of classes.veto) {
+        const score = scores[index] ?? 0;
+        if (score >= classes.vetoThreshold && score > laughterScore && (!veto || score > veto.score)) {
+            veto = { ...describeClass(index, classMap), score };
+        }
+    }
+
+    return {
+        laughterScore,
+        veto,
+        isLaughter: laughterScore > 0 && veto === null,
+        top: topN > 0 ? getTopClasses(scores, classMap, topN) : [],
+    };
+}
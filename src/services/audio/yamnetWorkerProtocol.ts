@@ -0,0 +1,51 @@
+/**
+ * Typed message protocol between YamnetService (main thread)
+ * and yamnet.worker.ts (model loading + inference).
+ *
+ * Every request carries an `id`; the worker answers with the same `id`
+ * and `type`, or with an `error` response.
+ */
+
+export type YamnetModelStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+// Where the loaded model came from
+export type YamnetModelSource = 'cache' | 'network' | 'fallback';
+
+// Payload sent with each request type
+export interface YamnetWorkerRequestMap {
+    load: {
+        modelUrl: string;           // Self-hosted model.json (or a test fixture)
+        fallbackUrl: string | null; // Tried only if modelUrl is unreachable
+        version: string;            // Cache key - bump to invalidate stored copies
+    };
+    predict: { samples: Float32Array };   // 16 kHz mono waveform
+    dispose: Record<string, never>;
+    status: Record<string, never>;
+}
+
+// Payload returned for each request type
+export interface YamnetWorkerResponseMap {
+    load: { status: YamnetModelStatus; source: YamnetModelSource; version: string };
+    predict: { scores: Float32Array };    // 521 AudioSet class scores
+    dispose: { status: YamnetModelStatus };
+    status: { status: YamnetModelStatus; backend: string | null };
+}
+
+export type YamnetWorkerRequestType = keyof YamnetWorkerRequestMap;
+
+export type YamnetWorkerRequest = {
+    [K in YamnetWorkerRequestType]: { id: number; type: K } & YamnetWorkerRequestMap[K]
+}[YamnetWorkerRequestType];
+
+export type YamnetWorkerSuccess = {
+    [K in YamnetWorkerRequestType]: { id: number; type: K; ok: true } & YamnetWorkerResponseMap[K]
+}[YamnetWorkerRequestType];
+
+export interface YamnetWorkerFailure {
+    id: number;
+    type: YamnetWorkerRequestType;
+    ok: false;
+    error: string;
+}
+
+export type YamnetWorkerResponse = YamnetWorkerSuccess | YamnetWorkerFailure;
@@ -0,0 +1,223 @@
+import { supabase, DEMO_MODE } from '../../lib/supabase';
+import {
+    getLaughClips,
+    getCachedClips,
+    getCachedClip,
+    saveCachedClip,
+    replaceCachedClips,
+    type CachedClip
+} from '../../lib/db';
+
+/**
+ * ClipRepository
+ *
+ * Single source for the approved laugh clips Laugh Starter plays.
+ *
+ * - Online: approved clips from the Supabase `laugh_clips` table, with
+ *   community engagement aggregates, played through signed URLs
+ * - Every online fetch refreshes the IndexedDB `clip_cache` mirror; audio
+ *   is downloaded into it the first time a clip is played
+ * - Offline (or when Supabase is unreachable): served from that mirror
+ * - Demo mode: the local `laugh_clips` store, as before
+ */
+
+export type ClipSource = 'remote' | 'cache' | 'local';
+
+export interface LibraryClip {
+    id: string;
+    storage_path: string;
+    duration: number;           // milliseconds
+    yamnet_score: number;
+    mime_type: string;
+    contributor_id: string | null;  // Sharer's user id (for variety), unknown locally
+    play_count: number;         // Community engagement aggregates
+    skip_count: number;
+    thumbs_up: number;
+    thumbs_down: number;
+    source: ClipSource;
+    blob?: Blob;                // Audio already on this device
+}
+
+const STORAGE_BUCKET = 'laugh-starter-clips';
+const SIGNED_URL_TTL = 3600;        // seconds
+const LIBRARY_LIMIT = 200;          // Least-played first, so fresh clips get airtime
+const MAX_CACHED_BLOBS = 50;        // ~50 x 80KB of audio
+
+export class ClipRepository {
+    private static instance: ClipRepository;
+
+    private constructor() { }
+
+    public static getInstance(): ClipRepository {
+        if (!ClipRepository.instance) {
+            ClipRepository.instance = new ClipRepository();
+        }
+        return ClipRepository.instance;
+    }
+
+    /**
+     * Approved clips from the best available source
+     */
+    public async getApprovedClips(): Promise<LibraryClip[]> {
+        if (DEMO_MODE) {
+            return this.getLocalClips();
+        }
+
+        if (!navigator.onLine) {
+            console.log('📴 Offline - using cached laugh clips');
+            return this.getCachedLibrary();
+        }
+
+        try {
+            return await this.fetchRemoteClips();
+        } catch (err) {
+            console.warn('⚠️ Could not reach clip library, using cache:', err);
+            return this.getCachedLibrary();
+        }
+    }
+
+    /**
+     * URL to play a clip: cached audio when available, otherwise a signed
+     * URL (and the audio is cached in the background for next time).
+     * Object URLs (`blob:`) must be revoked by the caller.
+     */
+    public async getPlaybackUrl(clip: LibraryClip): Promise<string | null> {
+        if (clip.blob) {
+            return URL.createObjectURL(clip.blob);
+        }
+
+        const signedUrl = await this.getSignedUrl(clip.storage_path);
+        if (signedUrl && clip.source !== 'local') {
+            this.cacheAudio(clip.id, signedUrl);
+        }
+        return signedUrl;
+    }
+
+    public async getSignedUrl(storagePath: string): Promise<string | null> {
+        if (DEMO_MODE) {
+            return storagePath; // Demo mode uses direct paths
+        }
+
+        try {
+            const { data, error } = await supabase.storage
+                .from(STORAGE_BUCKET)
+                .createSignedUrl(storagePath, SIGNED_URL_TTL);
+
+            if (error) throw error;
+            return data.signedUrl;
+
+        } catch (err) {
+            console.error('❌ Failed to generate signed URL:', err);
+            return null;
+        }
+    }
+
+    private async fetchRemoteClips(): Promise<LibraryClip[]> {
+        const { data, error } = await supabase
+            .from('laugh_clips')
+            .select('id, user_id, storage_path, duration, yamnet_score, mime_type, play_count, skip_count, thumbs_up, thumbs_down')
+            .eq('approval_status', 'approved')
+            .order('play_count', { ascending: true })
+            .limit(LIBRARY_LIMIT);
+
+        if (error) throw error;
+
+        // Counter columns are nullable
+        const rows = (data || []).map(({ user_id, ...row }) => ({
+            ...row,
+            contributor_id: user_id ?? null,
+            play_count: row.play_count ?? 0,
+            skip_count: row.skip_count ?? 0,
+            thumbs_up: row.thumbs_up ?? 0,
+            thumbs_down: row.thumbs_down ?? 0
+        }));
+        const cached = new Map((await getCachedClips()).map(clip => [clip.id, clip]));
+        const syncedAt = Date.now();
+
+        // Mirror the library, keeping audio already downloaded. Clips no
+        // longer in it (unpublished by a moderator) leave the cache too.
+        await replaceCachedClips(rows.map(row => ({
+            ...row,
+            synced_at: syncedAt,
+            blob: cached.get(row.id)?.blob,
+            cached_at: cached.get(row.id)?.cached_at
+        })));
+
+        return rows.map(row => ({
+            ...row,
+            source: 'remote' as const,
+            blob: cached.get(row.id)?.blob
+        }));
+    }
+
+    // Only clips whose audio was downloaded can play without the network
+    private async getCachedLibrary(): Promise<LibraryClip[]> {
+        const cached = (await getCachedClips()).filter(clip => clip.blob);
+        return cached.map(clip => ({
+            id: clip.id,
+            storage_path: clip.storage_path,
+            duration: clip.duration,
+            yamnet_score: clip.yamnet_score,
+            mime_type: clip.mime_type,
+            contributor_id: clip.contributor_id ?? null,
+            play_count: clip.play_count,
+            skip_count: clip.skip_count,
+            thumbs_up: clip.thumbs_up,
+            thumbs_down: clip.thumbs_down,
+            source: 'cache' as const,
+            blob: clip.blob
+        }));
+    }
+
+    private async getLocalClips(): Promise<LibraryClip[]> {
+        const clips = await getLaughClips();
+
+        // Demo counters are this device's own engagement (see EngagementQueue)
+        return clips
+            .filter(clip => clip.approval_status === 'approved')
+            .map(clip => ({
+                id: clip.id,
+                storage_path: clip.storage_path,
+                duration: clip.duration,
+                yamnet_score: clip.yamnet_score,
+                mime_type: clip.blob.type,
+                contributor_id: null,
+                play_count: clip.play_count,
+                skip_count: clip.skip_count ?? 0,
+                thumbs_up: clip.thumbs_up ?? 0,
+                thumbs_down: clip.thumbs_down ?? 0,
+                source: 'local' as const,
+                blob: clip.blob
+            }));
+    }
+
+    /**
+     * Download a clip's audio into the cache (best effort, not awaited)
+     */
+    private async cacheAudio(clipId: string, url: string): Promise<void> {
+        try {
+            const response = await fetch(url);
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            const blob = await response.blob();
+
+            const entry = await getCachedClip(clipId);
+            if (!entry) return; // Unpublished while downloading
+
+            await saveCachedClip({ ...entry, blob, cached_at: Date.now() });
+            await this.evictAudio();
+        } catch (err) {
+            console.warn('⚠️ Failed to cache clip audio:', err);
+        }
+    }
+
+    // Keep only the most recently cached audio; metadata stays
+    private async evictAudio(): Promise<void> {
+        const withAudio = (await getCachedClips())
+            .filter((clip): clip is CachedClip & { cached_at: number } => !!clip.blob && clip.cached_at !== undefined)
+            .sort((a, b) => b.cached_at - a.cached_at);
+
+        for (const clip of withAudio.slice(MAX_CACHED_BLOBS)) {
+            await saveCachedClip({ ...clip, blob: undefined, cached_at: undefined });
+        }
+    }
+}
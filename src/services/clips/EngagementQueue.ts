@@ -0,0 +1,226 @@
+import { supabase, DEMO_MODE } from '../../lib/supabase';
+import {
+    addPendingEngagement,
+    getPendingEngagement,
+    removeSentEngagement,
+    getLaughClip,
+    saveLaughClip,
+    type EngagementDelta,
+    type PendingEngagement
+} from '../../lib/db';
+
+/**
+ * EngagementQueue
+ *
+ * Collects plays, skips, likes and dislikes of community clips and sends
+ * them in batches to the `record_clip_engagement` RPC, which increments
+ * the `laugh_clips` play/skip counters atomically and keeps one vote per
+ * listener and clip (thumbs_up/thumbs_down count listeners, not plays).
+ *
+ * Plays and skips are summed per listener and clip in the IndexedDB
+ * `engagement_queue` store first, with the listener's latest vote, so
+ * nothing is lost while offline or across reloads. Entries belong to the
+ * account that made them: a flush only sends the signed-in user's, so
+ * another account signing in on the device is never credited with them. The server adds at most MAX_COUNT_PER_CALL
+ * plays/skips per clip per call; larger backlogs go over several calls.
+ * Flushes:
+ * - A few seconds after new activity (coalescing a listening session)
+ * - Browser coming back online, app start, sign-in, page being hidden
+ *
+ * Demo mode has no server - counters on the local `laugh_clips` store are
+ * updated directly instead (this device being the only listener), so
+ * curation sees the same figures.
+ */
+
+export type EngagementKind = 'play' | 'skip' | 'like' | 'dislike';
+
+const FLUSH_DELAY_MS = 5000;
+const RETRY_DELAY_MS = 60 * 1000;
+const MAX_BATCH_SIZE = 100;     // Server-side limit per call
+const MAX_COUNT_PER_CALL = 20;  // increment_clip_engagement clamp (plays, skips)
+
+const EVENT_DELTAS: Record<EngagementKind, EngagementDelta> = {
+    play: { plays: 1 },
+    skip: { skips: 1 },
+    like: { vote: 'like' },
+    dislike: { vote: 'dislike' },
+};
+
+export class EngagementQueue {
+    private static instance: EngagementQueue;
+    private flushTimer: number | null = null;
+    private isFlushing = false;
+    private flushRequested = false;
+    private isStarted = false;
+    private unsubscribeAuth: (() => void) | null = null;
+
+    private constructor() { }
+
+    static getInstance(): EngagementQueue {
+        if (!EngagementQueue.instance) {
+            EngagementQueue.instance = new EngagementQueue();
+        }
+        return EngagementQueue.instance;
+    }
+
+    /**
+     * Watch connectivity and send anything left from a previous run
+     * Should be called on app startup
+     */
+    start(): void {
+        if (this.isStarted || DEMO_MODE) return;
+        this.isStarted = true;
+
+        window.addEventListener('online', this.handleOnline);
+        document.addEventListener('visibilitychange', this.handleVisibilityChange);
+
+        // A returning account may have engagement queued from before
+        const { data: { subscription } } = supabase.auth.onAuthStateChange(event => {
+            if (event === 'SIGNED_IN') this.flush();
+        });
+        this.unsubscribeAuth = () => subscription.unsubscribe();
+
+        this.flush();
+    }
+
+    stop(): void {
+        if (!this.isStarted) return;
+        this.isStarted = false;
+
+        window.removeEventListener('online', this.handleOnline);
+        document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+        this.unsubscribeAuth?.();
+        this.unsubscribeAuth = null;
+        this.clearFlushTimer();
+    }
+
+    /**
+     * Count one engagement event for a clip
+     */
+    async record(clipId: string, kind: EngagementKind): Promise<void> {
+        try {
+            if (DEMO_MODE) {
+                await this.applyLocally(clipId, EVENT_DELTAS[kind]);
+                return;
+            }
+
+            const userId = await this.getUserId();
+            if (!userId) return; // Only signed-in listeners count
+
+            await addPendingEngagement(userId, clipId, EVENT_DELTAS[kind]);
+            this.scheduleFlush(FLUSH_DELAY_MS);
+        } catch (err) {
+            // Analytics only - never bother the listener
+            console.error(`❌ EngagementQueue: Failed to record ${kind}`, err);
+        }
+    }
+
+    /**
+     * Send every queued count to the server
+     * Safe to call repeatedly - overlapping calls are coalesced
+     */
+    async flush(): Promise<void> {
+        if (DEMO_MODE) return;
+
+        if (this.isFlushing) {
+            this.flushRequested = true;
+            return;
+        }
+
+        this.isFlushing = true;
+        this.clearFlushTimer();
+
+        try {
+            do {
+                this.flushRequested = false;
+                await this.sendPending();
+            } while (this.flushRequested);
+        } catch (err) {
+            console.warn('⚠️ EngagementQueue: Flush failed, will retry', err);
+            this.scheduleFlush(RETRY_DELAY_MS);
+        } finally {
+            this.isFlushing = false;
+        }
+    }
+
+    private handleOnline = (): void => {
+        this.flush();
+    };
+
+    private handleVisibilityChange = (): void => {
+        if (document.visibilityState === 'hidden') this.flush();
+    };
+
+    private async sendPending(): Promise<void> {
+        if (!navigator.onLine) return; // 'online' will trigger the next flush
+
+        // Other accounts' entries wait until they sign in again
+        const userId = await this.getUserId();
+        if (!userId) return;
+
+        // Counts above the server's per-call limit stay queued for another round
+        let pending: PendingEngagement[];
+        do {
+            pending = await getPendingEngagement(userId);
+
+            for (let i = 0; i < pending.length; i += MAX_BATCH_SIZE) {
+                const events = pending.slice(i, i + MAX_BATCH_SIZE).map(entry => ({
+                    clip_id: entry.clip_id,
+                    plays: Math.min(entry.plays, MAX_COUNT_PER_CALL),
+                    skips: Math.min(entry.skips, MAX_COUNT_PER_CALL),
+                    vote: entry.vote
+                }));
+
+                // The server credits whoever is signed in now
+                if (await this.getUserId() !== userId) return;
+
+                const { error } = await supabase.rpc('record_clip_engagement', { p_events: events });
+                if (error) throw error;
+
+                // Take out exactly what was sent - events recorded meanwhile stay queued
+                for (const { clip_id, plays, skips, vote } of events) {
+                    await removeSentEngagement(userId, clip_id, { plays, skips, vote: vote ?? undefined });
+                }
+                console.log(`📊 EngagementQueue: Sent engagement for ${events.length} clips`);
+            }
+        } while (pending.some(entry => entry.plays > MAX_COUNT_PER_CALL || entry.skips > MAX_COUNT_PER_CALL));
+    }
+
+    // Local session, so this works offline too
+    private async getUserId(): Promise<string | null> {
+        const { data: { session } } = await supabase.auth.getSession();
+        return session?.user.id ?? null;
+    }
+
+    private async applyLocally(clipId: string, delta: EngagementDelta): Promise<void> {
+        const clip = await getLaughClip(clipId);
+        if (!clip) return; // Bundled demo audio isn't in the store
+
+        // One listener: thumbs reflect this device's latest vote
+        const votes = delta.vote
+            ? { thumbs_up: delta.vote === 'like' ? 1 : 0, thumbs_down: delta.vote === 'dislike' ? 1 : 0 }
+            : {};
+
+        await saveLaughClip({
+            ...clip,
+            play_count: clip.play_count + (delta.plays ?? 0),
+            skip_count: (clip.skip_count ?? 0) + (delta.skips ?? 0),
+            ...votes
+        });
+    }
+
+    private scheduleFlush(delayMs: number): void {
+        if (!this.isStarted || this.flushTimer !== null) return;
+        this.flushTimer = window.setTimeout(() => {
+            this.flushTimer = null;
+            this.flush();
+        }, delayMs);
+    }
+
+    private clearFlushTimer(): void {
+        if (this.flushTimer !== null) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+    }
+}
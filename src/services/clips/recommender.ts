@@ -0,0 +1,362 @@
+/**
+ * Clip Recommender
+ *
+ * Picks which approved clips Laugh Starter plays next. Strategies share
+ * one interface, so the hook can swap them:
+ * - Weighted random: hand-tuned boosts/penalties (the original heuristic)
+ * - Epsilon-greedy and Thompson sampling: bandits learning from likes vs
+ *   skips/dislikes (community counts plus this listener's own history)
+ * - Diversity: wraps any strategy to spread picks across contributors and
+ *   laugh styles
+ *
+ * Every pick carries the reasons it was chosen, for debugging. Randomness
+ * comes from the caller, so a seeded generator makes picks reproducible.
+ */
+
+// This listener's history with a clip (clip_interactions)
+export interface ListenerHistory {
+    liked: boolean;
+    skipped_count: number;
+    last_played_at: number;     // epoch ms
+}
+
+export interface RecommendationCandidate {
+    id: string;
+    yamnet_score: number;
+    duration: number;               // milliseconds
+    play_count: number;             // Community engagement aggregates
+    skip_count: number;
+    thumbs_up: number;
+    thumbs_down: number;
+    contributor_id: string | null;  // Who shared it, when known
+    history?: ListenerHistory;
+}
+
+export interface Recommendation<T extends RecommendationCandidate = RecommendationCandidate> {
+    clip: T;
+    score: number;          // Strategy-specific: weight, expected like rate or sample
+    reasons: string[];
+}
+
+export interface RecommendationContext {
+    now: number;
+    random: () => number;   // Uniform [0, 1)
+}
+
+export interface RecommenderStrategy {
+    name: string;
+    /**
+     * Up to `count` distinct clips, in play order
+     */
+    recommend<T extends RecommendationCandidate>(candidates: T[], count: number, context: RecommendationContext): Recommendation<T>[];
+}
+
+// Coarse laugh style from length - the only shape information stored per clip
+export type LaughStyle = 'giggle' | 'chuckle' | 'roar';
+
+export function laughStyle(clip: Pick<RecommendationCandidate, 'duration'>): LaughStyle {
+    if (clip.duration < 2000) return 'giggle';
+    if (clip.duration < 3500) return 'chuckle';
+    return 'roar';
+}
+
+/**
+ * Seeded uniform generator (mulberry32) - same seed, same picks
+ */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// ============================================================================
+// Weighted random
+// ============================================================================
+
+export interface WeightedRandomOptions {
+    baseWeight: number;
+    likedBoost: number;             // This listener liked it before
+    highScoreBoost: number;         // YAMNet score above highScoreThreshold
+    highScoreThreshold: number;
+    communityLikeBoost: number;     // Like ratio >= communityLikeRatio with enough votes
+    communityLikeRatio: number;
+    minCommunityVotes: number;
+    communitySkipPenalty: number;   // Skip ratio > communitySkipRatio with enough plays
+    communitySkipRatio: number;
+    minCommunityPlays: number;
+    skipPenalty: number;            // This listener skipped it more than skipThreshold times
+    skipThreshold: number;
+    coolDownPenalty: number;        // Played within coolDownMs
+    coolDownMs: number;
+    minWeight: number;              // Everything keeps some chance
+}
+
+export const DEFAULT_WEIGHTED_RANDOM_OPTIONS: WeightedRandomOptions = {
+    baseWeight: 1.0,
+    likedBoost: 2.0,
+    highScoreBoost: 1.5,
+    highScoreThreshold: 0.9,
+    communityLikeBoost: 1.0,
+    communityLikeRatio: 0.7,
+    minCommunityVotes: 3,
+    communitySkipPenalty: 1.0,
+    communitySkipRatio: 0.5,
+    minCommunityPlays: 10,
+    skipPenalty: 2.0,
+    skipThreshold: 2,
+    coolDownPenalty: 5.0,
+    coolDownMs: 60 * 60 * 1000,
+    minWeight: 0.1,
+};
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+/**
+ * Sampling weight of one clip, with the adjustments that produced it
+ */
+export function clipWeight(
+    clip: RecommendationCandidate,
+    now: number,
+    options: WeightedRandomOptions = DEFAULT_WEIGHTED_RANDOM_OPTIONS
+): { weight: number; reasons: string[] } {
+    let weight = options.baseWeight;
+    const reasons: string[] = [];
+    const adjust = (amount: number, reason: string) => {
+        weight += amount;
+        reasons.push(`${reason} (${amount > 0 ? '+' : ''}${amount})`);
+    };
+
+    if (clip.history?.liked) adjust(options.likedBoost, 'you liked it');
+    if (clip.yamnet_score > options.highScoreThreshold) adjust(options.highScoreBoost, `AI score ${percent(clip.yamnet_score)}`);
+
+    const votes = clip.thumbs_up + clip.thumbs_down;
+    if (votes >= options.minCommunityVotes && clip.thumbs_up / votes >= options.communityLikeRatio) {
+        adjust(options.communityLikeBoost, `${percent(clip.thumbs_up / votes)} of listeners like it`);
+    }
+    if (clip.play_count >= options.minCommunityPlays && clip.skip_count / clip.play_count > options.communitySkipRatio) {
+        adjust(-options.communitySkipPenalty, `skipped in ${percent(clip.skip_count / clip.play_count)} of plays`);
+    }
+
+    if (clip.history && clip.history.skipped_count > options.skipThreshold) {
+        adjust(-options.skipPenalty, `you skipped it ${clip.history.skipped_count}x`);
+    }
+    if (clip.history?.last_played_at && now - clip.history.last_played_at < options.coolDownMs) {
+        adjust(-options.coolDownPenalty, `played ${Math.round((now - clip.history.last_played_at) / 60000)} min ago`);
+    }
+
+    if (weight < options.minWeight) {
+        weight = options.minWeight;
+        reasons.push(`floored at ${options.minWeight}`);
+    }
+
+    return { weight, reasons };
+}
+
+/**
+ * Weighted random selection without replacement
+ */
+export function weightedRandomStrategy(overrides: Partial<WeightedRandomOptions> = {}): RecommenderStrategy {
+    const options = { ...DEFAULT_WEIGHTED_RANDOM_OPTIONS, ...overrides };
+
+    return {
+        name: 'weighted-random',
+        recommend(candidates, count, { now, random }) {
+            const pool = candidates.map(clip => ({ clip, ...clipWeight(clip, now, options) }));
+            const picks = [];
+
+            while (picks.length < count && pool.length > 0) {
+                const totalWeight = pool.reduce((sum, entry) => sum + entry.weight, 0);
+                let remaining = random() * totalWeight;
+                let index = pool.findIndex(entry => (remaining -= entry.weight) <= 0);
+                if (index === -1) index = pool.length - 1; // Float rounding at the very top
+
+                const [entry] = pool.splice(index, 1);
+                picks.push({
+                    clip: entry.clip,
+                    score: entry.weight,
+                    reasons: [`weight ${entry.weight.toFixed(1)} of ${totalWeight.toFixed(1)}`, ...entry.reasons]
+                });
+            }
+
+            return picks;
+        }
+    };
+}
+
+// ============================================================================
+// Bandits
+// ============================================================================
+
+// Beta posterior over "listener enjoys it": likes are successes,
+// skips and dislikes failures (community plus this listener, doubled)
+export function feedbackPosterior(clip: RecommendationCandidate): { alpha: number; beta: number } {
+    const ownLikes = clip.history?.liked ? 2 : 0;
+    const ownSkips = (clip.history?.skipped_count ?? 0) * 2;
+    return {
+        alpha: 1 + clip.thumbs_up + ownLikes,
+        beta: 1 + clip.thumbs_down + clip.skip_count + ownSkips,
+    };
+}
+
+const posteriorLabel = ({ alpha, beta }: { alpha: number; beta: number }) => `Beta(${alpha}, ${beta})`;
+
+// Clips played within the cool-down go last, whatever their estimate
+function splitRecentlyPlayed<T extends RecommendationCandidate>(candidates: T[], now: number, coolDownMs: number) {
+    const isRecent = (clip: T) => !!clip.history?.last_played_at && now - clip.history.last_played_at < coolDownMs;
+    return { fresh: candidates.filter(clip => !isRecent(clip)), recent: candidates.filter(isRecent) };
+}
+
+/**
+ * Epsilon-greedy: mostly the best expected like rate, sometimes a random clip
+ */
+export function epsilonGreedyStrategy(epsilon: number = 0.1, coolDownMs: number = DEFAULT_WEIGHTED_RANDOM_OPTIONS.coolDownMs): RecommenderStrategy {
+    return {
+        name: 'epsilon-greedy',
+        recommend(candidates, count, { now, random }) {
+            const { fresh, recent } = splitRecentlyPlayed(candidates, now, coolDownMs);
+            const picks = [];
+
+            for (const group of [fresh, recent]) {
+                const pool = group.map(clip => {
+                    const posterior = feedbackPosterior(clip);
+                    return { clip, posterior, mean: posterior.alpha / (posterior.alpha + posterior.beta) };
+                });
+
+                while (picks.length < count && pool.length > 0) {
+                    const explore = random() < epsilon;
+                    const index = explore
+                        ? Math.floor(random() * pool.length)
+                        : pool.reduce((best, entry, i) => entry.mean > pool[best].mean ? i : best, 0);
+
+                    const [entry] = pool.splice(index, 1);
+                    picks.push({
+                        clip: entry.clip,
+                        score: entry.mean,
+                        reasons: [
+                            explore ? `explore (epsilon ${epsilon})` : 'exploit: best expected like rate',
+                            `like rate ${percent(entry.mean)} from ${posteriorLabel(entry.posterior)}`,
+                            ...(group === recent ? ['played recently - only picked to fill the set'] : [])
+                        ]
+                    });
+                }
+            }
+
+            return picks;
+        }
+    };
+}
+
+// Standard normal via Box-Muller
+function sampleNormal(random: () => number): number {
+    const u = 1 - random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+// Gamma(shape, 1) via Marsaglia-Tsang (shape >= 1, always true for the posteriors here)
+function sampleGamma(shape: number, random: () => number): number {
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    for (;;) {
+        let x: number;
+        let v: number;
+        do {
+            x = sampleNormal(random);
+            v = 1 + c * x;
+        } while (v <= 0);
+        v = v * v * v;
+        const u = random();
+        if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+            return d * v;
+        }
+    }
+}
+
+export function sampleBeta(alpha: number, beta: number, random: () => number): number {
+    const x = sampleGamma(alpha, random);
+    const y = sampleGamma(beta, random);
+    return x / (x + y);
+}
+
+/**
+ * Thompson sampling: rank by one draw from each clip's posterior, so
+ * uncertain clips still get tried in proportion to their chance of being best
+ */
+export function thompsonStrategy(coolDownMs: number = DEFAULT_WEIGHTED_RANDOM_OPTIONS.coolDownMs): RecommenderStrategy {
+    return {
+        name: 'thompson',
+        recommend(candidates, count, { now, random }) {
+            const { fresh, recent } = splitRecentlyPlayed(candidates, now, coolDownMs);
+
+            const rank = (group: typeof candidates) => group
+                .map(clip => {
+                    const posterior = feedbackPosterior(clip);
+                    return { clip, posterior, sample: sampleBeta(posterior.alpha, posterior.beta, random) };
+                })
+                .sort((a, b) => b.sample - a.sample);
+
+            return [...rank(fresh), ...rank(recent)]
+                .slice(0, count)
+                .map(entry => ({
+                    clip: entry.clip,
+                    score: entry.sample,
+                    reasons: [
+                        `drew ${entry.sample.toFixed(2)} from ${posteriorLabel(entry.posterior)}`,
+                        ...(recent.includes(entry.clip) ? ['played recently - only picked to fill the set'] : [])
+                    ]
+                }));
+        }
+    };
+}
+
+// ============================================================================
+// Diversity
+// ============================================================================
+
+/**
+ * Re-rank another strategy's full ordering so the picks cover as many
+ * contributors and laugh styles as possible, in the inner strategy's order
+ */
+export function diversify(inner: RecommenderStrategy): RecommenderStrategy {
+    return {
+        name: `diverse-${inner.name}`,
+        recommend(candidates, count, context) {
+            const ranked = inner.recommend(candidates, candidates.length, context);
+            const contributors = new Set<string>();
+            const styles = new Set<LaughStyle>();
+            const picks: typeof ranked = [];
+
+            const novelty = (entry: (typeof ranked)[number]) => {
+                const contributor = entry.clip.contributor_id;
+                const isNewContributor = contributor === null || !contributors.has(contributor);
+                const isNewStyle = !styles.has(laughStyle(entry.clip));
+                return (isNewContributor ? 2 : 0) + (isNewStyle ? 1 : 0);
+            };
+
+            while (picks.length < count && ranked.length > 0) {
+                // Most novel first; ties keep the inner strategy's order
+                let index = 0;
+                for (let i = 1; i < ranked.length; i++) {
+                    if (novelty(ranked[i]) > novelty(ranked[index])) index = i;
+                }
+
+                const [entry] = ranked.splice(index, 1);
+                const style = laughStyle(entry.clip);
+                const reasons = [...entry.reasons];
+                if (index > 0) reasons.push(`moved up for variety (${style}${entry.clip.contributor_id && !contributors.has(entry.clip.contributor_id) ? ', new contributor' : ''})`);
+
+                if (entry.clip.contributor_id) contributors.add(entry.clip.contributor_id);
+                styles.add(style);
+                picks.push({ ...entry, reasons });
+            }
+
+            return picks;
+        }
+    };
+}
+
+export const DEFAULT_STRATEGY: RecommenderStrategy = diversify(weightedRandomStrategy());
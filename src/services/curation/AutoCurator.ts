@@ -1,18 +1,47 @@
-import { getLaughClips, saveLaughClip } from '../../lib/db';
+import { getLaughClips, saveLaughClip, getAllInteractions } from '../../lib/db';
+import { supabase } from '../../lib/supabase';
+import type { ClipApprovalStatus } from '../../types';
+import {
+    DEFAULT_CURATION_RULES,
+    planCuration,
+    statusesInScope,
+    type CurationClip,
+    type CurationDecision,
+    type CurationRule
+} from './curationRules';
+
+// Where the clips live: this device's IndexedDB, or the shared laugh_clips table
+export type CurationTarget = 'local' | 'supabase';
+
+export interface CurationOptions {
+    target?: CurationTarget;        // Default 'local'
+    dryRun?: boolean;               // Report what would change without writing
+}
+
+export interface CurationReport {
+    target: CurationTarget;
+    dryRun: boolean;
+    evaluated: number;              // Clips the rules were checked against
+    decisions: CurationDecision[];
+    applied: number;                // Decisions written (0 for a dry run)
+    byRule: Record<string, number>;
+    error?: string;                 // Set when the run stopped early
+}
 
 /**
  * AutoCurator Service
- * 
- * Responsible for automatically approving high-quality laugh clips
- * so they appear in the public feed without manual intervention.
- * 
- * Criteria for Auto-Approval:
- * - YAMNet Score > 0.75 (High confidence it's a laugh)
- * - Duration > 1500ms (Not too short/accidental)
- * - Status is currently 'pending'
+ *
+ * Runs the declarative curation rules (see curationRules.ts) over laugh
+ * clips: approves confident laughs, rejects non-laughs, flags clips
+ * listeners dislike and expires clips left pending too long.
+ *
+ * Works against the local store (run on app startup) or the Supabase
+ * table (run from the moderation console - updates need the moderator
+ * role). A dry run returns the same report without changing anything.
  */
 export class AutoCurator {
     private static instance: AutoCurator;
+    private rules: CurationRule[] = DEFAULT_CURATION_RULES;
 
     private constructor() { }
 
@@ -23,46 +52,158 @@ export class AutoCurator {
         return AutoCurator.instance;
     }
 
+    public getRules(): CurationRule[] {
+        return this.rules;
+    }
+
+    /**
+     * Replace the rule set (checked in order, first match wins)
+     */
+    public setRules(rules: CurationRule[]): void {
+        this.rules = rules;
+    }
+
     /**
      * Run the curation process
      * Should be called on app startup
      */
-    public async runAutoCuration(): Promise<number> {
-        console.log('🤖 AutoCurator: Starting analysis...');
+    public async runAutoCuration(options: CurationOptions = {}): Promise<CurationReport> {
+        const { target = 'local', dryRun = false } = options;
+        console.log(`🤖 AutoCurator: Starting ${dryRun ? 'dry run' : 'analysis'} (${target})...`);
+
+        const report: CurationReport = { target, dryRun, evaluated: 0, decisions: [], applied: 0, byRule: {} };
 
         try {
-            const allClips = await getLaughClips();
-
-            // Filter for pending clips that meet criteria
-            const eligibleClips = allClips.filter(clip =>
-                (clip.approval_status === 'pending' || !clip.approval_status) &&
-                clip.yamnet_score > 0.75 &&
-                clip.duration > 1500
-            );
-
-            if (eligibleClips.length === 0) {
-                console.log('🤖 AutoCurator: No new clips eligible for approval.');
-                return 0;
+            const statuses = statusesInScope(this.rules);
+            const clips = target === 'supabase'
+                ? await this.loadRemoteClips(statuses)
+                : await this.loadLocalClips(statuses);
+
+            report.evaluated = clips.length;
+            report.decisions = planCuration(clips, this.rules);
+            for (const decision of report.decisions) {
+                report.byRule[decision.ruleId] = (report.byRule[decision.ruleId] ?? 0) + 1;
             }
 
-            console.log(`🤖 AutoCurator: Found ${eligibleClips.length} eligible clips. Approving...`);
+            if (report.decisions.length === 0) {
+                console.log('🤖 AutoCurator: No clips matched a rule.');
+                return report;
+            }
 
-            // Approve them
-            let approvedCount = 0;
-            for (const clip of eligibleClips) {
-                await saveLaughClip({
-                    ...clip,
-                    approval_status: 'approved'
-                });
-                approvedCount++;
+            if (dryRun) {
+                console.log(`🤖 AutoCurator: Dry run - ${report.decisions.length} of ${clips.length} clips would change.`);
+                return report;
             }
 
-            console.log(`✅ AutoCurator: Successfully approved ${approvedCount} clips.`);
-            return approvedCount;
+            report.applied = target === 'supabase'
+                ? await this.applyRemote(report.decisions)
+                : await this.applyLocal(report.decisions);
+
+            console.log(`✅ AutoCurator: Applied ${report.applied} decisions.`);
+            return report;
 
         } catch (error) {
             console.error('❌ AutoCurator: Failed to run curation process', error);
-            return 0;
+            report.error = error instanceof Error ? error.message : 'Curation failed';
+            return report;
+        }
+    }
+
+    private async loadLocalClips(statuses: ClipApprovalStatus[]): Promise<CurationClip[]> {
+        const [clips, interactions] = await Promise.all([getLaughClips(), getAllInteractions()]);
+        const interactionsById = new Map(interactions.map(interaction => [interaction.clip_id, interaction]));
+
+        return clips
+            .map(clip => {
+                // Local engagement is this device's listener only; clips from
+                // before the counters existed fall back to the interaction log
+                const interaction = interactionsById.get(clip.id);
+                return {
+                    id: clip.id,
+                    approval_status: clip.approval_status ?? 'pending',
+                    yamnet_score: clip.yamnet_score,
+                    duration: clip.duration,
+                    loudness_lufs: clip.loudness_lufs ?? null,
+                    play_count: clip.play_count,
+                    skip_count: clip.skip_count ?? interaction?.skipped_count ?? 0,
+                    thumbs_up: clip.thumbs_up ?? (interaction?.liked ? 1 : 0),
+                    thumbs_down: clip.thumbs_down ?? 0,
+                    created_at: clip.created_at
+                };
+            })
+            .filter(clip => statuses.includes(clip.approval_status));
+    }
+
+    private async applyLocal(decisions: CurationDecision[]): Promise<number> {
+        const clipsById = new Map((await getLaughClips()).map(clip => [clip.id, clip]));
+        let applied = 0;
+
+        for (const decision of decisions) {
+            const clip = clipsById.get(decision.clipId);
+            if (!clip) continue;
+
+            await saveLaughClip({
+                ...clip,
+                approval_status: decision.to,
+                reviewed_by: null,
+                reviewed_at: Date.now(),
+                rejection_reason: decision.to === 'approved' ? null : decision.reason
+            });
+            applied++;
+        }
+
+        return applied;
+    }
+
+    private async loadRemoteClips(statuses: ClipApprovalStatus[]): Promise<CurationClip[]> {
+        const { data, error } = await supabase
+            .from('laugh_clips')
+            .select('id, approval_status, yamnet_score, duration, loudness_lufs, play_count, skip_count, thumbs_up, thumbs_down, created_at')
+            .in('approval_status', statuses);
+
+        if (error) throw error;
+
+        // Counter columns are nullable
+        return (data || []).map(row => ({
+            ...row,
+            loudness_lufs: row.loudness_lufs ?? null,
+            play_count: row.play_count ?? 0,
+            skip_count: row.skip_count ?? 0,
+            thumbs_up: row.thumbs_up ?? 0,
+            thumbs_down: row.thumbs_down ?? 0,
+            created_at: new Date(row.created_at).getTime()
+        }));
+    }
+
+    private async applyRemote(decisions: CurationDecision[]): Promise<number> {
+        // One update per outcome rather than per clip
+        const groups = new Map<string, CurationDecision[]>();
+        for (const decision of decisions) {
+            const key = `${decision.from}\n${decision.to}\n${decision.reason}`;
+            groups.set(key, [...(groups.get(key) ?? []), decision]);
         }
+
+        const reviewedAt = new Date().toISOString();
+        let applied = 0;
+
+        for (const group of groups.values()) {
+            const { to, reason, from } = group[0];
+            const { data, error } = await supabase
+                .from('laugh_clips')
+                .update({
+                    approval_status: to,
+                    reviewed_by: null,
+                    reviewed_at: reviewedAt,
+                    rejection_reason: to === 'approved' ? null : reason
+                })
+                .in('id', group.map(decision => decision.clipId))
+                .eq('approval_status', from)    // Skip clips a moderator changed meanwhile
+                .select('id');
+
+            if (error) throw error;
+            applied += data?.length ?? 0;
+        }
+
+        return applied;
     }
 }
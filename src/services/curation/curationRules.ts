@@ -0,0 +1,178 @@
+import type { ClipApprovalStatus } from '../../types';
+
+/**
+ * Curation Rules
+ *
+ * Declarative rule set for automatic laugh clip moderation. Each rule is a
+ * set of conditions (all must hold) plus the action to take; rules are
+ * checked in order and the first match decides a clip's fate.
+ *
+ * Pure functions - storage lives in AutoCurator.
+ */
+
+// What a matching rule does; 'expire' is a rejection for clips left pending too long
+export type CurationAction = 'approve' | 'reject' | 'flag' | 'expire';
+
+// Half-open range: min <= value < max (either side optional)
+export interface Range {
+    min?: number;
+    max?: number;
+}
+
+export interface CurationCondition {
+    status?: ClipApprovalStatus[];          // Defaults to ['pending']
+    score?: Range;                          // YAMNet score (0-1)
+    durationMs?: Range;
+    loudnessLufs?: Range;                   // Clips without a measurement never match
+    skipRatio?: Range & { minPlays?: number };      // skips / plays
+    likeRatio?: Range & { minVotes?: number };      // thumbs up / all thumbs
+    ageDays?: Range;
+}
+
+export interface CurationRule {
+    id: string;
+    when: CurationCondition;
+    action: CurationAction;
+    reason: string;         // Stored as rejection_reason for reject/flag/expire
+}
+
+// Engagement and quality figures a rule can look at
+export interface CurationClip {
+    id: string;
+    approval_status: ClipApprovalStatus;
+    yamnet_score: number;
+    duration: number;                   // milliseconds
+    loudness_lufs: number | null;
+    play_count: number;
+    skip_count: number;
+    thumbs_up: number;
+    thumbs_down: number;
+    created_at: number;                 // epoch ms
+}
+
+export interface CurationDecision {
+    clipId: string;
+    ruleId: string;
+    action: CurationAction;
+    from: ClipApprovalStatus;
+    to: ClipApprovalStatus;
+    reason: string;
+}
+
+export const ACTION_STATUS: Record<CurationAction, ClipApprovalStatus> = {
+    approve: 'approved',
+    reject: 'rejected',
+    flag: 'flagged',
+    expire: 'rejected',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CURATION_RULES: CurationRule[] = [
+    {
+        id: 'expire-stale-pending',
+        when: { ageDays: { min: 30 } },
+        action: 'expire',
+        reason: 'Auto-rejected: Pending too long (30+ days)'
+    },
+    {
+        id: 'reject-unlikely-laughter',
+        when: { score: { max: 0.3 } },
+        action: 'reject',
+        reason: 'Auto-rejected: Unlikely to be laughter'
+    },
+    {
+        id: 'reject-too-short',
+        when: { durationMs: { max: 500 } },
+        action: 'reject',
+        reason: 'Auto-rejected: Too short'
+    },
+    {
+        id: 'flag-too-quiet',
+        when: { loudnessLufs: { max: -30 } },
+        action: 'flag',
+        reason: 'Too quiet even after normalization'
+    },
+    {
+        id: 'approve-confident',
+        when: { score: { min: 0.75 }, durationMs: { min: 1500 } },
+        action: 'approve',
+        reason: 'Confident laugh of a useful length'
+    },
+    {
+        id: 'flag-often-skipped',
+        when: { status: ['approved'], skipRatio: { min: 0.6, minPlays: 10 } },
+        action: 'flag',
+        reason: 'Listeners skip it most of the time'
+    },
+    {
+        id: 'flag-disliked',
+        when: { status: ['approved'], likeRatio: { max: 0.3, minVotes: 5 } },
+        action: 'flag',
+        reason: 'Mostly thumbs down'
+    },
+];
+
+const inRange = (value: number, range: Range) =>
+    (range.min === undefined || value >= range.min) &&
+    (range.max === undefined || value < range.max);
+
+/**
+ * Whether every condition of `when` holds for the clip
+ * Ratio conditions don't match until there's enough data behind them
+ */
+export function matchesCondition(clip: CurationClip, when: CurationCondition, now: number): boolean {
+    if (!(when.status ?? ['pending']).includes(clip.approval_status)) return false;
+    if (when.score && !inRange(clip.yamnet_score, when.score)) return false;
+    if (when.durationMs && !inRange(clip.duration, when.durationMs)) return false;
+
+    if (when.loudnessLufs) {
+        if (clip.loudness_lufs === null || !inRange(clip.loudness_lufs, when.loudnessLufs)) return false;
+    }
+
+    if (when.skipRatio) {
+        if (clip.play_count === 0 || clip.play_count < (when.skipRatio.minPlays ?? 1)) return false;
+        if (!inRange(clip.skip_count / clip.play_count, when.skipRatio)) return false;
+    }
+
+    if (when.likeRatio) {
+        const votes = clip.thumbs_up + clip.thumbs_down;
+        if (votes === 0 || votes < (when.likeRatio.minVotes ?? 1)) return false;
+        if (!inRange(clip.thumbs_up / votes, when.likeRatio)) return false;
+    }
+
+    if (when.ageDays && !inRange((now - clip.created_at) / DAY_MS, when.ageDays)) return false;
+
+    return true;
+}
+
+/**
+ * Decision for one clip: the first matching rule that would change its status
+ */
+export function evaluateClip(clip: CurationClip, rules: CurationRule[], now: number = Date.now()): CurationDecision | null {
+    for (const rule of rules) {
+        if (!matchesCondition(clip, rule.when, now)) continue;
+
+        const to = ACTION_STATUS[rule.action];
+        if (to === clip.approval_status) return null;
+
+        return { clipId: clip.id, ruleId: rule.id, action: rule.action, from: clip.approval_status, to, reason: rule.reason };
+    }
+    return null;
+}
+
+/**
+ * Decisions for every clip a rule applies to
+ */
+export function planCuration(clips: CurationClip[], rules: CurationRule[], now: number = Date.now()): CurationDecision[] {
+    return clips
+        .map(clip => evaluateClip(clip, rules, now))
+        .filter((decision): decision is CurationDecision => decision !== null);
+}
+
+/**
+ * Statuses any rule can act on - stores only need to load these clips
+ */
+export function statusesInScope(rules: CurationRule[]): ClipApprovalStatus[] {
+    return [...new Set(rules.flatMap(rule => rule.when.status ?? ['pending' as const]))];
+}
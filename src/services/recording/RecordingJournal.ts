@@ -0,0 +1,163 @@
+import { DEMO_MODE } from '../../lib/supabase';
+import {
+    deleteActiveRecording,
+    getActiveRecordings,
+    getRecordingChunks,
+    saveActiveRecording,
+    savePendingUpload,
+    saveRecordingChunk,
+    type ActiveRecording,
+    type PendingUpload
+} from '../../lib/db';
+import { SyncService } from '../sync/SyncService';
+import type { LaughEvent } from '../../types';
+
+/**
+ * RecordingJournal
+ *
+ * Writes a recording to IndexedDB while it happens: every MediaRecorder
+ * chunk as it arrives, plus a periodically refreshed manifest (duration,
+ * laugh events). If the tab crashes, the phone locks the page away or the
+ * user navigates off mid-session, the next launch finds the orphaned
+ * journal and can reassemble the session from it.
+ *
+ * The journal is deleted once the session has been saved (uploaded or
+ * queued in `pending_uploads`) or the user discards it.
+ */
+
+export interface RecordingJournalSnapshot {
+    duration: number;
+    wallClockDuration: number;
+    laughCount: number;
+    laughEvents: LaughEvent[];
+}
+
+// The manifest is rewritten on this heartbeat while recording (also while
+// paused), so a stale manifest means the recording is no longer running
+const HEARTBEAT_INTERVAL_MS = 1000;
+const ORPHAN_AFTER_MS = 5000;
+
+export class RecordingJournal {
+    private manifest: ActiveRecording;
+    private nextChunkIndex = 0;
+    private writeChain: Promise<void> = Promise.resolve();
+    private heartbeat: number | null = null;
+
+    constructor(recording: Pick<ActiveRecording, 'sessionId' | 'userId' | 'mimeType'>) {
+        const now = Date.now();
+        this.manifest = {
+            ...recording,
+            startedAt: now,
+            updatedAt: now,
+            duration: 0,
+            wallClockDuration: 0,
+            laughCount: 0,
+            laughEvents: [],
+            chunkCount: 0,
+        };
+    }
+
+    async start(): Promise<void> {
+        await saveActiveRecording(this.manifest);
+        this.heartbeat = window.setInterval(() => this.enqueueManifestWrite(), HEARTBEAT_INTERVAL_MS);
+        console.log(`📝 Recording journal started for session ${this.manifest.sessionId}`);
+    }
+
+    /**
+     * Persist a MediaRecorder chunk (writes are serialized to keep order)
+     */
+    appendChunk(blob: Blob): void {
+        const index = this.nextChunkIndex++;
+        this.enqueue(async () => {
+            await saveRecordingChunk({ sessionId: this.manifest.sessionId, index, blob });
+            this.manifest.chunkCount = index + 1;
+        });
+    }
+
+    /**
+     * Record the latest session state (written on the next heartbeat)
+     */
+    update(snapshot: RecordingJournalSnapshot): void {
+        this.manifest = { ...this.manifest, ...snapshot };
+    }
+
+    /**
+     * Stop the heartbeat and write everything still pending
+     * Call after the final chunk has arrived, or when abandoning the recording
+     * (the journal is left in place for recovery either way)
+     */
+    async close(snapshot?: RecordingJournalSnapshot): Promise<void> {
+        if (this.heartbeat !== null) {
+            clearInterval(this.heartbeat);
+            this.heartbeat = null;
+        }
+        if (snapshot) this.update(snapshot);
+        this.enqueueManifestWrite();
+        await this.writeChain;
+    }
+
+    private enqueueManifestWrite(): void {
+        this.enqueue(() => saveActiveRecording({ ...this.manifest, updatedAt: Date.now() }));
+    }
+
+    private enqueue(write: () => Promise<void>): void {
+        this.writeChain = this.writeChain
+            .then(write)
+            .catch(error => console.warn('⚠️ Recording journal write failed:', error));
+    }
+}
+
+/**
+ * Journals left behind by recordings that never finished
+ */
+export async function findOrphanedRecordings(): Promise<ActiveRecording[]> {
+    const recordings = await getActiveRecordings();
+    const cutoff = Date.now() - ORPHAN_AFTER_MS;
+    return recordings
+        .filter(recording => recording.updatedAt < cutoff)
+        .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * Reassemble an orphaned recording and hand it to the normal save path
+ * (`pending_uploads`, drained by SyncService), then drop the journal
+ */
+export async function recoverRecording(recording: ActiveRecording): Promise<PendingUpload | null> {
+    const chunks = await getRecordingChunks(recording.sessionId);
+    if (chunks.length === 0) {
+        // Crashed before any audio was captured - nothing to recover
+        await deleteActiveRecording(recording.sessionId);
+        return null;
+    }
+
+    const blob = new Blob(chunks.map(chunk => chunk.blob), { type: recording.mimeType });
+    const pendingUpload: PendingUpload = {
+        id: recording.sessionId,
+        blob,
+        metadata: {
+            duration: recording.duration,
+            wallClockDuration: recording.wallClockDuration,
+            timestamp: recording.startedAt,
+            userId: recording.userId,
+            mimeType: recording.mimeType,
+            laughCount: recording.laughCount,
+            laughEvents: recording.laughEvents
+        },
+        created_at: recording.startedAt,
+        attempts: 0
+    };
+
+    await savePendingUpload(pendingUpload);
+    await deleteActiveRecording(recording.sessionId);
+    if (!DEMO_MODE) {
+        SyncService.getInstance().track(pendingUpload);
+    }
+
+    console.log(`♻️ Recovered session ${recording.sessionId} (${chunks.length} chunks, ${recording.laughCount} laughs)`);
+    return pendingUpload;
+}
+
+export async function discardRecording(sessionId: string): Promise<void> {
+    await deleteActiveRecording(sessionId);
+    console.log(`🧹 Recording journal cleared for session ${sessionId}`);
+}
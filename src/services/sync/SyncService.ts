@@ -0,0 +1,375 @@
+import { supabase, DEMO_MODE } from '../../lib/supabase';
+import {
+    getPendingUploads,
+    savePendingUpload,
+    deletePendingUpload,
+    type PendingUpload,
+    type PendingUploadProgress
+} from '../../lib/db';
+import type { LaughEvent } from '../../types';
+
+/**
+ * SyncService
+ *
+ * Drains the IndexedDB `pending_uploads` store back to Supabase.
+ *
+ * Sessions land in `pending_uploads` when `useSessionManager.endSession`
+ * fails to upload. This service replays them through the same
+ * storage + `sessions` + `recordings` path, retrying with exponential
+ * backoff, and only deletes the local copy once all three writes succeed.
+ *
+ * Triggers:
+ * - App start (`start()`)
+ * - Browser coming back online
+ * - A new session being saved offline (`track()`)
+ *
+ * Demo mode keeps `pending_uploads` as the local session history, so the
+ * service never drains it there.
+ */
+
+export interface SessionUploadData {
+    sessionId: string;
+    userId: string;
+    blob: Blob;
+    duration: number;   // seconds of active recording (excludes pauses)
+    wallClockDuration?: number; // seconds from start to stop, including pauses
+    laughCount: number;
+    laughEvents?: LaughEvent[]; // Stored with the session for playback markers
+    timestamp: number;  // ms, used to build a stable storage path
+}
+
+export type SyncItemStatus = 'queued' | 'syncing' | 'retrying' | 'synced' | 'failed';
+
+export interface SyncQueueItem {
+    id: string;
+    status: SyncItemStatus;
+    attempts: number;
+    duration: number;
+    laughCount: number;
+    createdAt: number;
+    nextAttemptAt: number | null;
+    error: string | null;
+}
+
+type SyncListener = (items: SyncQueueItem[]) => void;
+
+// Configuration
+const BASE_RETRY_DELAY_MS = 2000;           // First retry after 2s
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;   // Never wait more than 5 minutes
+const MAX_ATTEMPTS = 6;                     // Then mark failed until next online/app start
+const SYNCED_VISIBLE_MS = 5000;             // Keep synced items in the queue briefly for the UI
+
+/**
+ * Upload a session recording to Supabase
+ *
+ * Writes the audio to storage, then the `sessions` row, then the
+ * `recordings` row. Steps already marked in `progress` are skipped, and
+ * `progress` is updated in place so callers can persist how far a failed
+ * upload got.
+ */
+export async function uploadSession(
+    data: SessionUploadData,
+    progress: PendingUploadProgress = {}
+): Promise<void> {
+    const mimeType = data.blob.type;
+
+    // Step 1: Audio file
+    if (!progress.storagePath) {
+        const extension = mimeType.includes('mp4') ? 'mp4' : 'webm';
+        const filename = `${data.timestamp}_recording.${extension}`;
+        const storagePath = `audio-recordings/${data.userId}/${data.sessionId}/${filename}`;
+
+        const { error: uploadError } = await supabase.storage
+            .from('audio-recordings')
+            .upload(storagePath, data.blob, {
+                contentType: mimeType,
+                cacheControl: '3600',
+                upsert: false
+            });
+
+        // A 409 means a previous attempt uploaded the file but never heard back
+        if (uploadError && !isAlreadyUploaded(uploadError)) throw uploadError;
+        progress.storagePath = storagePath;
+    }
+
+    // Step 2: Session row (upsert so a replay never duplicates it)
+    if (!progress.sessionSaved) {
+        const { error: sessionError } = await supabase
+            .from('sessions')
+            .upsert({
+                id: data.sessionId,
+                user_id: data.userId,
+                duration: Math.round(data.duration),
+                wall_clock_duration: data.wallClockDuration !== undefined
+                    ? Math.round(data.wallClockDuration)
+                    : null,
+                laugh_count: data.laughCount,
+                laugh_events: data.laughEvents ?? []
+            });
+
+        if (sessionError) throw sessionError;
+        progress.sessionSaved = true;
+    }
+
+    // Step 3: Recording row
+    if (!progress.recordingSaved) {
+        const { error: recordingError } = await supabase
+            .from('recordings')
+            .insert({
+                session_id: data.sessionId,
+                storage_path: progress.storagePath,
+                duration: Math.round(data.duration),
+                mime_type: mimeType
+            });
+
+        if (recordingError) throw recordingError;
+        progress.recordingSaved = true;
+    }
+}
+
+function isAlreadyUploaded(error: Error): boolean {
+    return 'statusCode' in error && (error as { statusCode?: string }).statusCode === '409';
+}
+
+export class SyncService {
+    private static instance: SyncService;
+    private items = new Map<string, SyncQueueItem>();
+    private listeners = new Set<SyncListener>();
+    private retryTimer: number | null = null;
+    private isDraining = false;
+    private drainRequested = false;
+    private isStarted = false;
+
+    private constructor() { }
+
+    static getInstance(): SyncService {
+        if (!SyncService.instance) {
+            SyncService.instance = new SyncService();
+        }
+        return SyncService.instance;
+    }
+
+    /**
+     * Start watching connectivity and drain anything left from a previous run
+     * Should be called on app startup
+     */
+    start(): void {
+        if (this.isStarted || DEMO_MODE) return;
+        this.isStarted = true;
+
+        window.addEventListener('online', this.handleOnline);
+        this.syncNow();
+    }
+
+    stop(): void {
+        if (!this.isStarted) return;
+        this.isStarted = false;
+
+        window.removeEventListener('online', this.handleOnline);
+        this.clearRetryTimer();
+    }
+
+    /**
+     * Subscribe to queue changes. The listener is called immediately
+     * with the current queue. Returns an unsubscribe function.
+     */
+    subscribe(listener: SyncListener): () => void {
+        this.listeners.add(listener);
+        listener(this.getQueue());
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    getQueue(): SyncQueueItem[] {
+        return [...this.items.values()].sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    /**
+     * Register an upload that was just saved offline
+     * Schedules it according to its attempt count instead of retrying immediately
+     */
+    track(upload: PendingUpload): void {
+        if (DEMO_MODE) return;
+
+        const attempts = upload.attempts ?? 0;
+        this.setItem(this.toQueueItem(upload, {
+            status: attempts > 0 ? 'retrying' : 'queued',
+            nextAttemptAt: attempts > 0 ? Date.now() + this.getRetryDelay(attempts) : null,
+            error: upload.last_error ?? null
+        }));
+        this.scheduleRetry();
+    }
+
+    /**
+     * Manually retry a single item (e.g. from a "Retry" button)
+     */
+    retry(id: string): Promise<void> {
+        const item = this.items.get(id);
+        if (item && item.status !== 'syncing') {
+            this.setItem({ ...item, status: 'queued', nextAttemptAt: null });
+        }
+        return this.syncNow();
+    }
+
+    /**
+     * Drain every pending upload that is due
+     * Safe to call repeatedly - overlapping calls are coalesced
+     */
+    async syncNow(): Promise<void> {
+        if (DEMO_MODE) return;
+
+        if (this.isDraining) {
+            this.drainRequested = true;
+            return;
+        }
+
+        this.isDraining = true;
+        this.clearRetryTimer();
+
+        try {
+            do {
+                this.drainRequested = false;
+                await this.drain();
+            } while (this.drainRequested);
+        } catch (error) {
+            console.error('❌ SyncService: Failed to read pending uploads', error);
+        } finally {
+            this.isDraining = false;
+            this.scheduleRetry();
+        }
+    }
+
+    private handleOnline = (): void => {
+        console.log('🌐 SyncService: Back online, syncing pending uploads...');
+
+        // Give failed items another chance now that the network changed
+        for (const item of this.items.values()) {
+            if (item.status === 'failed' || item.status === 'retrying') {
+                this.setItem({ ...item, status: 'queued', nextAttemptAt: null });
+            }
+        }
+        this.syncNow();
+    };
+
+    private async drain(): Promise<void> {
+        const uploads = await getPendingUploads();
+
+        for (const upload of uploads) {
+            if (!navigator.onLine) {
+                console.log('📴 SyncService: Offline, pausing sync');
+                return;
+            }
+
+            const existing = this.items.get(upload.id);
+            if (existing?.status === 'failed') continue;
+            if (existing?.nextAttemptAt && existing.nextAttemptAt > Date.now()) continue;
+
+            await this.syncUpload(upload);
+        }
+    }
+
+    private async syncUpload(upload: PendingUpload): Promise<void> {
+        const progress: PendingUploadProgress = { ...upload.progress };
+        this.setItem(this.toQueueItem(upload, { status: 'syncing', nextAttemptAt: null, error: null }));
+
+        try {
+            await uploadSession({
+                sessionId: upload.id,
+                userId: upload.metadata.userId,
+                blob: upload.blob,
+                duration: upload.metadata.duration,
+                wallClockDuration: upload.metadata.wallClockDuration,
+                laughCount: upload.metadata.laughCount ?? 0,
+                laughEvents: upload.metadata.laughEvents,
+                timestamp: upload.metadata.timestamp
+            }, progress);
+
+            // All three writes landed - safe to drop the local copy
+            await deletePendingUpload(upload.id);
+            console.log(`✅ SyncService: Synced session ${upload.id}`);
+
+            this.setItem(this.toQueueItem(upload, { status: 'synced', nextAttemptAt: null, error: null }));
+            setTimeout(() => this.removeItem(upload.id), SYNCED_VISIBLE_MS);
+
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Sync failed';
+            const attempts = (upload.attempts ?? 0) + 1;
+            const updated: PendingUpload = { ...upload, progress, attempts, last_error: message };
+
+            console.warn(`⚠️ SyncService: Attempt ${attempts} failed for ${upload.id}:`, message);
+
+            try {
+                await savePendingUpload(updated);
+            } catch (saveErr) {
+                console.error('❌ SyncService: Failed to persist sync progress', saveErr);
+            }
+
+            const hasAttemptsLeft = attempts < MAX_ATTEMPTS;
+            this.setItem(this.toQueueItem(updated, {
+                status: hasAttemptsLeft ? 'retrying' : 'failed',
+                nextAttemptAt: hasAttemptsLeft ? Date.now() + this.getRetryDelay(attempts) : null,
+                error: message
+            }));
+        }
+    }
+
+    /**
+     * Exponential backoff: 2s, 4s, 8s... capped at 5 minutes
+     */
+    private getRetryDelay(attempts: number): number {
+        return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1));
+    }
+
+    private scheduleRetry(): void {
+        if (!this.isStarted) return;
+        this.clearRetryTimer();
+
+        const dueTimes = [...this.items.values()]
+            .filter(item => item.status === 'retrying' && item.nextAttemptAt !== null)
+            .map(item => item.nextAttemptAt as number);
+
+        if (dueTimes.length === 0) return;
+
+        const delay = Math.max(0, Math.min(...dueTimes) - Date.now());
+        this.retryTimer = window.setTimeout(() => {
+            this.retryTimer = null;
+            this.syncNow();
+        }, delay);
+    }
+
+    private clearRetryTimer(): void {
+        if (this.retryTimer !== null) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+    }
+
+    private toQueueItem(
+        upload: PendingUpload,
+        state: Pick<SyncQueueItem, 'status' | 'nextAttemptAt' | 'error'>
+    ): SyncQueueItem {
+        return {
+            id: upload.id,
+            attempts: upload.attempts ?? 0,
+            duration: upload.metadata.duration,
+            laughCount: upload.metadata.laughCount ?? 0,
+            createdAt: upload.created_at,
+            ...state
+        };
+    }
+
+    private setItem(item: SyncQueueItem): void {
+        this.items.set(item.id, item);
+        this.notify();
+    }
+
+    private removeItem(id: string): void {
+        if (this.items.delete(id)) this.notify();
+    }
+
+    private notify(): void {
+        const queue = this.getQueue();
+        this.listeners.forEach(listener => listener(queue));
+    }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+    computeCalibration,
+    getDetectionThresholds,
+    DEFAULT_PROBABILITY_THRESHOLD,
+    type CalibrationSample
+} from '../lib/calibration';
+import type { AudioCalibration } from '../types';
+
+const sample = (volumes: number[], laughterScores: number[] = []): CalibrationSample => ({ volumes, laughterScores });
+
+const CALIBRATION: AudioCalibration = {
+    noiseFloor: 8,
+    volumeThreshold: 27,
+    probabilityThreshold: 0.45,
+    calibratedAt: '2026-10-19T00:00:00.000Z'
+};
+
+describe('computeCalibration', () => {
+    it('takes the 90th percentile of silence as the noise floor', () => {
+        const calibration = computeCalibration({
+            silence: sample([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]),
+            speech: sample([20]),
+            laugh: sample([59, 59, 59, 59])
+        });
+
+        expect(calibration.noiseFloor).toBe(9);
+        // 40% of the way from the floor (9) to a typical laugh (59)
+        expect(calibration.volumeThreshold).toBe(29);
+    });
+
+    it('keeps the volume threshold at least 3 points above the noise floor', () => {
+        const calibration = computeCalibration({
+            silence: sample([10, 10, 10]),
+            speech: sample([11]),
+            laugh: sample([11, 11, 11])
+        });
+
+        expect(calibration.volumeThreshold).toBe(13);
+    });
+
+    it('puts the probability threshold midway between speech and laughs, within 0.1-0.8', () => {
+        const withScores = (speech: number, laugh: number) => computeCalibration({
+            silence: sample([5]),
+            speech: sample([20], [speech]),
+            laugh: sample([60], [laugh])
+        }).probabilityThreshold;
+
+        expect(withScores(0.1, 0.7)).toBe(0.4);
+        expect(withScores(0.9, 1)).toBe(0.8);
+        expect(withScores(0, 0.1)).toBe(0.1);
+    });
+
+    it('keeps the default probability threshold when YAMNet could not separate laughs', () => {
+        const withoutAi = computeCalibration({
+            silence: sample([5]),
+            speech: sample([20]),
+            laugh: sample([60])
+        });
+        const speechScoredHigher = computeCalibration({
+            silence: sample([5]),
+            speech: sample([20], [0.6]),
+            laugh: sample([60], [0.4])
+        });
+
+        expect(withoutAi.probabilityThreshold).toBe(DEFAULT_PROBABILITY_THRESHOLD);
+        expect(speechScoredHigher.probabilityThreshold).toBe(DEFAULT_PROBABILITY_THRESHOLD);
+    });
+});
+
+describe('getDetectionThresholds', () => {
+    const audio = {
+        threshold: 35,
+        inputDeviceId: 'usb-mic',
+        noiseSuppression: true,
+        calibrations: { 'usb-mic': CALIBRATION }
+    };
+
+    it('uses the calibration of the selected microphone', () => {
+        expect(getDetectionThresholds(audio)).toEqual({
+            volumeThreshold: 27,
+            probabilityThreshold: 0.45,
+            isCalibrated: true
+        });
+    });
+
+    it('falls back to the sensitivity slider for an uncalibrated microphone', () => {
+        expect(getDetectionThresholds({ ...audio, inputDeviceId: 'default' })).toEqual({
+            volumeThreshold: 35,
+            probabilityThreshold: DEFAULT_PROBABILITY_THRESHOLD,
+            isCalibrated: false
+        });
+    });
+});
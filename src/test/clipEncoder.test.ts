@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { encodeClip, encodeMp3, encodeWav, floatTo16BitPCM } from '../services/audio/clipEncoder';
+
+const sine = (seconds: number, sampleRate: number) =>
+    Float32Array.from({ length: Math.round(seconds * sampleRate) }, (_, i) =>
+        0.5 * Math.sin((2 * Math.PI * 440 * i) / sampleRate));
+
+// MPEG-1 Layer III bitrates (kbps) by header index
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG1_SAMPLE_RATES = [44100, 48000, 32000];
+
+// Walk the MPEG-1 Layer III frames of an MP3 stream
+const readMp3Frames = (bytes: Uint8Array) => {
+    const frames: Array<{ bitrate: number; sampleRate: number; channels: number }> = [];
+    let offset = 0;
+    while (offset + 4 <= bytes.length) {
+        const isSync = bytes[offset] === 0xFF && (bytes[offset + 1] & 0xFE) === 0xFA; // MPEG-1, Layer III
+        if (!isSync) throw new Error(`No frame sync at byte ${offset}`);
+
+        const bitrate = MPEG1_BITRATES[bytes[offset + 2] >> 4];
+        const sampleRate = MPEG1_SAMPLE_RATES[(bytes[offset + 2] >> 2) & 0x3];
+        const padding = (bytes[offset + 2] >> 1) & 0x1;
+        const channels = bytes[offset + 3] >> 6 === 3 ? 1 : 2;
+
+        frames.push({ bitrate, sampleRate, channels });
+        offset += Math.floor((144 * bitrate * 1000) / sampleRate) + padding;
+    }
+    return frames;
+};
+
+describe('clipEncoder', () => {
+    it('converts floats to 16-bit PCM, clipping out-of-range samples', () => {
+        expect(Array.from(floatTo16BitPCM(Float32Array.from([0, 1, -1, 2, -2, 0.5]))))
+            .toEqual([0, 32767, -32768, 32767, -32768, 16383]);
+    });
+
+    it('writes a valid 16-bit PCM WAV header and interleaved data', () => {
+        const bytes = encodeWav([Float32Array.from([0, 1]), Float32Array.from([-1, 0])], 22050);
+        const view = new DataView(bytes.buffer);
+        const text = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+        expect(bytes.length).toBe(44 + 8);
+        expect(text(0)).toBe('RIFF');
+        expect(text(8)).toBe('WAVE');
+        expect(view.getUint16(22, true)).toBe(2);       // channels
+        expect(view.getUint32(24, true)).toBe(22050);   // sample rate
+        expect(view.getUint32(40, true)).toBe(8);       // data bytes
+        expect([44, 46, 48, 50].map(offset => view.getInt16(offset, true))).toEqual([0, -32768, 32767, 0]);
+    });
+
+    it('encodes a well-formed MP3 stream covering the whole clip', () => {
+        const sampleRate = 44100;
+        const bytes = encodeMp3([sine(2, sampleRate)], sampleRate, 128);
+        const frames = readMp3Frames(bytes);
+
+        expect(frames.every(frame => frame.sampleRate === sampleRate && frame.channels === 1)).toBe(true);
+        expect(frames.length * 1152 / sampleRate).toBeGreaterThanOrEqual(2);
+        expect(frames.length * 1152 / sampleRate).toBeLessThan(2.2);
+    });
+
+    it('encodes stereo MP3', () => {
+        const frames = readMp3Frames(encodeMp3([sine(0.5, 48000), sine(0.5, 48000)], 48000));
+        expect(frames.every(frame => frame.channels === 2)).toBe(true);
+    });
+
+    it('encodes a 5s clip faster than real time', () => {
+        const started = performance.now();
+        encodeMp3([sine(5, 48000)], 48000);
+        expect(performance.now() - started).toBeLessThan(5000);
+    });
+
+    it('labels the blob with the format actually produced', () => {
+        const mp3 = encodeClip([sine(0.5, 44100)], 44100, 'mp3');
+        expect(mp3).toMatchObject({ format: 'mp3', mimeType: 'audio/mpeg', extension: 'mp3' });
+        expect(mp3.blob.type).toBe('audio/mpeg');
+
+        // 96kHz can't be carried by MP3 - falls back to (truthfully labelled) WAV
+        const fallback = encodeClip([sine(0.1, 96000)], 96000, 'mp3');
+        expect(fallback).toMatchObject({ format: 'wav', mimeType: 'audio/wav', extension: 'wav' });
+        expect(fallback.blob.type).toBe('audio/wav');
+    });
+});
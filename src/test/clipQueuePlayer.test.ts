@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ClipQueuePlayer, planTransition } from '../services/audio/ClipQueuePlayer';
+import { binLevels } from '../lib/waveform';
+
+// "Decoding" a URL like "clip:3" gives a 3 s buffer; "broken" URLs fail
+vi.mock('../lib/waveform', async importOriginal => ({
+    ...await importOriginal<typeof import('../lib/waveform')>(),
+    decodeAudio: async (url: string) => {
+        if (url.startsWith('broken')) throw new Error('Unsupported audio');
+        return { duration: Number(url.split(':')[1]) } as AudioBuffer;
+    }
+}));
+
+const fakeParam = () => ({
+    value: 1,
+    setValueAtTime: vi.fn(),
+    linearRampToValueAtTime: vi.fn(),
+    cancelScheduledValues: vi.fn(),
+    setTargetAtTime: vi.fn()
+});
+
+const fakeNode = () => ({ connect: vi.fn(), disconnect: vi.fn() });
+
+// Just enough of AudioContext for the player; tests move `currentTime` by hand
+class FakeAudioContext {
+    static latest: FakeAudioContext;
+    currentTime = 0;
+    state: AudioContextState = 'running';
+    destination = fakeNode();
+
+    constructor() {
+        FakeAudioContext.latest = this;
+    }
+
+    resume = async () => { };
+    close = async () => { };
+    createGain = () => ({ ...fakeNode(), gain: fakeParam() });
+    createAnalyser = () => ({ ...fakeNode(), fftSize: 2048, smoothingTimeConstant: 0.8 });
+    createBufferSource = () => ({ ...fakeNode(), buffer: null, start: vi.fn(), stop: vi.fn() });
+}
+
+// Move the audio clock and let the player's tick catch up
+const advanceTo = (seconds: number) => {
+    FakeAudioContext.latest.currentTime = seconds;
+    vi.advanceTimersByTime(50);
+};
+
+const loadedPlayer = async (urls: string[]) => {
+    const player = new ClipQueuePlayer({ gapMs: 0, crossfadeMs: 0 });
+    await player.load(urls);
+    return player;
+};
+
+describe('planTransition', () => {
+    it('starts the next clip after the gap when not crossfading', () => {
+        const plan = planTransition(10, 3, 2, { gapMs: 500, crossfadeMs: 0 });
+        expect(plan.crossfade).toBe(0);
+        expect(plan.nextStart).toBeCloseTo(13.5);
+    });
+
+    it('overlaps clips by the crossfade and ignores the gap', () => {
+        const plan = planTransition(10, 3, 2, { gapMs: 500, crossfadeMs: 400 });
+        expect(plan.crossfade).toBeCloseTo(0.4);
+        expect(plan.nextStart).toBeCloseTo(12.6);
+    });
+
+    it('caps the crossfade at half of the shorter clip', () => {
+        const plan = planTransition(0, 4, 1, { gapMs: 0, crossfadeMs: 2000 });
+        expect(plan.crossfade).toBeCloseTo(0.5);
+        expect(plan.nextStart).toBeCloseTo(3.5);
+    });
+});
+
+describe('binLevels', () => {
+    it('returns one 0-1 level per bar', () => {
+        const levels = binLevels(new Uint8Array(1024).fill(255), 20);
+        expect(levels).toHaveLength(20);
+        levels.forEach(level => expect(level).toBeCloseTo(1));
+    });
+
+    it('is silent for silence and empty input', () => {
+        expect(binLevels(new Uint8Array(1024), 8).every(level => level === 0)).toBe(true);
+        expect(binLevels(new Uint8Array(0), 8)).toEqual([]);
+    });
+});
+
+describe('ClipQueuePlayer', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.stubGlobal('AudioContext', FakeAudioContext);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it('resumes from where it was paused', async () => {
+        const player = await loadedPlayer(['clip:3', 'clip:3']);
+        expect(await player.play()).toBe(true);
+
+        advanceTo(1.52);    // Playback started 20 ms ahead
+        player.pause();
+        expect(player.getState()).toMatchObject({ status: 'paused', index: 0, position: 1.5 });
+
+        FakeAudioContext.latest.currentTime = 10;
+        await player.play();
+        advanceTo(10.52);
+        expect(player.getState()).toMatchObject({ status: 'playing', index: 0, position: 2 });
+    });
+
+    it('clamps seeking to the current clip', async () => {
+        const player = await loadedPlayer(['clip:3']);
+
+        player.seek(99);
+        expect(player.getState().position).toBe(3);
+        player.seek(-1);
+        expect(player.getState().position).toBe(0);
+    });
+
+    it('restarts the clip after 2 s and goes back one clip before that', async () => {
+        const player = await loadedPlayer(['clip:3', 'clip:4']);
+        player.jumpTo(1);
+        await player.play();
+
+        advanceTo(2.52);
+        player.previous();
+        expect(player.getState()).toMatchObject({ index: 1, position: 0 });
+
+        advanceTo(3.52);
+        player.previous();
+        expect(player.getState()).toMatchObject({ index: 0, position: 0 });
+    });
+
+    it('ends after the last clip, or wraps around when looping', async () => {
+        const player = await loadedPlayer(['clip:3', 'clip:3']);
+        player.jumpTo(1);
+
+        player.next();
+        expect(player.getState().status).toBe('ended');
+
+        player.setLoop(true);
+        player.jumpTo(1);
+        player.next();
+        expect(player.getState()).toMatchObject({ status: 'paused', index: 0 });
+    });
+
+    it('skips clips that failed to decode', async () => {
+        const player = await loadedPlayer(['broken-1', 'clip:2', 'broken-2', 'clip:3']);
+        expect(player.getState()).toMatchObject({ status: 'ready', index: 1, duration: 2, failed: [0, 2] });
+
+        player.next();
+        expect(player.getState()).toMatchObject({ index: 3, duration: 3 });
+    });
+});
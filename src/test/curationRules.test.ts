@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_CURATION_RULES,
+    evaluateClip,
+    planCuration,
+    statusesInScope,
+    type CurationClip,
+    type CurationRule
+} from '../services/curation/curationRules';
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const clip = (overrides: Partial<CurationClip> = {}): CurationClip => ({
+    id: 'clip-1',
+    approval_status: 'pending',
+    yamnet_score: 0.6,
+    duration: 2500,
+    loudness_lufs: -16,
+    play_count: 0,
+    skip_count: 0,
+    thumbs_up: 0,
+    thumbs_down: 0,
+    created_at: NOW - DAY_MS,
+    ...overrides
+});
+
+const decide = (overrides: Partial<CurationClip>) => evaluateClip(clip(overrides), DEFAULT_CURATION_RULES, NOW);
+
+describe('curationRules', () => {
+    it('approves confident laughs of a useful length', () => {
+        expect(decide({ yamnet_score: 0.9, duration: 2000 })).toMatchObject({ action: 'approve', to: 'approved' });
+        expect(decide({ yamnet_score: 0.9, duration: 1200 })).toBeNull();
+        expect(decide({ yamnet_score: 0.6 })).toBeNull();
+    });
+
+    it('rejects non-laughs and expires stale pending clips with a reason', () => {
+        expect(decide({ yamnet_score: 0.1 })).toMatchObject({ action: 'reject', reason: 'Auto-rejected: Unlikely to be laughter' });
+        expect(decide({ yamnet_score: 0.9, created_at: NOW - 31 * DAY_MS }))
+            .toMatchObject({ ruleId: 'expire-stale-pending', to: 'rejected' });
+    });
+
+    it('flags approved clips listeners skip or dislike, once there is enough data', () => {
+        expect(decide({ approval_status: 'approved', play_count: 20, skip_count: 15 }))
+            .toMatchObject({ ruleId: 'flag-often-skipped', from: 'approved', to: 'flagged' });
+        expect(decide({ approval_status: 'approved', play_count: 4, skip_count: 4 })).toBeNull();
+        expect(decide({ approval_status: 'approved', thumbs_up: 1, thumbs_down: 9 }))
+            .toMatchObject({ ruleId: 'flag-disliked' });
+        expect(decide({ approval_status: 'approved', thumbs_up: 0, thumbs_down: 2 })).toBeNull();
+    });
+
+    it('never matches loudness conditions on unmeasured clips', () => {
+        expect(decide({ loudness_lufs: -40 })).toMatchObject({ ruleId: 'flag-too-quiet' });
+        expect(decide({ loudness_lufs: null })).toBeNull();
+    });
+
+    it('applies the first matching rule and skips no-op decisions', () => {
+        const rules: CurationRule[] = [
+            { id: 'keep-approved', when: { status: ['approved'] }, action: 'approve', reason: 'Already fine' },
+            { id: 'flag-all', when: { status: ['approved', 'pending'] }, action: 'flag', reason: 'Flag everything' },
+        ];
+        const decisions = planCuration([clip({ id: 'a', approval_status: 'approved' }), clip({ id: 'b' })], rules, NOW);
+
+        expect(decisions.map(d => [d.clipId, d.ruleId])).toEqual([['b', 'flag-all']]);
+        expect(statusesInScope(rules)).toEqual(['approved', 'pending']);
+    });
+});
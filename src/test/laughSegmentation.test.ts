@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+    applyFades,
+    computeEnergyEnvelope,
+    ENERGY_HOP_MS,
+    findLaughBoundaries,
+    MAX_CLIP_DURATION_MS,
+    MIN_CLIP_DURATION_MS,
+    type SegmentationInput
+} from '../services/audio/laughSegmentation';
+
+const WINDOW_MS = 6500;
+const QUIET_DB = -60;
+const LOUD_DB = -20;
+
+// Energy envelope that is loud over [fromMs, toMs) and quiet elsewhere
+const envelopeWith = (...regions: Array<[number, number]>) => {
+    const energy = new Float32Array(WINDOW_MS / ENERGY_HOP_MS).fill(QUIET_DB);
+    for (const [fromMs, toMs] of regions) {
+        energy.fill(LOUD_DB, fromMs / ENERGY_HOP_MS, toMs / ENERGY_HOP_MS);
+    }
+    return energy;
+};
+
+const input = (overrides: Partial<SegmentationInput>): SegmentationInput => ({
+    windowMs: WINDOW_MS,
+    anchorMs: 3500,
+    energy: envelopeWith(),
+    frameScores: [],
+    frameHopMs: 500,
+    frameDurationMs: 975,
+    ...overrides
+});
+
+describe('laughSegmentation', () => {
+    it('computes RMS level in dBFS per hop', () => {
+        const samples = new Float32Array(320).fill(0.5);
+        samples.fill(0, 160);
+
+        const envelope = computeEnergyEnvelope(samples, 16000);
+
+        expect(envelope).toHaveLength(2);
+        expect(envelope[0]).toBeCloseTo(20 * Math.log10(0.5), 3);
+        expect(envelope[1]).toBe(-120);
+    });
+
+    it('cuts at the energy onset/offset with pre- and post-roll', () => {
+        const segment = findLaughBoundaries(input({ energy: envelopeWith([2800, 4600]) }));
+
+        expect(segment.startMs).toBe(2700);
+        expect(segment.endMs).toBe(4800);
+        expect(segment.source).toBe('energy');
+    });
+
+    it('bridges short gaps between bursts but not long pauses', () => {
+        const segment = findLaughBoundaries(input({
+            energy: envelopeWith([1000, 1500], [3000, 3400], [3600, 4000])
+        }));
+
+        expect(segment.startMs).toBe(2900);
+        expect(segment.endMs).toBe(4200);
+    });
+
+    it('keeps the energy search inside the region YAMNet calls laughter', () => {
+        // Loud from 1000ms, but only frames 5-7 (2500-4475ms) sound like laughter
+        const frameScores = [0, 0, 0.1, 0.1, 0.2, 0.8, 0.9, 0.6, 0.1, 0.1, 0];
+        const segment = findLaughBoundaries(input({
+            energy: envelopeWith([1000, 4200]),
+            frameScores
+        }));
+
+        expect(segment.source).toBe('yamnet');
+        expect(segment.startMs).toBe(2400);
+        expect(segment.endMs).toBe(4400);
+    });
+
+    it('caps long laughs at the maximum clip duration around the peak', () => {
+        const energy = envelopeWith([400, 6100]);
+        energy[3800 / ENERGY_HOP_MS] = -10;
+
+        const segment = findLaughBoundaries(input({ energy }));
+
+        expect(segment.endMs - segment.startMs).toBe(MAX_CLIP_DURATION_MS);
+        expect(segment.startMs).toBe(1300);
+        expect(segment.endMs).toBe(6300);
+    });
+
+    it('pads short blips to the minimum duration without leaving the window', () => {
+        const segment = findLaughBoundaries(input({ anchorMs: 100, energy: envelopeWith([50, 150]) }));
+
+        expect(segment.startMs).toBe(0);
+        expect(segment.endMs).toBe(MIN_CLIP_DURATION_MS);
+    });
+
+    it('fades both edges to silence', () => {
+        const data = new Float32Array(1000).fill(1);
+
+        applyFades(data, 1000, 100, 200);
+
+        expect(data[0]).toBe(0);
+        expect(data[50]).toBeCloseTo(0.5);
+        expect(data[500]).toBe(1);
+        expect(data[999]).toBe(0);
+        expect(data[899]).toBeCloseTo(0.5);
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+    findSilenceBounds,
+    limitTruePeak,
+    measureLoudness,
+    measureTruePeak,
+    normalizeLoudness,
+    TARGET_LOUDNESS_LUFS,
+    TRUE_PEAK_CEILING_DB
+} from '../services/audio/loudness';
+
+const SAMPLE_RATE = 16000;
+
+const sine = (amplitude: number, seconds: number, frequency = 997) =>
+    Float32Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, (_, i) =>
+        amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+
+const concat = (...parts: Float32Array[]) => {
+    const result = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+describe('loudness', () => {
+    it('measures a full-scale 1kHz sine at -3.01 LUFS (BS.1770 reference)', () => {
+        expect(measureLoudness([sine(1, 2)], SAMPLE_RATE)).toBeCloseTo(-3.01, 1);
+    });
+
+    it('sums channels, so the same signal in stereo is 3dB louder', () => {
+        const mono = measureLoudness([sine(0.1, 2)], SAMPLE_RATE);
+        const stereo = measureLoudness([sine(0.1, 2), sine(0.1, 2)], SAMPLE_RATE);
+        expect(stereo - mono).toBeCloseTo(3.01, 1);
+    });
+
+    it('gates silence out of the integrated measurement', () => {
+        const withSilence = concat(sine(0.1, 2), new Float32Array(2 * SAMPLE_RATE));
+        expect(measureLoudness([withSilence], SAMPLE_RATE))
+            .toBeCloseTo(measureLoudness([sine(0.1, 2)], SAMPLE_RATE), 0);
+        expect(measureLoudness([new Float32Array(SAMPLE_RATE)], SAMPLE_RATE)).toBe(-Infinity);
+    });
+
+    it('finds inter-sample peaks above the sample peak', () => {
+        // fs/4 sine sampled at +-45deg: samples peak at 0.707, the waveform at 1
+        const samples = Float32Array.from({ length: 1000 }, (_, i) => Math.sin(Math.PI / 4 + (Math.PI / 2) * i));
+        expect(measureTruePeak([samples])).toBeGreaterThan(-0.5);
+    });
+
+    it('limits the true peak to the ceiling', () => {
+        const channels = [sine(2, 1, 440), sine(1.5, 1, 660)];
+
+        limitTruePeak(channels, SAMPLE_RATE, -1);
+
+        expect(measureTruePeak(channels)).toBeLessThanOrEqual(-1 + 1e-3);
+    });
+
+    it('normalizes quiet and loud clips to the same loudness', () => {
+        const quiet = normalizeLoudness([sine(0.05, 1)], SAMPLE_RATE);
+        const loud = normalizeLoudness([sine(0.5, 1)], SAMPLE_RATE);
+
+        expect(quiet.loudness).toBeCloseTo(TARGET_LOUDNESS_LUFS, 0);
+        expect(loud.loudness).toBeCloseTo(TARGET_LOUDNESS_LUFS, 0);
+        expect(quiet.truePeak).toBeLessThanOrEqual(TRUE_PEAK_CEILING_DB + 1e-3);
+        expect(quiet.gainDb).toBeGreaterThan(loud.gainDb);
+    });
+
+    it('trims leading and trailing silence with padding', () => {
+        const samples = concat(new Float32Array(8000), sine(0.3, 1), new Float32Array(8000));
+
+        const { start, end } = findSilenceBounds([samples], SAMPLE_RATE, {
+            absoluteThresholdDb: -60,
+            relativeThresholdDb: -35,
+            padMs: 40
+        });
+
+        expect(start).toBe(8000 - 640);
+        expect(end).toBe(24000 + 640);
+    });
+
+    it('keeps everything when the clip is silent', () => {
+        expect(findSilenceBounds([new Float32Array(1600)], SAMPLE_RATE)).toEqual({ start: 0, end: 1600 });
+    });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { PlaybackGate } from '../services/audio/playbackGate';
+
+const TICK_MS = 100;
+
+// Feed `ticks` monitoring ticks of the same levels, returning the last gated level
+const feed = (gate: PlaybackGate, start: number, ticks: number, mic: number, reference: number) => {
+    let level = 0;
+    for (let i = 0; i < ticks; i++) {
+        level = gate.filter(start + i * TICK_MS, mic, reference);
+    }
+    return level;
+};
+
+describe('PlaybackGate', () => {
+    it('passes the mic level through when nothing is playing', () => {
+        const gate = new PlaybackGate();
+        expect(gate.filter(0, 40, 0)).toBe(40);
+        expect(gate.expectedEcho()).toBe(0);
+    });
+
+    it('suppresses anything not louder than the playback while still learning', () => {
+        const gate = new PlaybackGate();
+        expect(gate.filter(0, 30, 30)).toBe(0);
+        expect(gate.filter(100, 50, 30)).toBe(50);
+    });
+
+    it('learns the echo attenuation and gates only the echo', () => {
+        const gate = new PlaybackGate();
+
+        // Speakers: playback at 40 reaches the mic at ~25
+        expect(feed(gate, 0, 30, 25, 40)).toBe(0);
+        expect(gate.attenuation()).toBeCloseTo(15);
+
+        // The user laughing over the playback still counts
+        expect(gate.filter(3000, 45, 40)).toBe(45);
+    });
+
+    it('keeps gating for the tail after playback stops', () => {
+        const gate = new PlaybackGate({ tailMs: 400 });
+        feed(gate, 0, 20, 25, 40);
+
+        expect(gate.filter(2100, 25, 0)).toBe(0);    // Echo still arriving
+        expect(gate.filter(2500, 25, 0)).toBe(25);   // Tail over
+    });
+
+    it('gates nothing with headphones once learned', () => {
+        const gate = new PlaybackGate();
+        feed(gate, 0, 30, 5, 40);    // Playback never reaches the mic
+
+        expect(gate.filter(3000, 20, 40)).toBe(20);
+    });
+});
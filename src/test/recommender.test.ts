@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+    clipWeight,
+    createRandom,
+    diversify,
+    epsilonGreedyStrategy,
+    sampleBeta,
+    thompsonStrategy,
+    weightedRandomStrategy,
+    type RecommendationCandidate
+} from '../services/clips/recommender';
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+
+const clip = (id: string, overrides: Partial<RecommendationCandidate> = {}): RecommendationCandidate => ({
+    id,
+    yamnet_score: 0.8,
+    duration: 2500,
+    play_count: 0,
+    skip_count: 0,
+    thumbs_up: 0,
+    thumbs_down: 0,
+    contributor_id: null,
+    ...overrides
+});
+
+const ids = (picks: Array<{ clip: RecommendationCandidate }>) => picks.map(pick => pick.clip.id);
+
+describe('recommender', () => {
+    it('explains every weight adjustment', () => {
+        const { weight, reasons } = clipWeight(clip('a', {
+            yamnet_score: 0.95,
+            history: { liked: true, skipped_count: 0, last_played_at: NOW - 10 * 60000 }
+        }), NOW);
+
+        expect(weight).toBeCloseTo(0.1);
+        expect(reasons).toEqual(['you liked it (+2)', 'AI score 95% (+1.5)', 'played 10 min ago (-5)', 'floored at 0.1']);
+    });
+
+    it('is reproducible with a seed and picks each clip at most once', () => {
+        const candidates = ['a', 'b', 'c', 'd', 'e'].map(id => clip(id));
+        const run = (seed: number) => ids(weightedRandomStrategy().recommend(candidates, 3, { now: NOW, random: createRandom(seed) }));
+
+        expect(run(42)).toEqual(run(42));
+        expect(new Set(run(42)).size).toBe(3);
+        expect(run(7).length).toBe(3);
+    });
+
+    it('epsilon-greedy exploits the best like rate when not exploring', () => {
+        const candidates = [
+            clip('meh', { thumbs_up: 2, thumbs_down: 8 }),
+            clip('loved', { thumbs_up: 9, thumbs_down: 1 }),
+            clip('skipped', { thumbs_up: 5, skip_count: 20 }),
+        ];
+        const picks = epsilonGreedyStrategy(0).recommend(candidates, 3, { now: NOW, random: createRandom(1) });
+
+        expect(ids(picks)).toEqual(['loved', 'meh', 'skipped']);
+        expect(picks[0].reasons[0]).toBe('exploit: best expected like rate');
+    });
+
+    it('Thompson sampling favours clips listeners like, and samples Beta correctly', () => {
+        const random = createRandom(3);
+        const samples = Array.from({ length: 4000 }, () => sampleBeta(8, 2, random));
+        expect(samples.reduce((sum, x) => sum + x, 0) / samples.length).toBeCloseTo(0.8, 1);
+
+        const candidates = [clip('disliked', { thumbs_down: 30 }), clip('liked', { thumbs_up: 30 })];
+        const firsts = Array.from({ length: 50 }, (_, seed) =>
+            thompsonStrategy().recommend(candidates, 1, { now: NOW, random: createRandom(seed) })[0].clip.id);
+        expect(firsts.every(id => id === 'liked')).toBe(true);
+    });
+
+    it('keeps recently played clips for last', () => {
+        const candidates = [
+            clip('recent', { thumbs_up: 50, history: { liked: true, skipped_count: 0, last_played_at: NOW - 60000 } }),
+            clip('fresh'),
+        ];
+        const picks = thompsonStrategy().recommend(candidates, 2, { now: NOW, random: createRandom(5) });
+        expect(ids(picks)).toEqual(['fresh', 'recent']);
+    });
+
+    it('spreads picks across contributors and laugh styles', () => {
+        const candidates = [
+            clip('alice-1', { contributor_id: 'alice', thumbs_up: 20 }),
+            clip('alice-2', { contributor_id: 'alice', thumbs_up: 19 }),
+            clip('alice-3', { contributor_id: 'alice', thumbs_up: 18, duration: 4500 }),
+            clip('bob-1', { contributor_id: 'bob', thumbs_up: 1 }),
+        ];
+        const picks = diversify(epsilonGreedyStrategy(0)).recommend(candidates, 3, { now: NOW, random: createRandom(9) });
+
+        expect(ids(picks)).toEqual(['alice-1', 'bob-1', 'alice-3']);
+        expect(picks[1].reasons.at(-1)).toContain('new contributor');
+    });
+});
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { hasRole, parseRoles } from '../lib/roles';
+
+describe('roles', () => {
+    it('lets higher roles through lower-role gates', () => {
+        expect(hasRole(['user', 'admin'], 'moderator')).toBe(true);
+        expect(hasRole(['user', 'moderator'], 'moderator')).toBe(true);
+        expect(hasRole(['user', 'moderator'], 'admin')).toBe(false);
+        expect(hasRole(['user'], 'moderator')).toBe(false);
+        expect(hasRole([], 'user')).toBe(false);
+    });
+
+    it('ignores unknown and duplicate role values', () => {
+        expect(parseRoles(['user', 'superuser', null, 'moderator', 'user'])).toEqual(['user', 'moderator']);
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+    findSpeechRegions,
+    MAX_PITCH_SHIFT_SEMITONES,
+    MIN_PITCH_SHIFT_SEMITONES,
+    randomPitchShift,
+    shiftPitch,
+    suppressRegions
+} from '../services/audio/voiceAnonymizer';
+
+const SAMPLE_RATE = 16000;
+
+const sine = (frequency: number, seconds: number) =>
+    Float32Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, (_, i) =>
+        0.5 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+
+// Dominant frequency by counting upward zero crossings
+const estimateFrequency = (samples: Float32Array) => {
+    let crossings = 0;
+    for (let i = 1; i < samples.length; i++) {
+        if (samples[i - 1] < 0 && samples[i] >= 0) crossings++;
+    }
+    return crossings / (samples.length / SAMPLE_RATE);
+};
+
+describe('voiceAnonymizer', () => {
+    it('shifts pitch by the requested semitones without changing length', () => {
+        const input = sine(200, 1);
+
+        const up = shiftPitch(input, SAMPLE_RATE, 12);
+        const down = shiftPitch(input, SAMPLE_RATE, -12);
+
+        expect(up).toHaveLength(input.length);
+        expect(estimateFrequency(up.subarray(1600, 14400))).toBeCloseTo(400, -1);
+        expect(estimateFrequency(down.subarray(1600, 14400))).toBeCloseTo(100, -1);
+    });
+
+    it('picks a shift of 3-5 semitones in either direction', () => {
+        expect(randomPitchShift(() => 0)).toBe(-MIN_PITCH_SHIFT_SEMITONES);
+        expect(randomPitchShift(() => 0.99)).toBeCloseTo(MAX_PITCH_SHIFT_SEMITONES, 1);
+    });
+
+    it('marks frames dominated by speech, merging neighbours', () => {
+        const regions = findSpeechRegions([
+            { laughter: 0.1, speech: 0.8 },
+            { laughter: 0.2, speech: 0.7 },
+            { laughter: 0.9, speech: 0.5 },   // Laughing over talk - keep
+            { laughter: 0.8, speech: 0.1 },
+            { laughter: 0.0, speech: 0.6 },
+        ], 500, 975);
+
+        expect(regions).toEqual([
+            { start: 237.5, end: 1237.5 },
+            { start: 2237.5, end: 2737.5 },
+        ]);
+    });
+
+    it('mutes speech regions with ramps, leaving the rest untouched', () => {
+        const channel = new Float32Array(SAMPLE_RATE).fill(1);
+
+        suppressRegions(channel, SAMPLE_RATE, [{ start: 250, end: 500 }]);
+
+        expect(channel[3999]).toBe(1);
+        expect(channel[4000]).toBe(1);        // Ramp starts at full level
+        expect(channel[6000]).toBeCloseTo(0.01);
+        expect(channel[8000]).toBe(1);
+    });
+});
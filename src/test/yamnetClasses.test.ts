@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+    BUILTIN_CLASS_MAP,
+    DEFAULT_LAUGHTER_CLASSES,
+    evaluateLaughter,
+    parseClassMap,
+    resolveLaughterClasses,
+    YAMNET_CLASS_COUNT
+} from '../services/audio/yamnetClasses';
+
+const scoresWith = (values: Record<number, number>) => {
+    const scores = new Float32Array(YAMNET_CLASS_COUNT);
+    for (const [index, score] of Object.entries(values)) {
+        scores[Number(index)] = score;
+    }
+    return scores;
+};
+
+describe('yamnetClasses', () => {
+    it('parses quoted display names from the class map CSV', () => {
+        const classMap = parseClassMap([
+            'index,mid,display_name',
+            '13,/m/01j3sz,Laughter',
+            '18,/m/02fxyj,"Chuckle, chortle"',
+            ''
+        ].join('\n'));
+
+        expect(classMap).toEqual([
+            { index: 13, mid: '/m/01j3sz', name: 'Laughter' },
+            { index: 18, mid: '/m/02fxyj', name: 'Chuckle, chortle' },
+        ]);
+    });
+
+    it('resolves the default laughter set to YAMNet indices 13-18', () => {
+        const resolved = resolveLaughterClasses(DEFAULT_LAUGHTER_CLASSES, BUILTIN_CLASS_MAP);
+        expect(resolved.laughter.sort((a, b) => a - b)).toEqual([13, 14, 15, 16, 17, 18]);
+    });
+
+    it('accepts display names and indices as selectors', () => {
+        const resolved = resolveLaughterClasses(
+            { laughter: ['giggle', 13], veto: ['Speech'], vetoThreshold: 0.5 },
+            BUILTIN_CLASS_MAP
+        );
+        expect(resolved.laughter).toEqual([15, 13]);
+        expect(resolved.veto).toEqual([0]);
+    });
+
+    it('sums laughter classes and labels the top classes', () => {
+        const resolved = resolveLaughterClasses(DEFAULT_LAUGHTER_CLASSES, BUILTIN_CLASS_MAP);
+        const result = evaluateLaughter(scoresWith({ 13: 0.5, 15: 0.2, 0: 0.1 }), resolved, BUILTIN_CLASS_MAP, 2);
+
+        expect(result.laughterScore).toBeCloseTo(0.7);
+        expect(result.isLaughter).toBe(true);
+        expect(result.top.map(c => c.name)).toEqual(['Laughter', 'Giggle']);
+    });
+
+    it('vetoes frames where a veto class dominates', () => {
+        const resolved = resolveLaughterClasses(DEFAULT_LAUGHTER_CLASSES, BUILTIN_CLASS_MAP);
+        const result = evaluateLaughter(scoresWith({ 13: 0.35, 6: 0.8 }), resolved, BUILTIN_CLASS_MAP);
+
+        expect(result.isLaughter).toBe(false);
+        expect(result.veto?.name).toBe('Shout');
+    });
+});
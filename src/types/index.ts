@@ -1,9 +1,18 @@
+// Laugh detector calibration for one microphone (see CalibrationWizard)
+export interface AudioCalibration {
+    noiseFloor: number;           // Ambient volume (0-100)
+    volumeThreshold: number;      // Volume gate for laugh detection (0-100)
+    probabilityThreshold: number; // YAMNet laughter probability (0-1)
+    calibratedAt: string;         // ISO timestamp
+}
+
 export interface UserSettings {
     theme: 'light' | 'dark' | 'system' | 'stitch';
     audio: {
         threshold: number;
         inputDeviceId: string;
         noiseSuppression: boolean;
+        calibrations?: Record<string, AudioCalibration>; // Keyed by inputDeviceId
     };
     privacy: {
         publicLeaderboard: boolean;
@@ -11,8 +20,29 @@ export interface UserSettings {
     notifications: {
         reminders: boolean;
     };
+    laughAlong: {
+        enabled: boolean;   // Loop approved clips quietly while recording
+        volume: number;     // 0-1
+    };
+}
+
+// A single detected laugh within a recording
+export interface LaughEvent {
+    time: number;        // ms offset from recording start
+    duration: number;    // ms
+    volume: number;      // peak volume (0-100) during the laugh
+    probability: number; // peak YAMNet laughter probability (0 when volume-only)
 }
 
+// Access level - see src/lib/roles.ts for the hierarchy
+export type UserRole = 'user' | 'moderator' | 'admin';
+
+// Moderation state of a shared laugh clip (laugh_clips.approval_status)
+export type ClipApprovalStatus = 'pending' | 'approved' | 'rejected' | 'flagged';
+
+// Voice anonymization applied to a shared laugh clip (laugh_clips.anonymization)
+export type AnonymizationStep = 'pitch_shift' | 'speech_suppression';
+
 export interface Profile {
     id: string;
     display_name: string | null;
@@ -33,5 +63,9 @@ export const DEFAULT_SETTINGS: UserSettings = {
     },
     notifications: {
         reminders: false
+    },
+    laughAlong: {
+        enabled: false,
+        volume: 0.15
     }
 };